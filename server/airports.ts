@@ -0,0 +1,77 @@
+/**
+ * Airport reference data.
+ *
+ * Flights store their origin and destination as IATA airport codes. Users
+ * and partner files type cities instead ("São Paulo", "Sao Paulo"), so
+ * anything entered is resolved to an airport by code, city or airport name,
+ * ignoring case and accents. The airports themselves live in the `airports`
+ * table (seeded by the 0013 migration); a city's first airport there is its
+ * main one and is what the city name resolves to.
+ */
+
+export interface Airport {
+  iataCode: string;
+  icaoCode: string;
+  name: string;
+  city: string;
+  /** ISO 3166-1 alpha-2 */
+  country: string;
+  /** IANA time zone */
+  timezone: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Lowercases, strips accents and drops anything that is not a letter or
+ * digit (`São Paulo` → `saopaulo`).
+ */
+export const normalizeAirportSearch = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/**
+ * Finds the airport a user meant: an IATA or ICAO code, a city (its main
+ * airport) or an airport's full name. Returns null when nothing matches.
+ */
+export const resolveAirport = <T extends Airport>(value: string, airports: T[]): T | null => {
+  const search = normalizeAirportSearch(value);
+  if (!search) return null;
+
+  return airports.find((airport) => airport.iataCode.toLowerCase() === search) ??
+    airports.find((airport) => airport.icaoCode.toLowerCase() === search) ??
+    airports.find((airport) => normalizeAirportSearch(airport.city) === search) ??
+    airports.find((airport) => normalizeAirportSearch(airport.name) === search) ??
+    null;
+};
+
+/**
+ * Airports matching what has been typed so far, best matches first: exact
+ * codes, then cities and names starting with the text, then those
+ * containing it.
+ */
+export const searchAirports = <T extends Airport>(query: string, airports: T[], limit: number): T[] => {
+  const search = normalizeAirportSearch(query);
+  if (!search) return airports.slice(0, limit);
+
+  const rank = (airport: T): number | null => {
+    const city = normalizeAirportSearch(airport.city);
+    const name = normalizeAirportSearch(airport.name);
+
+    if (airport.iataCode.toLowerCase() === search || airport.icaoCode.toLowerCase() === search) return 0;
+    if (city.startsWith(search)) return 1;
+    if (name.startsWith(search)) return 2;
+    if (city.includes(search) || name.includes(search)) return 3;
+    return null;
+  };
+
+  return airports
+    .map((airport, index) => ({ airport, index, rank: rank(airport) }))
+    .filter((match): match is { airport: T; index: number; rank: number } => match.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(({ airport }) => airport);
+};
@@ -0,0 +1,45 @@
+/**
+ * Booking status lifecycle.
+ *
+ * A booking normally moves pending → confirmed → checked-in → boarded →
+ * flown. It can be cancelled until boarding, marked as a no-show when the
+ * passenger never boards, and refunded once cancelled or a no-show.
+ * `flown` and `refunded` are final.
+ */
+import type { BookingStatus } from "./schema.ts";
+
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  "pending": ["confirmed", "cancelled"],
+  "confirmed": ["checked-in", "cancelled", "no-show"],
+  "checked-in": ["boarded", "cancelled", "no-show"],
+  "boarded": ["flown"],
+  "flown": [],
+  "cancelled": ["refunded"],
+  "no-show": ["refunded"],
+  "refunded": [],
+};
+
+/** Statuses of bookings that will not fly and hold no seat. */
+export const INACTIVE_BOOKING_STATUSES: BookingStatus[] = ["cancelled", "no-show", "refunded"];
+
+/** Statuses a booking can be created with. */
+export const INITIAL_BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed"];
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Throws a descriptive error when `from` → `to` is not an allowed transition.
+ */
+export const assertTransition = (from: BookingStatus, to: BookingStatus): void => {
+  if (from === to) {
+    throw new Error(`Booking is already ${to}`);
+  }
+  if (!canTransition(from, to)) {
+    const allowed = BOOKING_STATUS_TRANSITIONS[from];
+    throw new Error(
+      `Cannot change booking status from ${from} to ${to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(", ")})` : ` (${from} is final)`),
+    );
+  }
+};
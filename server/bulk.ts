@@ -0,0 +1,132 @@
+/**
+ * Bulk writes.
+ *
+ * D1 caps a statement at 100 bound parameters and offers no transactions,
+ * so writing many rows one statement at a time is slow and leaves more to
+ * undo when something fails. These helpers bind a whole batch of rows (or
+ * a list of values) as one JSON parameter and unpack it with `json_each`.
+ */
+import { type Column, eq, getTableColumns, is, SQL, sql, type Table } from "drizzle-orm";
+import { bookingsTable } from "./schema.ts";
+import { generateRecordLocator } from "./record-locator.ts";
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Rows per statement for bulk writes, whose rows travel as one JSON
+// parameter; keeps that parameter well under D1's 2 MB per string value
+export const BULK_WRITE_BATCH_SIZE = 1000;
+
+/**
+ * `column IN (...)` for any number of values. The list is bound as one
+ * JSON parameter, so it is not capped by D1's 100 bound parameters.
+ */
+export const inJsonList = (column: Column, values: readonly unknown[]): SQL =>
+  sql`${column} in (select value from json_each(${JSON.stringify(values)}))`;
+
+// `json_extract(<row>, '$.<column>')`, and whether the row has that key at all
+const jsonPath = (column: Column) => sql.raw(`'$.${column.name}'`);
+
+const toJsonRows = (table: Table, rows: Record<string, unknown>[]): string => {
+  const columns = Object.entries(getTableColumns(table));
+  return JSON.stringify(rows.map((row) =>
+    Object.fromEntries(columns.flatMap(([key, column]) =>
+      row[key] === undefined ? [] : [[column.name, row[key] === null ? null : column.mapToDriverValue(row[key])]]
+    ))
+  ));
+};
+
+/**
+ * Inserts rows with one statement per batch: the batch is bound as a
+ * single JSON parameter and unpacked with `json_each`, so a statement is
+ * not capped by D1's 100 bound parameters. Columns a row leaves out get
+ * their default. Returns the new ids in the order of `rows`.
+ */
+export const insertMany = async <T extends Table & { id: Column }>(
+  db: any,
+  table: T,
+  rows: T["$inferInsert"][],
+  batchSize = BULK_WRITE_BATCH_SIZE,
+): Promise<number[]> => {
+  // Every column, in table order, as drizzle lists them for `insert ... select`
+  const columns = Object.values(getTableColumns(table));
+  const ids: number[] = [];
+
+  for (const batch of chunk(rows, batchSize)) {
+    const values = columns.map((column) => {
+      const fallback = column.default === undefined
+        ? sql`null`
+        : is(column.default, SQL) ? column.default : sql`${column.default}`;
+      return sql`case when json_type(value, ${jsonPath(column)}) is null then ${fallback} else json_extract(value, ${jsonPath(column)}) end`;
+    });
+    const created = await db.insert(table)
+      .select(sql`select ${sql.join(values, sql`, `)} from json_each(${toJsonRows(table, batch)}) order by key`)
+      .returning({ id: table.id });
+    // Rows are inserted in `key` order, so their ids ascend with it
+    ids.push(...created.map((row: { id: number }) => row.id).sort((a: number, b: number) => a - b));
+  }
+
+  return ids;
+};
+
+/**
+ * Updates rows by id with one statement per batch, binding the batch as a
+ * single JSON parameter. Each row sets only the columns it has, so rows of
+ * the same batch can change different columns.
+ */
+export const updateMany = async <T extends Table & { id: Column }>(
+  db: any,
+  table: T,
+  rows: ({ id: number } & Partial<T["$inferSelect"]>)[],
+  batchSize = BULK_WRITE_BATCH_SIZE,
+) => {
+  const columns = getTableColumns(table);
+
+  for (const batch of chunk(rows, batchSize)) {
+    const keys = [...new Set(batch.flatMap((row) => Object.keys(row)))]
+      .filter((key) => key !== "id" && key in columns);
+    if (keys.length === 0) continue;
+
+    const row = sql.identifier("row");
+    await db.update(table)
+      .set(Object.fromEntries(keys.map((key) => [
+        key,
+        sql`case when json_type(${row}.value, ${jsonPath(columns[key])}) is null then ${columns[key]} else json_extract(${row}.value, ${jsonPath(columns[key])}) end`,
+      ])))
+      .from(sql`json_each(${toJsonRows(table, batch)}) as ${row}`)
+      .where(eq(table.id, sql`json_extract(${row}.value, '$.id')`));
+  }
+};
+
+/**
+ * Creates one empty booking per locator, generating a fresh record
+ * locator where none is given. Returns the booking ids in the same order.
+ */
+export const createBookings = async (db: any, locators: (string | null)[]): Promise<number[]> => {
+  const assigned = [...locators];
+  let missing = assigned.flatMap((locator, index) => locator === null ? [index] : []);
+
+  // Locators are random, so draw again for the rare ones already in use
+  while (missing.length > 0) {
+    const candidates = missing.map(() => generateRecordLocator());
+    const taken = new Set(assigned.filter((locator): locator is string => locator !== null));
+    const existing = await db.select({ recordLocator: bookingsTable.recordLocator })
+      .from(bookingsTable)
+      .where(inJsonList(bookingsTable.recordLocator, candidates));
+    for (const { recordLocator } of existing) taken.add(recordLocator);
+
+    missing = missing.filter((index, i) => {
+      if (taken.has(candidates[i])) return true;
+      taken.add(candidates[i]);
+      assigned[index] = candidates[i];
+      return false;
+    });
+  }
+
+  return insertMany(db, bookingsTable, (assigned as string[]).map((recordLocator) => ({ recordLocator })));
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { CSVParseError, parseCSV } from "./csv.ts";
+
+const parse = (input: string | Iterable<string>, delimiter?: string) =>
+  [...parseCSV(input, { delimiter })];
+
+const fields = (input: string | Iterable<string>, delimiter?: string) =>
+  parse(input, delimiter).map((record) => record.fields);
+
+describe("parseCSV", () => {
+  it("splits records and fields", () => {
+    expect(fields("a,b,c\n1,2,3\n")).toEqual([["a", "b", "c"], ["1", "2", "3"]]);
+  });
+
+  it("keeps delimiters and line breaks inside quoted fields", () => {
+    expect(fields('a,"x, y",c\n"multi\nline",2,3')).toEqual([
+      ["a", "x, y", "c"],
+      ["multi\nline", "2", "3"],
+    ]);
+  });
+
+  it("reads a doubled quote inside a quoted field as one quote", () => {
+    expect(fields('"say ""hi""",""""\n')).toEqual([['say "hi"', '"']]);
+  });
+
+  it("treats CRLF outside quotes as one line break", () => {
+    expect(parse("a,b\r\n1,2\r\n3,4")).toEqual([
+      { fields: ["a", "b"], line: 1 },
+      { fields: ["1", "2"], line: 2 },
+      { fields: ["3", "4"], line: 3 },
+    ]);
+  });
+
+  it("keeps CRLF inside quoted fields", () => {
+    expect(parse('a,"x\r\ny",c\r\nnext,1,2')).toEqual([
+      { fields: ["a", "x\r\ny", "c"], line: 1 },
+      { fields: ["next", "1", "2"], line: 3 },
+    ]);
+  });
+
+  it("keeps CRLF split across chunks together", () => {
+    expect(fields(['a,"x\r', '\ny",c\r', "\nb,c,d"])).toEqual([["a", "x\r\ny", "c"], ["b", "c", "d"]]);
+  });
+
+  it("skips a leading BOM", () => {
+    expect(fields("\uFEFFname,email\nAna,ana@example.com")).toEqual([
+      ["name", "email"],
+      ["Ana", "ana@example.com"],
+    ]);
+  });
+
+  it("splits on a custom delimiter", () => {
+    expect(fields('nome;valor\n"Silva; Ana";1.200,50', ";")).toEqual([
+      ["nome", "valor"],
+      ["Silva; Ana", "1.200,50"],
+    ]);
+  });
+
+  it("skips blank lines but keeps a lone empty quoted field", () => {
+    expect(parse('a\n\n""\nb')).toEqual([
+      { fields: ["a"], line: 1 },
+      { fields: [""], line: 3 },
+      { fields: ["b"], line: 4 },
+    ]);
+  });
+
+  it("rejects a quote inside an unquoted field", () => {
+    expect(() => parse('a,b"c\n')).toThrow(new CSVParseError("Unexpected quote in unquoted field on line 1", 1));
+  });
+
+  it("rejects text after a closing quote", () => {
+    expect(() => parse('a\n"b"c,d')).toThrow("Unexpected character after closing quote on line 2");
+  });
+
+  it("rejects an unterminated quoted field, naming the line it starts on", () => {
+    expect(() => parse('a\n"b,\nc\n')).toThrow("Unterminated quoted field starting on line 2");
+  });
+
+  it("rejects delimiters that cannot separate fields", () => {
+    for (const delimiter of ['"', "\n", "\r", ";;"]) {
+      expect(() => parse("a", delimiter)).toThrow(`Invalid CSV delimiter`);
+    }
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * RFC 4180 CSV parser shared by the passenger import tools.
+ *
+ * Supports quoted fields (including embedded delimiters and newlines),
+ * escaped quotes (`""`), LF and CRLF line endings, a leading UTF-8 BOM
+ * and a configurable delimiter (`;` is common in Brazilian exports).
+ *
+ * Input can be a whole string or any iterable of string chunks; records
+ * are yielded as soon as they are complete, so large files never need to
+ * be split into lines up front.
+ */
+
+export interface CSVParseOptions {
+  /** Field delimiter, defaults to `,` */
+  delimiter?: string;
+}
+
+export interface CSVRecord {
+  fields: string[];
+  /** 1-based line number where the record starts */
+  line: number;
+}
+
+export class CSVParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = "CSVParseError";
+  }
+}
+
+const QUOTE = '"';
+const BOM = "\uFEFF";
+
+export function* parseCSV(
+  input: string | Iterable<string>,
+  options: CSVParseOptions = {},
+): Generator<CSVRecord> {
+  const delimiter = options.delimiter ?? ",";
+
+  if (delimiter.length !== 1 || delimiter === QUOTE || delimiter === "\n" || delimiter === "\r") {
+    throw new Error(`Invalid CSV delimiter "${delimiter}"`);
+  }
+
+  const chunks = typeof input === "string" ? [input] : input;
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Set after a closing quote, until we know whether it was an escaped `""`
+  let quoteClosed = false;
+  // Set after a `\r`, so a following `\n` is treated as part of the same line break
+  let pendingCR = false;
+  let line = 1;
+  let recordLine = 1;
+  let isFirstChar = true;
+
+  const endRecord = (): CSVRecord | null => {
+    // Blank lines are skipped, but a lone `""` is a real (empty) record
+    const isBlank = fields.length === 0 && field === "" && !quoteClosed;
+    fields.push(field);
+    const record = { fields, line: recordLine };
+    fields = [];
+    field = "";
+    quoteClosed = false;
+    return isBlank ? null : record;
+  };
+
+  for (const chunk of chunks) {
+    for (const char of chunk) {
+      if (isFirstChar) {
+        isFirstChar = false;
+        if (char === BOM) continue;
+      }
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === "\n") {
+          // Inside quotes the line break is data and is kept whole
+          if (inQuotes) field += char;
+          continue;
+        }
+      }
+
+      if (inQuotes) {
+        if (char === QUOTE) {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          if (char === "\n" || char === "\r") {
+            line++;
+            pendingCR = char === "\r";
+          }
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === QUOTE) {
+        if (quoteClosed) {
+          // `""` inside a quoted field is a literal quote
+          field += QUOTE;
+          inQuotes = true;
+          quoteClosed = false;
+        } else if (field === "") {
+          inQuotes = true;
+        } else {
+          throw new CSVParseError(`Unexpected quote in unquoted field on line ${line}`, line);
+        }
+        continue;
+      }
+
+      if (char === delimiter) {
+        fields.push(field);
+        field = "";
+        quoteClosed = false;
+        continue;
+      }
+
+      if (char === "\n" || char === "\r") {
+        pendingCR = char === "\r";
+        const record = endRecord();
+        line++;
+        recordLine = line;
+        if (record) yield record;
+        continue;
+      }
+
+      if (quoteClosed) {
+        throw new CSVParseError(`Unexpected character after closing quote on line ${line}`, line);
+      }
+
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CSVParseError(`Unterminated quoted field starting on line ${recordLine}`, recordLine);
+  }
+
+  if (field !== "" || fields.length > 0 || quoteClosed) {
+    const record = endRecord();
+    if (record) yield record;
+  }
+}
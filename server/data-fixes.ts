@@ -0,0 +1,100 @@
+/**
+ * Data fixes.
+ *
+ * Some changes to existing rows need application code rather than SQL,
+ * such as drawing random record locators. They run once, in order, after
+ * the SQL migrations, and each is recorded in `data_fixes` when it
+ * finishes. A fix must be safe to run again, since one that stops
+ * part-way is retried on the next request.
+ */
+import { and, asc, eq, isNull, not, or } from "drizzle-orm";
+import { airportsTable, dataFixesTable, dataMigrationIssuesTable, flightsTable, passengersTable } from "./schema.ts";
+import { BULK_WRITE_BATCH_SIZE, chunk, createBookings, inJsonList, insertMany, updateMany } from "./bulk.ts";
+import { resolveAirport } from "./airports.ts";
+
+/**
+ * Migration 0011 added `passengers.booking_id` without filling it, so
+ * passengers booked before then get a booking (and record locator) each.
+ */
+const backfillBookings = async (db: any) => {
+  for (;;) {
+    const passengers: { id: number }[] = await db.select({ id: passengersTable.id })
+      .from(passengersTable)
+      .where(isNull(passengersTable.bookingId))
+      .orderBy(passengersTable.id)
+      .limit(BULK_WRITE_BATCH_SIZE);
+    if (passengers.length === 0) return;
+
+    const bookingIds = await createBookings(db, passengers.map(() => null));
+    await updateMany(db, passengersTable, passengers.map(({ id }, index) => ({ id, bookingId: bookingIds[index] })));
+  }
+};
+
+/**
+ * Migration 0013 replaced flight cities with airport codes comparing them
+ * case- but not accent-insensitively, so `Sao Paulo` stayed as it was.
+ * Flights whose origin or destination is still not an airport code are
+ * matched again with `resolveAirport`; values that match no airport are
+ * recorded in data_migration_issues and left as they are.
+ */
+const resolveFlightAirports = async (db: any) => {
+  const airports: (typeof airportsTable.$inferSelect)[] = await db.select()
+    .from(airportsTable)
+    .orderBy(asc(airportsTable.id));
+  const codes = airports.map((airport) => airport.iataCode);
+  const flights: { id: number; origin: string; destination: string }[] = await db
+    .select({ id: flightsTable.id, origin: flightsTable.origin, destination: flightsTable.destination })
+    .from(flightsTable)
+    .where(or(not(inJsonList(flightsTable.origin, codes)), not(inJsonList(flightsTable.destination, codes))));
+
+  const updates: { id: number; origin?: string; destination?: string }[] = [];
+  const issues: (typeof dataMigrationIssuesTable.$inferInsert)[] = [];
+  for (const flight of flights) {
+    const update: (typeof updates)[number] = { id: flight.id };
+    for (const column of ["origin", "destination"] as const) {
+      if (codes.includes(flight[column])) continue;
+      const airport = resolveAirport(flight[column], airports);
+      if (airport) {
+        update[column] = airport.iataCode;
+      } else {
+        issues.push({
+          tableName: "flights",
+          rowId: flight.id,
+          columnName: column,
+          value: flight[column],
+          reason: "Not a known airport or city",
+        });
+      }
+    }
+    if (update.origin || update.destination) updates.push(update);
+  }
+  await updateMany(db, flightsTable, updates);
+
+  // A run that stopped part-way may have recorded some of them already
+  const recorded = new Set<string>();
+  for (const ids of chunk([...new Set(issues.map(({ rowId }) => rowId))], BULK_WRITE_BATCH_SIZE)) {
+    const rows = await db.select()
+      .from(dataMigrationIssuesTable)
+      .where(and(eq(dataMigrationIssuesTable.tableName, "flights"), inJsonList(dataMigrationIssuesTable.rowId, ids)));
+    for (const row of rows) recorded.add(`${row.rowId}|${row.columnName}|${row.value}`);
+  }
+  await insertMany(db, dataMigrationIssuesTable, issues.filter((issue) =>
+    !recorded.has(`${issue.rowId}|${issue.columnName}|${issue.value}`)
+  ));
+};
+
+const DATA_FIXES: Record<string, (db: any) => Promise<void>> = {
+  "0011_backfill_bookings": backfillBookings,
+  "0013_resolve_flight_airports": resolveFlightAirports,
+};
+
+export const runDataFixes = async (db: any) => {
+  const applied = new Set((await db.select({ name: dataFixesTable.name }).from(dataFixesTable))
+    .map(({ name }: { name: string }) => name));
+
+  for (const [name, fix] of Object.entries(DATA_FIXES)) {
+    if (applied.has(name)) continue;
+    await fix(db);
+    await db.insert(dataFixesTable).values({ name }).onConflictDoNothing();
+  }
+};
@@ -4,9 +4,11 @@ import {
 } from "@deco/workers-runtime/drizzle";
 import type { Env } from "./main";
 import migrations from "./drizzle/migrations";
+import { runDataFixes } from "./data-fixes";
 
 export const getDb = async (env: Env) => {
   const db = drizzle(env);
   await migrateWithoutTransaction(db, migrations);
+  await runDataFixes(db);
   return db;
 };
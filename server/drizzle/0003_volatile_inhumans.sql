@@ -0,0 +1,21 @@
+CREATE TABLE `flights` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`flight_number` text NOT NULL,
+	`origin` text NOT NULL,
+	`destination` text NOT NULL,
+	`scheduled_departure` text NOT NULL,
+	`scheduled_arrival` text,
+	`aircraft` text,
+	`distance` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP'
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `flights_number_departure_idx` ON `flights` (`flight_number`,`scheduled_departure`);--> statement-breakpoint
+ALTER TABLE `passengers` ADD `flight_id` integer REFERENCES flights(id);--> statement-breakpoint
+INSERT INTO `flights`("flight_number", "origin", "destination", "scheduled_departure", "distance") SELECT COALESCE("flight_number", 'UNASSIGNED'), MIN(COALESCE("departure_city", '')), MIN(COALESCE("arrival_city", '')), COALESCE("departure_date", ''), MAX("distance") FROM `passengers` GROUP BY COALESCE("flight_number", 'UNASSIGNED'), COALESCE("departure_date", '');--> statement-breakpoint
+UPDATE `passengers` SET "flight_id" = (SELECT `flights`."id" FROM `flights` WHERE `flights`."flight_number" = COALESCE(`passengers`."flight_number", 'UNASSIGNED') AND `flights`."scheduled_departure" = COALESCE(`passengers`."departure_date", ''));--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `flight_number`;--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `departure_city`;--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `arrival_city`;--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `departure_date`;--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `distance`;
\ No newline at end of file
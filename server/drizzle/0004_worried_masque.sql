@@ -0,0 +1,22 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_passengers` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`first_name` text,
+	`last_name` text,
+	`email` text,
+	`phone` text,
+	`nationality` text,
+	`date_of_birth` text,
+	`flight_id` integer,
+	`ticket_class` text DEFAULT 'economy' NOT NULL,
+	`price` text,
+	`status` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action,
+	CONSTRAINT "passengers_ticket_class_check" CHECK(ticket_class IN ('economy', 'premium', 'business', 'first'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_passengers`("id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", "ticket_class", "price", "status", "created_at") SELECT "id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", 'economy', "price", "status", "created_at" FROM `passengers`;--> statement-breakpoint
+DROP TABLE `passengers`;--> statement-breakpoint
+ALTER TABLE `__new_passengers` RENAME TO `passengers`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
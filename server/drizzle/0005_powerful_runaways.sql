@@ -0,0 +1,7 @@
+UPDATE `passengers` SET "email" = lower(trim("email")) WHERE "email" IS NOT NULL;--> statement-breakpoint
+-- Later bookings of the same email on the same flight cannot stay under the
+-- unique index; they are set aside here (and moved to data_migration_issues
+-- by 0023) before being removed
+CREATE TABLE `passengers_removed_duplicates` AS SELECT p.*, k.`keep_id` FROM `passengers` p JOIN (SELECT "email", "flight_id", min("id") AS `keep_id` FROM `passengers` WHERE "email" IS NOT NULL AND "flight_id" IS NOT NULL GROUP BY "email", "flight_id") k ON k."email" = p."email" AND k."flight_id" = p."flight_id" AND k.`keep_id` <> p.`id`;--> statement-breakpoint
+DELETE FROM `passengers` WHERE "email" IS NOT NULL AND "flight_id" IS NOT NULL AND "id" NOT IN (SELECT min("id") FROM `passengers` WHERE "email" IS NOT NULL AND "flight_id" IS NOT NULL GROUP BY "email", "flight_id");--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_email_flight_idx` ON `passengers` (`email`,`flight_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `passengers` ADD `seat` text;
\ No newline at end of file
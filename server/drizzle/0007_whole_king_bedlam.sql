@@ -0,0 +1,48 @@
+CREATE TABLE `booking_status_history` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`passenger_id` integer NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`changed_by` text NOT NULL,
+	`reason` text,
+	`changed_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`passenger_id`) REFERENCES `passengers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_passengers` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`first_name` text,
+	`last_name` text,
+	`email` text,
+	`phone` text,
+	`nationality` text,
+	`date_of_birth` text,
+	`flight_id` integer,
+	`ticket_class` text DEFAULT 'economy' NOT NULL,
+	`price` text,
+	`status` text DEFAULT 'confirmed' NOT NULL,
+	`seat` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP',
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action,
+	CONSTRAINT "passengers_ticket_class_check" CHECK(ticket_class IN ('economy', 'premium', 'business', 'first')),
+	CONSTRAINT "passengers_status_check" CHECK(status IN ('pending', 'confirmed', 'checked-in', 'boarded', 'flown', 'cancelled', 'no-show', 'refunded'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_passengers`("id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", "ticket_class", "price", "status", "seat", "created_at") SELECT "id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", "ticket_class", "price", CASE replace(replace(lower(trim(coalesce("status", ''))), '_', '-'), ' ', '-')
+	WHEN 'pending' THEN 'pending'
+	WHEN 'checked-in' THEN 'checked-in'
+	WHEN 'checkedin' THEN 'checked-in'
+	WHEN 'boarded' THEN 'boarded'
+	WHEN 'flown' THEN 'flown'
+	WHEN 'cancelled' THEN 'cancelled'
+	WHEN 'canceled' THEN 'cancelled'
+	WHEN 'no-show' THEN 'no-show'
+	WHEN 'noshow' THEN 'no-show'
+	WHEN 'refunded' THEN 'refunded'
+	ELSE 'confirmed'
+END, "seat", "created_at" FROM `passengers`;--> statement-breakpoint
+DROP TABLE `passengers`;--> statement-breakpoint
+ALTER TABLE `__new_passengers` RENAME TO `passengers`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_email_flight_idx` ON `passengers` (`email`,`flight_id`);
\ No newline at end of file
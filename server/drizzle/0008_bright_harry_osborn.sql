@@ -0,0 +1,9 @@
+UPDATE `passengers` SET `seat` = NULLIF(upper(trim(`seat`)), '');--> statement-breakpoint
+UPDATE `passengers` SET `seat` = NULL
+WHERE `seat` IS NOT NULL
+	AND `id` NOT IN (
+		SELECT min(`id`) FROM `passengers`
+		WHERE `seat` IS NOT NULL
+		GROUP BY `flight_id`, `seat`
+	);--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_flight_seat_idx` ON `passengers` (`flight_id`,`seat`);
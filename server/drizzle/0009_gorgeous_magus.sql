@@ -0,0 +1,26 @@
+CREATE TABLE `flight_cabin_capacity` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`flight_id` integer NOT NULL,
+	`cabin` text NOT NULL,
+	`capacity` integer NOT NULL,
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `flight_cabin_capacity_flight_cabin_idx` ON `flight_cabin_capacity` (`flight_id`,`cabin`);--> statement-breakpoint
+CREATE TABLE `waitlist` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`flight_id` integer NOT NULL,
+	`cabin` text NOT NULL,
+	`first_name` text NOT NULL,
+	`last_name` text NOT NULL,
+	`email` text NOT NULL,
+	`phone` text,
+	`nationality` text,
+	`date_of_birth` text,
+	`price` text,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `flights` ADD `overbooking_percent` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `waitlist_history` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`waitlist_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`changed_by` text NOT NULL,
+	`reason` text,
+	`changed_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`waitlist_id`) REFERENCES `waitlist`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `waitlist` ADD `priority` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `waitlist` ADD `passenger_id` integer REFERENCES passengers(id);--> statement-breakpoint
+ALTER TABLE `waitlist` ADD `resolved_at` text;--> statement-breakpoint
+CREATE INDEX `waitlist_flight_cabin_idx` ON `waitlist` (`flight_id`,`cabin`,`status`);
\ No newline at end of file
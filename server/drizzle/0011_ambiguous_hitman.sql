@@ -0,0 +1,9 @@
+CREATE TABLE `bookings` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`record_locator` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `bookings_record_locator_idx` ON `bookings` (`record_locator`);--> statement-breakpoint
+ALTER TABLE `passengers` ADD `booking_id` integer REFERENCES bookings(id);--> statement-breakpoint
+CREATE INDEX `passengers_booking_idx` ON `passengers` (`booking_id`);
\ No newline at end of file
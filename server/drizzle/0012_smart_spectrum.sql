@@ -0,0 +1,11 @@
+CREATE TABLE `itinerary_segments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`booking_id` integer NOT NULL,
+	`flight_id` integer NOT NULL,
+	`sequence` integer NOT NULL,
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `itinerary_segments_booking_sequence_idx` ON `itinerary_segments` (`booking_id`,`sequence`);--> statement-breakpoint
+CREATE UNIQUE INDEX `itinerary_segments_booking_flight_idx` ON `itinerary_segments` (`booking_id`,`flight_id`);
\ No newline at end of file
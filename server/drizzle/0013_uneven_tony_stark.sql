@@ -0,0 +1,72 @@
+CREATE TABLE `airports` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`iata_code` text NOT NULL,
+	`icao_code` text NOT NULL,
+	`name` text NOT NULL,
+	`city` text NOT NULL,
+	`country` text NOT NULL,
+	`timezone` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `airports_iata_code_idx` ON `airports` (`iata_code`);--> statement-breakpoint
+CREATE UNIQUE INDEX `airports_icao_code_idx` ON `airports` (`icao_code`);--> statement-breakpoint
+-- Seed the airports bundled in server/airports.ts
+INSERT INTO `airports` (`iata_code`, `icao_code`, `name`, `city`, `country`, `timezone`, `latitude`, `longitude`) VALUES
+	('AJU', 'SBAR', 'Santa Maria Airport', 'Aracaju', 'BR', 'America/Maceio', -10.984, -37.0703),
+	('BEL', 'SBBE', 'Val de Cans International Airport', 'Belém', 'BR', 'America/Belem', -1.3792, -48.4763),
+	('CNF', 'SBCF', 'Tancredo Neves International Airport', 'Belo Horizonte', 'BR', 'America/Sao_Paulo', -19.6244, -43.9719),
+	('PLU', 'SBBH', 'Pampulha Airport', 'Belo Horizonte', 'BR', 'America/Sao_Paulo', -19.8512, -43.9506),
+	('BVB', 'SBBV', 'Atlas Brasil Cantanhede International Airport', 'Boa Vista', 'BR', 'America/Boa_Vista', 2.8414, -60.6922),
+	('BSB', 'SBBR', 'Brasília International Airport', 'Brasília', 'BR', 'America/Sao_Paulo', -15.8711, -47.9186),
+	('CGR', 'SBCG', 'Campo Grande International Airport', 'Campo Grande', 'BR', 'America/Campo_Grande', -20.4687, -54.6725),
+	('CGB', 'SBCY', 'Marechal Rondon International Airport', 'Cuiabá', 'BR', 'America/Cuiaba', -15.6529, -56.1167),
+	('CWB', 'SBCT', 'Afonso Pena International Airport', 'Curitiba', 'BR', 'America/Sao_Paulo', -25.5285, -49.1758),
+	('FLN', 'SBFL', 'Hercílio Luz International Airport', 'Florianópolis', 'BR', 'America/Sao_Paulo', -27.6703, -48.5525),
+	('FOR', 'SBFZ', 'Pinto Martins International Airport', 'Fortaleza', 'BR', 'America/Fortaleza', -3.7763, -38.5326),
+	('GYN', 'SBGO', 'Santa Genoveva Airport', 'Goiânia', 'BR', 'America/Sao_Paulo', -16.632, -49.2207),
+	('JPA', 'SBJP', 'Presidente Castro Pinto International Airport', 'João Pessoa', 'BR', 'America/Fortaleza', -7.1484, -34.9504),
+	('MCP', 'SBMQ', 'Alberto Alcolumbre International Airport', 'Macapá', 'BR', 'America/Belem', 0.0507, -51.0722),
+	('MCZ', 'SBMO', 'Zumbi dos Palmares International Airport', 'Maceió', 'BR', 'America/Maceio', -9.5108, -35.7917),
+	('MAO', 'SBEG', 'Eduardo Gomes International Airport', 'Manaus', 'BR', 'America/Manaus', -3.0386, -60.0497),
+	('NAT', 'SBSG', 'São Gonçalo do Amarante International Airport', 'Natal', 'BR', 'America/Fortaleza', -5.7681, -35.3761),
+	('PMW', 'SBPJ', 'Brigadeiro Lysias Rodrigues Airport', 'Palmas', 'BR', 'America/Araguaina', -10.2915, -48.357),
+	('POA', 'SBPA', 'Salgado Filho International Airport', 'Porto Alegre', 'BR', 'America/Sao_Paulo', -29.9944, -51.1714),
+	('PVH', 'SBPV', 'Governador Jorge Teixeira de Oliveira International Airport', 'Porto Velho', 'BR', 'America/Porto_Velho', -8.7093, -63.9023),
+	('REC', 'SBRF', 'Guararapes International Airport', 'Recife', 'BR', 'America/Recife', -8.1265, -34.9236),
+	('RBR', 'SBRB', 'Plácido de Castro International Airport', 'Rio Branco', 'BR', 'America/Rio_Branco', -9.8689, -67.8981),
+	('GIG', 'SBGL', 'Galeão International Airport', 'Rio de Janeiro', 'BR', 'America/Sao_Paulo', -22.81, -43.2506),
+	('SDU', 'SBRJ', 'Santos Dumont Airport', 'Rio de Janeiro', 'BR', 'America/Sao_Paulo', -22.9105, -43.1631),
+	('SSA', 'SBSV', 'Deputado Luís Eduardo Magalhães International Airport', 'Salvador', 'BR', 'America/Bahia', -12.9086, -38.3225),
+	('SLZ', 'SBSL', 'Marechal Cunha Machado International Airport', 'São Luís', 'BR', 'America/Fortaleza', -2.5854, -44.2341),
+	('GRU', 'SBGR', 'Guarulhos International Airport', 'São Paulo', 'BR', 'America/Sao_Paulo', -23.4356, -46.4731),
+	('CGH', 'SBSP', 'Congonhas Airport', 'São Paulo', 'BR', 'America/Sao_Paulo', -23.6261, -46.6564),
+	('THE', 'SBTE', 'Senador Petrônio Portella Airport', 'Teresina', 'BR', 'America/Fortaleza', -5.0599, -42.8235),
+	('VIX', 'SBVT', 'Eurico de Aguiar Salles Airport', 'Vitória', 'BR', 'America/Sao_Paulo', -20.2581, -40.2864),
+	('EZE', 'SAEZ', 'Ministro Pistarini International Airport', 'Buenos Aires', 'AR', 'America/Argentina/Buenos_Aires', -34.8222, -58.5358),
+	('SCL', 'SCEL', 'Arturo Merino Benítez International Airport', 'Santiago', 'CL', 'America/Santiago', -33.393, -70.7858),
+	('LIM', 'SPJC', 'Jorge Chávez International Airport', 'Lima', 'PE', 'America/Lima', -12.0219, -77.1143),
+	('MIA', 'KMIA', 'Miami International Airport', 'Miami', 'US', 'America/New_York', 25.7959, -80.2871),
+	('LAX', 'KLAX', 'Los Angeles International Airport', 'Los Angeles', 'US', 'America/Los_Angeles', 33.9416, -118.4085),
+	('LIS', 'LPPT', 'Humberto Delgado Airport', 'Lisbon', 'PT', 'Europe/Lisbon', 38.7742, -9.1342);--> statement-breakpoint
+-- Flights stored the city name; switch to its main airport
+UPDATE `flights` SET `origin` = (
+	SELECT `iata_code` FROM `airports`
+	WHERE lower(`airports`.`city`) = lower(`flights`.`origin`) OR `airports`.`iata_code` = upper(`flights`.`origin`)
+	ORDER BY `id` LIMIT 1
+)
+WHERE EXISTS (
+	SELECT 1 FROM `airports`
+	WHERE lower(`airports`.`city`) = lower(`flights`.`origin`) OR `airports`.`iata_code` = upper(`flights`.`origin`)
+);--> statement-breakpoint
+-- Flights stored the city name; switch to its main airport
+UPDATE `flights` SET `destination` = (
+	SELECT `iata_code` FROM `airports`
+	WHERE lower(`airports`.`city`) = lower(`flights`.`destination`) OR `airports`.`iata_code` = upper(`flights`.`destination`)
+	ORDER BY `id` LIMIT 1
+)
+WHERE EXISTS (
+	SELECT 1 FROM `airports`
+	WHERE lower(`airports`.`city`) = lower(`flights`.`destination`) OR `airports`.`iata_code` = upper(`flights`.`destination`)
+);
\ No newline at end of file
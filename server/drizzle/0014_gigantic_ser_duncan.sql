@@ -0,0 +1,35 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_passengers` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`first_name` text,
+	`last_name` text,
+	`email` text,
+	`phone` text,
+	`nationality` text,
+	`date_of_birth` text,
+	`flight_id` integer,
+	`ticket_class` text DEFAULT 'economy' NOT NULL,
+	`price` text,
+	`status` text DEFAULT 'confirmed' NOT NULL,
+	`seat` text,
+	`booking_id` integer,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP),
+	FOREIGN KEY (`flight_id`) REFERENCES `flights`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE no action,
+	CONSTRAINT "passengers_ticket_class_check" CHECK(ticket_class IN ('economy', 'premium', 'business', 'first')),
+	CONSTRAINT "passengers_status_check" CHECK(status IN ('pending', 'confirmed', 'checked-in', 'boarded', 'flown', 'cancelled', 'no-show', 'refunded'))
+);
+--> statement-breakpoint
+INSERT INTO `__new_passengers`("id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", "ticket_class", "price", "status", "seat", "booking_id", "created_at") SELECT "id", "first_name", "last_name", "email", "phone", "nationality", "date_of_birth", "flight_id", "ticket_class", "price", "status", "seat", "booking_id", CASE
+	-- The old default stored the literal text; the first status change is the closest record of the booking time
+	WHEN "created_at" = 'CURRENT_TIMESTAMP' THEN (
+		SELECT min("changed_at") FROM `booking_status_history` WHERE `booking_status_history`.`passenger_id` = `passengers`.`id`
+	)
+	ELSE "created_at"
+END FROM `passengers`;--> statement-breakpoint
+DROP TABLE `passengers`;--> statement-breakpoint
+ALTER TABLE `__new_passengers` RENAME TO `passengers`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `passengers_booking_idx` ON `passengers` (`booking_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_email_flight_idx` ON `passengers` (`email`,`flight_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_flight_seat_idx` ON `passengers` (`flight_id`,`seat`);
\ No newline at end of file
@@ -0,0 +1,140 @@
+CREATE TABLE `data_migration_issues` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`table_name` text NOT NULL,
+	`row_id` integer NOT NULL,
+	`column_name` text NOT NULL,
+	`value` text NOT NULL,
+	`reason` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `flights` ADD `distance_km` integer;--> statement-breakpoint
+ALTER TABLE `passengers` ADD `price_cents` integer;--> statement-breakpoint
+ALTER TABLE `passengers` ADD `currency` text DEFAULT 'BRL' NOT NULL;--> statement-breakpoint
+ALTER TABLE `waitlist` ADD `price_cents` integer;--> statement-breakpoint
+ALTER TABLE `waitlist` ADD `currency` text DEFAULT 'BRL' NOT NULL;--> statement-breakpoint
+-- Prices and distances: free text ("1234.5", "1.234,50", "R$ 1.234,50", "1.234 km") to
+-- numbers. When both "." and "," appear, the later one is the decimal mark; a lone "," is
+-- a decimal comma; "." or "," between groups of three digits ("1.200", "1,200,000")
+-- separates thousands. Each value is read into amount_backfill first, step by step.
+CREATE TABLE `amount_backfill` (
+	`table_name` text NOT NULL,
+	`row_id` integer NOT NULL,
+	`column_name` text NOT NULL,
+	`value` text NOT NULL,
+	`amount` text NOT NULL,
+	`decimal_mark` text,
+	`whole` text,
+	`fraction` text,
+	`number` real
+);
+--> statement-breakpoint
+INSERT INTO `amount_backfill` (`table_name`, `row_id`, `column_name`, `value`, `amount`)
+SELECT 'passengers', `id`, 'price', `price`, replace(replace(lower(trim(`price`)), 'r$', ''), ' ', '')
+FROM `passengers` WHERE trim(`price`) <> ''
+UNION ALL
+SELECT 'waitlist', `id`, 'price', `price`, replace(replace(lower(trim(`price`)), 'r$', ''), ' ', '')
+FROM `waitlist` WHERE trim(`price`) <> ''
+UNION ALL
+SELECT 'flights', `id`, 'distance', `distance`, replace(replace(replace(lower(trim(`distance`)), 'r$', ''), 'km', ''), ' ', '')
+FROM `flights` WHERE trim(`distance`) <> '';
+--> statement-breakpoint
+UPDATE `amount_backfill` SET `decimal_mark` = CASE
+	WHEN instr(`amount`, ',') > 0 AND instr(`amount`, '.') > 0 THEN CASE WHEN instr(`amount`, ',') > instr(`amount`, '.') THEN ',' ELSE '.' END
+	WHEN instr(`amount`, ',') > 0 THEN CASE WHEN `amount` GLOB '*,*,*' THEN NULL ELSE ',' END
+	WHEN instr(`amount`, '.') > 0 THEN CASE WHEN replace(printf('%,d', replace(`amount`, '.', '')), ',', '.') = `amount` THEN NULL ELSE '.' END
+END;
+--> statement-breakpoint
+UPDATE `amount_backfill` SET
+	`whole` = CASE WHEN `decimal_mark` IS NULL THEN `amount` ELSE substr(`amount`, 1, instr(`amount`, `decimal_mark`) - 1) END,
+	`fraction` = CASE WHEN `decimal_mark` IS NULL THEN NULL ELSE substr(`amount`, instr(`amount`, `decimal_mark`) + 1) END;
+--> statement-breakpoint
+-- The whole part is plain digits, or digits grouped in threes by the mark that is not the decimal one
+UPDATE `amount_backfill` SET `number` = CAST(replace(replace(`whole`, ',', ''), '.', '') || coalesce('.' || `fraction`, '') AS REAL)
+WHERE `amount` GLOB '*[0-9]*' AND `amount` NOT GLOB '*[^0-9.,]*'
+	AND (`fraction` IS NULL OR (`fraction` <> '' AND `fraction` NOT GLOB '*[^0-9]*'))
+	AND (`whole` NOT GLOB '*[.,]*' OR `whole` = replace(
+		printf('%,d', replace(replace(`whole`, ',', ''), '.', '')),
+		',',
+		CASE WHEN `whole` GLOB '*.*' THEN '.' ELSE ',' END
+	));
+--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT `table_name`, `row_id`, `column_name`, `value`,
+	CASE `column_name` WHEN 'price' THEN 'Not a decimal amount' ELSE 'Not a distance in kilometers' END
+FROM `amount_backfill`
+WHERE `number` IS NULL;
+--> statement-breakpoint
+UPDATE `passengers` SET `price_cents` = (
+	SELECT CAST(round(`number` * 100) AS INTEGER) FROM `amount_backfill`
+	WHERE `amount_backfill`.`table_name` = 'passengers' AND `amount_backfill`.`row_id` = `passengers`.`id`
+);
+--> statement-breakpoint
+UPDATE `waitlist` SET `price_cents` = (
+	SELECT CAST(round(`number` * 100) AS INTEGER) FROM `amount_backfill`
+	WHERE `amount_backfill`.`table_name` = 'waitlist' AND `amount_backfill`.`row_id` = `waitlist`.`id`
+);
+--> statement-breakpoint
+UPDATE `flights` SET `distance_km` = (
+	SELECT CAST(round(`number`) AS INTEGER) FROM `amount_backfill`
+	WHERE `amount_backfill`.`table_name` = 'flights' AND `amount_backfill`.`row_id` = `flights`.`id`
+);
+--> statement-breakpoint
+DROP TABLE `amount_backfill`;
+--> statement-breakpoint
+-- passengers.date_of_birth: DD/MM/YYYY to YYYY-MM-DD; anything else that is not a real ISO date is reported and cleared.
+-- date(x, '+0 days') rolls impossible days over (1990-02-31 -> 1990-03-03), so it only equals x for real dates.
+UPDATE `passengers` SET `date_of_birth` = substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2)
+WHERE trim(`date_of_birth`) GLOB '[0-9][0-9]/[0-9][0-9]/[0-9][0-9][0-9][0-9]'
+  AND date(substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2), '+0 days') = substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2);
+--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT 'passengers', `id`, 'date_of_birth', `date_of_birth`, 'Not a YYYY-MM-DD date'
+FROM `passengers`
+WHERE `date_of_birth` IS NOT NULL AND trim(`date_of_birth`) <> '' AND date(`date_of_birth`, '+0 days') IS NOT `date_of_birth`;
+--> statement-breakpoint
+UPDATE `passengers` SET `date_of_birth` = NULL
+WHERE `date_of_birth` IS NOT NULL AND date(`date_of_birth`, '+0 days') IS NOT `date_of_birth`;
+--> statement-breakpoint
+-- waitlist.date_of_birth: DD/MM/YYYY to YYYY-MM-DD; anything else that is not a real ISO date is reported and cleared
+UPDATE `waitlist` SET `date_of_birth` = substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2)
+WHERE trim(`date_of_birth`) GLOB '[0-9][0-9]/[0-9][0-9]/[0-9][0-9][0-9][0-9]'
+  AND date(substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2), '+0 days') = substr(trim(`date_of_birth`), 7, 4) || '-' || substr(trim(`date_of_birth`), 4, 2) || '-' || substr(trim(`date_of_birth`), 1, 2);
+--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT 'waitlist', `id`, 'date_of_birth', `date_of_birth`, 'Not a YYYY-MM-DD date'
+FROM `waitlist`
+WHERE `date_of_birth` IS NOT NULL AND trim(`date_of_birth`) <> '' AND date(`date_of_birth`, '+0 days') IS NOT `date_of_birth`;
+--> statement-breakpoint
+UPDATE `waitlist` SET `date_of_birth` = NULL
+WHERE `date_of_birth` IS NOT NULL AND date(`date_of_birth`, '+0 days') IS NOT `date_of_birth`;
+--> statement-breakpoint
+-- flights.scheduled_departure: YYYY-MM-DD, optionally with a THH:MM time
+UPDATE `flights` SET `scheduled_departure` = replace(trim(`scheduled_departure`), ' ', 'T')
+WHERE trim(`scheduled_departure`) GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9] [0-9][0-9]:[0-9][0-9]*';
+--> statement-breakpoint
+UPDATE `flights` SET `scheduled_departure` = substr(trim(`scheduled_departure`), 7, 4) || '-' || substr(trim(`scheduled_departure`), 4, 2) || '-' || substr(trim(`scheduled_departure`), 1, 2) || replace(substr(trim(`scheduled_departure`), 11), ' ', 'T')
+WHERE trim(`scheduled_departure`) GLOB '[0-9][0-9]/[0-9][0-9]/[0-9][0-9][0-9][0-9]*'
+  AND date(substr(trim(`scheduled_departure`), 7, 4) || '-' || substr(trim(`scheduled_departure`), 4, 2) || '-' || substr(trim(`scheduled_departure`), 1, 2), '+0 days') = substr(trim(`scheduled_departure`), 7, 4) || '-' || substr(trim(`scheduled_departure`), 4, 2) || '-' || substr(trim(`scheduled_departure`), 1, 2);
+--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT 'flights', `id`, 'scheduled_departure', `scheduled_departure`, 'Not a YYYY-MM-DD or YYYY-MM-DDTHH:MM schedule (left unchanged)'
+FROM `flights`
+WHERE `scheduled_departure` IS NOT NULL
+  AND (date(substr(`scheduled_departure`, 1, 10), '+0 days') IS NOT substr(`scheduled_departure`, 1, 10)
+    OR (length(`scheduled_departure`) > 10 AND `scheduled_departure` NOT GLOB '????-??-??T[0-2][0-9]:[0-5][0-9]*'));
+--> statement-breakpoint
+-- flights.scheduled_arrival: YYYY-MM-DD, optionally with a THH:MM time
+UPDATE `flights` SET `scheduled_arrival` = replace(trim(`scheduled_arrival`), ' ', 'T')
+WHERE trim(`scheduled_arrival`) GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9] [0-9][0-9]:[0-9][0-9]*';
+--> statement-breakpoint
+UPDATE `flights` SET `scheduled_arrival` = substr(trim(`scheduled_arrival`), 7, 4) || '-' || substr(trim(`scheduled_arrival`), 4, 2) || '-' || substr(trim(`scheduled_arrival`), 1, 2) || replace(substr(trim(`scheduled_arrival`), 11), ' ', 'T')
+WHERE trim(`scheduled_arrival`) GLOB '[0-9][0-9]/[0-9][0-9]/[0-9][0-9][0-9][0-9]*'
+  AND date(substr(trim(`scheduled_arrival`), 7, 4) || '-' || substr(trim(`scheduled_arrival`), 4, 2) || '-' || substr(trim(`scheduled_arrival`), 1, 2), '+0 days') = substr(trim(`scheduled_arrival`), 7, 4) || '-' || substr(trim(`scheduled_arrival`), 4, 2) || '-' || substr(trim(`scheduled_arrival`), 1, 2);
+--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT 'flights', `id`, 'scheduled_arrival', `scheduled_arrival`, 'Not a YYYY-MM-DD or YYYY-MM-DDTHH:MM schedule (left unchanged)'
+FROM `flights`
+WHERE `scheduled_arrival` IS NOT NULL
+  AND (date(substr(`scheduled_arrival`, 1, 10), '+0 days') IS NOT substr(`scheduled_arrival`, 1, 10)
+    OR (length(`scheduled_arrival`) > 10 AND `scheduled_arrival` NOT GLOB '????-??-??T[0-2][0-9]:[0-5][0-9]*'));
@@ -0,0 +1,3 @@
+ALTER TABLE `flights` DROP COLUMN `distance`;--> statement-breakpoint
+ALTER TABLE `passengers` DROP COLUMN `price`;--> statement-breakpoint
+ALTER TABLE `waitlist` DROP COLUMN `price`;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `exchange_rates` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`currency` text NOT NULL,
+	`effective_date` text NOT NULL,
+	`rate` real NOT NULL,
+	`updated_by` text NOT NULL,
+	`updated_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	CONSTRAINT "exchange_rates_rate_check" CHECK(rate > 0)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `exchange_rates_currency_date_idx` ON `exchange_rates` (`currency`,`effective_date`);
\ No newline at end of file
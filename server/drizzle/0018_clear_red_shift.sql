@@ -0,0 +1,41 @@
+CREATE TABLE `fare_adjustments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`threshold` integer NOT NULL,
+	`percent` integer NOT NULL,
+	CONSTRAINT "fare_adjustments_threshold_check" CHECK(threshold >= 0),
+	CONSTRAINT "fare_adjustments_percent_check" CHECK(percent > -100)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `fare_adjustments_kind_threshold_idx` ON `fare_adjustments` (`kind`,`threshold`);--> statement-breakpoint
+CREATE TABLE `fare_rules` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`cabin` text NOT NULL,
+	`currency` text DEFAULT 'BRL' NOT NULL,
+	`base_fare_cents` integer NOT NULL,
+	`cents_per_km` real NOT NULL,
+	`minimum_fare_cents` integer DEFAULT 0 NOT NULL,
+	`updated_by` text NOT NULL,
+	`updated_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	CONSTRAINT "fare_rules_amounts_check" CHECK(base_fare_cents >= 0 AND cents_per_km >= 0 AND minimum_fare_cents >= 0)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `fare_rules_cabin_idx` ON `fare_rules` (`cabin`);--> statement-breakpoint
+-- Default fare rules (BRL); adjust with SET_FARE_RULE
+INSERT INTO `fare_rules` (`cabin`, `currency`, `base_fare_cents`, `cents_per_km`, `minimum_fare_cents`, `updated_by`) VALUES
+	('economy', 'BRL', 15000, 45, 19900, 'migration'),
+	('premium', 'BRL', 25000, 70, 34900, 'migration'),
+	('business', 'BRL', 50000, 140, 79900, 'migration'),
+	('first', 'BRL', 90000, 250, 149900, 'migration');
+--> statement-breakpoint
+-- Last-minute bookings and full cabins cost more, early bookings less
+INSERT INTO `fare_adjustments` (`kind`, `threshold`, `percent`) VALUES
+	('advance_purchase', 0, 50),
+	('advance_purchase', 4, 30),
+	('advance_purchase', 8, 10),
+	('advance_purchase', 22, 0),
+	('advance_purchase', 60, -15),
+	('load_factor', 0, 0),
+	('load_factor', 50, 10),
+	('load_factor', 75, 25),
+	('load_factor', 90, 50);
@@ -0,0 +1,30 @@
+CREATE TABLE `payments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`passenger_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`amount_cents` integer NOT NULL,
+	`currency` text DEFAULT 'BRL' NOT NULL,
+	`description` text,
+	`created_by` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`passenger_id`) REFERENCES `passengers`(`id`) ON UPDATE no action ON DELETE no action,
+	CONSTRAINT "payments_kind_check" CHECK(kind IN ('charge', 'refund', 'fee')),
+	CONSTRAINT "payments_amount_check" CHECK(amount_cents > 0)
+);
+--> statement-breakpoint
+CREATE INDEX `payments_passenger_idx` ON `payments` (`passenger_id`);--> statement-breakpoint
+ALTER TABLE `fare_rules` ADD `cancellation_fee_percent` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `fare_rules` ADD `cancellation_fee_minimum_cents` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `fare_rules` ADD `non_refundable_days` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Default cancellation penalties; adjust with SET_FARE_RULE
+UPDATE `fare_rules` SET `cancellation_fee_percent` = 30, `cancellation_fee_minimum_cents` = 10000, `non_refundable_days` = 1 WHERE `cabin` = 'economy';
+--> statement-breakpoint
+UPDATE `fare_rules` SET `cancellation_fee_percent` = 20, `cancellation_fee_minimum_cents` = 7500 WHERE `cabin` = 'premium';
+--> statement-breakpoint
+UPDATE `fare_rules` SET `cancellation_fee_percent` = 10 WHERE `cabin` = 'business';
+--> statement-breakpoint
+-- Fares of existing bookings were paid when booked; cancelled and refunded ones are left out
+INSERT INTO `payments` (`passenger_id`, `kind`, `amount_cents`, `currency`, `description`, `created_by`, `created_at`)
+SELECT `id`, 'charge', `price_cents`, `currency`, 'Fare (recorded from the booking price)', 'migration', coalesce(`created_at`, CURRENT_TIMESTAMP)
+FROM `passengers`
+WHERE `price_cents` > 0 AND `status` NOT IN ('cancelled', 'refunded');
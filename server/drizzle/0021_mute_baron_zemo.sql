@@ -0,0 +1,25 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_flights` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`flight_number` text NOT NULL,
+	`origin` text NOT NULL,
+	`destination` text NOT NULL,
+	`scheduled_departure` text NOT NULL,
+	`scheduled_arrival` text,
+	`aircraft` text,
+	`distance_km` integer,
+	`overbooking_percent` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP)
+);
+--> statement-breakpoint
+INSERT INTO `__new_flights`("id", "flight_number", "origin", "destination", "scheduled_departure", "scheduled_arrival", "aircraft", "distance_km", "overbooking_percent", "created_at") SELECT "id", "flight_number", "origin", "destination", "scheduled_departure", "scheduled_arrival", "aircraft", "distance_km", "overbooking_percent", CASE
+	-- The old default stored the literal text; the first booking on the flight is the closest record of when it was added
+	WHEN "created_at" = 'CURRENT_TIMESTAMP' THEN (
+		SELECT min("created_at") FROM `passengers` WHERE `passengers`.`flight_id` = `flights`.`id`
+	)
+	ELSE "created_at"
+END FROM `flights`;--> statement-breakpoint
+DROP TABLE `flights`;--> statement-breakpoint
+ALTER TABLE `__new_flights` RENAME TO `flights`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `flights_number_departure_idx` ON `flights` (`flight_number`,`scheduled_departure`);
\ No newline at end of file
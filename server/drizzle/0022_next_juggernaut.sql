@@ -0,0 +1,2 @@
+DROP INDEX `passengers_email_flight_idx`;--> statement-breakpoint
+CREATE UNIQUE INDEX `passengers_email_flight_idx` ON `passengers` (`email`,`flight_id`) WHERE "passengers"."status" not in ('cancelled', 'no-show', 'refunded');
\ No newline at end of file
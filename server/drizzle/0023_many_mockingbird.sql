@@ -0,0 +1,10 @@
+-- Duplicate bookings 0005 removed to add passengers_email_flight_idx, kept
+-- whole in data_migration_issues. Databases that ran 0005 before it set them
+-- aside have none left to record.
+CREATE TABLE IF NOT EXISTS `passengers_removed_duplicates` (`id` integer, `first_name` text, `last_name` text, `email` text, `phone` text, `nationality` text, `date_of_birth` text, `flight_id` integer, `ticket_class` text, `price` text, `status` text, `created_at` text, `keep_id` integer);--> statement-breakpoint
+INSERT INTO `data_migration_issues` (`table_name`, `row_id`, `column_name`, `value`, `reason`)
+SELECT 'passengers', `id`, 'email',
+  json_object('id', `id`, 'first_name', `first_name`, 'last_name', `last_name`, 'email', `email`, 'phone', `phone`, 'nationality', `nationality`, 'date_of_birth', `date_of_birth`, 'flight_id', `flight_id`, 'ticket_class', `ticket_class`, 'price', `price`, 'status', `status`, 'created_at', `created_at`),
+  'Duplicate of passenger ' || `keep_id` || ' (same email and flight); removed before adding passengers_email_flight_idx'
+FROM `passengers_removed_duplicates` ORDER BY `id`;--> statement-breakpoint
+DROP TABLE `passengers_removed_duplicates`;
\ No newline at end of file
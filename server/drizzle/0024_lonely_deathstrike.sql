@@ -0,0 +1,16 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_booking_status_history` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`passenger_id` integer,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`changed_by` text NOT NULL,
+	`reason` text,
+	`changed_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`passenger_id`) REFERENCES `passengers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_booking_status_history`("id", "passenger_id", "from_status", "to_status", "changed_by", "reason", "changed_at") SELECT "id", "passenger_id", "from_status", "to_status", "changed_by", "reason", "changed_at" FROM `booking_status_history`;--> statement-breakpoint
+DROP TABLE `booking_status_history`;--> statement-breakpoint
+ALTER TABLE `__new_booking_status_history` RENAME TO `booking_status_history`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TABLE `data_fixes` (
+	`name` text PRIMARY KEY NOT NULL,
+	`applied_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
@@ -0,0 +1,3 @@
+-- SET_FARE_RULE stored price per km × 100 unrounded (0.29 became 28.999999999999996
+-- cents); rates are kept to 4 decimal places of a cent from now on.
+UPDATE `fare_rules` SET `cents_per_km` = round(`cents_per_km`, 4) WHERE `cents_per_km` <> round(`cents_per_km`, 4);
@@ -2,13 +2,59 @@ import journal from './meta/_journal.json';
 import m0000 from './0000_pretty_silver_centurion.sql';
 import m0001 from './0001_glamorous_dormammu.sql';
 import m0002 from './0002_chemical_maggott.sql';
+import m0003 from './0003_volatile_inhumans.sql';
+import m0004 from './0004_worried_masque.sql';
+import m0005 from './0005_powerful_runaways.sql';
+import m0006 from './0006_tough_thunderbolt_ross.sql';
+import m0007 from './0007_whole_king_bedlam.sql';
+import m0008 from './0008_bright_harry_osborn.sql';
+import m0009 from './0009_gorgeous_magus.sql';
+import m0010 from './0010_remarkable_mephisto.sql';
+import m0011 from './0011_ambiguous_hitman.sql';
+import m0012 from './0012_smart_spectrum.sql';
+import m0013 from './0013_uneven_tony_stark.sql';
+import m0014 from './0014_gigantic_ser_duncan.sql';
+import m0015 from './0015_elite_the_hunter.sql';
+import m0016 from './0016_shocking_salo.sql';
+import m0017 from './0017_unique_revanche.sql';
+import m0018 from './0018_clear_red_shift.sql';
+import m0019 from './0019_massive_arclight.sql';
+import m0021 from './0021_mute_baron_zemo.sql';
+import m0022 from './0022_next_juggernaut.sql';
+import m0023 from './0023_many_mockingbird.sql';
+import m0024 from './0024_lonely_deathstrike.sql';
+import m0025 from './0025_abnormal_sinister_six.sql';
+import m0026 from './0026_cultured_korath.sql';
 
   export default {
     journal,
     migrations: {
       m0000,
 m0001,
-m0002
+m0002,
+m0003,
+m0004,
+m0005,
+m0006,
+m0007,
+m0008,
+m0009,
+m0010,
+m0011,
+m0012,
+m0013,
+m0014,
+m0015,
+m0016,
+m0017,
+m0018,
+m0019,
+m0021,
+m0022,
+m0023,
+m0024,
+m0025,
+m0026
     }
   }
   
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  type CancellationRule,
+  cancellationPenalty,
+  type FareAdjustment,
+  type FareRule,
+  fromCentsPerKm,
+  quoteFare,
+  toCentsPerKm,
+} from "./fares.ts";
+
+const economyFare: FareRule = {
+  cabin: "economy",
+  currency: "BRL",
+  baseFareCents: 15000,
+  centsPerKm: toCentsPerKm(0.45),
+  minimumFareCents: 20000,
+};
+
+const tiers: FareAdjustment[] = [
+  { kind: "advance_purchase", threshold: 0, percent: 25 },
+  { kind: "advance_purchase", threshold: 30, percent: -10 },
+  { kind: "load_factor", threshold: 0, percent: 0 },
+  { kind: "load_factor", threshold: 80, percent: 20 },
+];
+
+describe("quoteFare", () => {
+  it("adds the base fare and the distance at the rule's rate", () => {
+    const quote = quoteFare(economyFare, [], { distanceKm: 1000, daysBeforeDeparture: 10, loadFactor: 0 });
+
+    expect(quote.components).toEqual([
+      { component: "base", description: "economy base fare", amountCents: 15000 },
+      { component: "distance", description: "1000 km at 0.45 BRL/km", amountCents: 45000 },
+    ]);
+    expect(quote.totalCents).toBe(60000);
+  });
+
+  it("rounds the distance component to whole cents", () => {
+    const rule = { ...economyFare, centsPerKm: toCentsPerKm(0.333) };
+
+    expect(quoteFare(rule, [], { distanceKm: 7, daysBeforeDeparture: 10, loadFactor: 0 }).components[1])
+      .toEqual({ component: "distance", description: "7 km at 0.333 BRL/km", amountCents: 233 });
+  });
+
+  it("applies each adjustment's highest tier reached to the subtotal, not to each other", () => {
+    const quote = quoteFare(economyFare, tiers, { distanceKm: 1000, daysBeforeDeparture: 45, loadFactor: 0.853 });
+
+    expect(quote.components.slice(2)).toEqual([
+      { component: "advance_purchase", description: "Booked 45 days before departure (30+ days tier): -10%", amountCents: -6000 },
+      { component: "load_factor", description: "Cabin 85% full (80%+ tier): +20%", amountCents: 12000 },
+    ]);
+    expect(quote.totalCents).toBe(66000);
+  });
+
+  it("leaves out tiers that change nothing", () => {
+    const quote = quoteFare(economyFare, tiers, { distanceKm: 1000, daysBeforeDeparture: 5, loadFactor: 0.5 });
+
+    expect(quote.components.map(({ component }) => component)).toEqual(["base", "distance", "advance_purchase"]);
+    expect(quote.totalCents).toBe(75000);
+  });
+
+  it("raises fares below the cabin minimum to it", () => {
+    const quote = quoteFare(economyFare, tiers, { distanceKm: 100, daysBeforeDeparture: 60, loadFactor: 0 });
+
+    expect(quote.components.at(-1)).toEqual({
+      component: "minimum",
+      description: "Raised to the economy minimum fare",
+      amountCents: 20000 - 17550,
+    });
+    expect(quote.totalCents).toBe(20000);
+  });
+});
+
+describe("toCentsPerKm", () => {
+  it("stores a price per km as cents without binary fractions", () => {
+    expect(toCentsPerKm(0.29)).toBe(29);
+    expect(toCentsPerKm(0.1234567)).toBe(12.3457);
+    expect(fromCentsPerKm(toCentsPerKm(0.07))).toBe(0.07);
+  });
+});
+
+const economy: CancellationRule = {
+  cabin: "economy",
+  cancellationFeePercent: 30,
+  cancellationFeeMinimumCents: 10000,
+  nonRefundableDays: 1,
+};
+
+describe("cancellationPenalty", () => {
+  it("keeps the percentage fee when it is above the minimum", () => {
+    expect(cancellationPenalty(economy, 50000, 30)).toEqual({
+      penaltyCents: 15000,
+      reason: "30% economy cancellation fee",
+    });
+  });
+
+  it("keeps the minimum fee when the percentage is below it", () => {
+    expect(cancellationPenalty(economy, 20000, 30)).toEqual({
+      penaltyCents: 10000,
+      reason: "Minimum economy cancellation fee",
+    });
+  });
+
+  it("never keeps more than was paid", () => {
+    expect(cancellationPenalty(economy, 4000, 30).penaltyCents).toBe(4000);
+  });
+
+  it("keeps everything inside the non-refundable window", () => {
+    expect(cancellationPenalty({ ...economy, nonRefundableDays: 3 }, 50000, 2)).toEqual({
+      penaltyCents: 50000,
+      reason: "economy fares are non-refundable less than 3 days before departure",
+    });
+    expect(cancellationPenalty(economy, 50000, 0).reason)
+      .toBe("economy fares are non-refundable less than 1 day before departure");
+  });
+
+  it("keeps everything after departure", () => {
+    expect(cancellationPenalty(economy, 50000, -1)).toEqual({
+      penaltyCents: 50000,
+      reason: "Cancelled after departure",
+    });
+  });
+
+  it("applies the percentage fee to bookings without a flight", () => {
+    expect(cancellationPenalty(economy, 50000, null).penaltyCents).toBe(15000);
+  });
+
+  it("refunds everything on fares without a fee", () => {
+    const first = { cabin: "first" as const, cancellationFeePercent: 0, cancellationFeeMinimumCents: 0, nonRefundableDays: 0 };
+    expect(cancellationPenalty(first, 50000, 0)).toEqual({
+      penaltyCents: 0,
+      reason: "0% first cancellation fee",
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Fare engine.
+ *
+ * A fare is built from its cabin's fare rule: a base fare plus a rate per
+ * kilometer of the route. Two adjustments then change that subtotal by a
+ * percentage, one for how far ahead the booking is made and one for how
+ * full the cabin already is. Each adjustment is a tier table: the tier
+ * with the highest threshold not above the booking's value applies (days
+ * before departure, or load factor in percent). Fares below the cabin's
+ * minimum are raised to it.
+ *
+ * The same rules set the cancellation penalty: a share of what was paid,
+ * at least a minimum, or everything close to departure.
+ *
+ * Rules and tiers live in the `fare_rules` and `fare_adjustments` tables;
+ * the 0018 migration seeds the defaults.
+ */
+import type { FareAdjustmentKind, TicketClass } from "./schema.ts";
+
+export interface FareRule {
+  cabin: TicketClass;
+  currency: string;
+  baseFareCents: number;
+  centsPerKm: number;
+  minimumFareCents: number;
+}
+
+/** Decimal places kept in a rule's cents per kilometer */
+export const CENTS_PER_KM_DECIMALS = 4;
+
+/**
+ * A price per kilometer (`0.29`) as the cents per kilometer a rule stores,
+ * rounded so that binary fractions do not creep in (`29`, not `28.999999999999996`).
+ */
+export const toCentsPerKm = (pricePerKm: number): number =>
+  Number((pricePerKm * 100).toFixed(CENTS_PER_KM_DECIMALS));
+
+export const fromCentsPerKm = (centsPerKm: number): number =>
+  Number((centsPerKm / 100).toFixed(CENTS_PER_KM_DECIMALS + 2));
+
+export interface FareAdjustment {
+  kind: FareAdjustmentKind;
+  /** Days before departure, or load factor in percent, from which the tier applies */
+  threshold: number;
+  /** Change to the subtotal, e.g. 25 for +25% or -10 for a 10% discount */
+  percent: number;
+}
+
+export interface FareQuoteInput {
+  distanceKm: number;
+  daysBeforeDeparture: number;
+  /** Booked ÷ capacity of the cabin, before this booking */
+  loadFactor: number;
+}
+
+export interface FareComponent {
+  component: "base" | "distance" | FareAdjustmentKind | "minimum";
+  description: string;
+  amountCents: number;
+}
+
+/**
+ * The tier of `kind` that applies to `value`, or null when `value` is below
+ * every threshold.
+ */
+export const findTier = (
+  adjustments: FareAdjustment[],
+  kind: FareAdjustmentKind,
+  value: number,
+): FareAdjustment | null =>
+  adjustments
+    .filter((adjustment) => adjustment.kind === kind && adjustment.threshold <= value)
+    .reduce<FareAdjustment | null>(
+      (best, adjustment) => best === null || adjustment.threshold > best.threshold ? adjustment : best,
+      null,
+    );
+
+/**
+ * Prices a booking, returning every component that makes up the total so
+ * the quote can be explained. Amounts are in cents of the rule's currency.
+ */
+export const quoteFare = (
+  rule: FareRule,
+  adjustments: FareAdjustment[],
+  input: FareQuoteInput,
+): { components: FareComponent[]; totalCents: number } => {
+  const components: FareComponent[] = [
+    {
+      component: "base",
+      description: `${rule.cabin} base fare`,
+      amountCents: rule.baseFareCents,
+    },
+    {
+      component: "distance",
+      description: `${input.distanceKm} km at ${fromCentsPerKm(rule.centsPerKm)} ${rule.currency}/km`,
+      amountCents: Math.round(input.distanceKm * rule.centsPerKm),
+    },
+  ];
+  const subtotal = components.reduce((sum, component) => sum + component.amountCents, 0);
+
+  const loadPercent = Math.round(input.loadFactor * 100);
+  const tiers = [
+    {
+      kind: "advance_purchase" as const,
+      value: input.daysBeforeDeparture,
+      describe: (tier: FareAdjustment) =>
+        `Booked ${input.daysBeforeDeparture} days before departure (${tier.threshold}+ days tier)`,
+    },
+    {
+      kind: "load_factor" as const,
+      value: loadPercent,
+      describe: (tier: FareAdjustment) => `Cabin ${loadPercent}% full (${tier.threshold}%+ tier)`,
+    },
+  ];
+  for (const { kind, value, describe } of tiers) {
+    const tier = findTier(adjustments, kind, value);
+    if (tier && tier.percent !== 0) {
+      components.push({
+        component: kind,
+        description: `${describe(tier)}: ${tier.percent > 0 ? "+" : ""}${tier.percent}%`,
+        amountCents: Math.round(subtotal * tier.percent / 100),
+      });
+    }
+  }
+
+  const adjusted = components.reduce((sum, component) => sum + component.amountCents, 0);
+  if (adjusted < rule.minimumFareCents) {
+    components.push({
+      component: "minimum",
+      description: `Raised to the ${rule.cabin} minimum fare`,
+      amountCents: rule.minimumFareCents - adjusted,
+    });
+  }
+
+  return {
+    components,
+    totalCents: components.reduce((sum, component) => sum + component.amountCents, 0),
+  };
+};
+
+export interface CancellationRule {
+  cabin: TicketClass;
+  cancellationFeePercent: number;
+  cancellationFeeMinimumCents: number;
+  nonRefundableDays: number;
+}
+
+/**
+ * What is kept of `paidCents` when a booking is cancelled
+ * `daysBeforeDeparture` days ahead (null when it has no flight), and why.
+ * The penalty never exceeds what was paid.
+ */
+export const cancellationPenalty = (
+  rule: CancellationRule,
+  paidCents: number,
+  daysBeforeDeparture: number | null,
+): { penaltyCents: number; reason: string } => {
+  if (daysBeforeDeparture !== null && daysBeforeDeparture < 0) {
+    return { penaltyCents: paidCents, reason: "Cancelled after departure" };
+  }
+  if (daysBeforeDeparture !== null && daysBeforeDeparture < rule.nonRefundableDays) {
+    return {
+      penaltyCents: paidCents,
+      reason: `${rule.cabin} fares are non-refundable less than ${rule.nonRefundableDays} day${rule.nonRefundableDays === 1 ? "" : "s"} before departure`,
+    };
+  }
+
+  const percentFee = Math.round(paidCents * rule.cancellationFeePercent / 100);
+  const penaltyCents = Math.min(Math.max(percentFee, rule.cancellationFeeMinimumCents), paidCents);
+  return {
+    penaltyCents,
+    reason: percentFee >= rule.cancellationFeeMinimumCents
+      ? `${rule.cancellationFeePercent}% ${rule.cabin} cancellation fee`
+      : `Minimum ${rule.cabin} cancellation fee`,
+  };
+};
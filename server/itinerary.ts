@@ -0,0 +1,104 @@
+/**
+ * Multi-leg itineraries.
+ *
+ * A booking's itinerary is its flights in travel order. Each leg must
+ * depart from the city the previous one arrived at, with enough time in
+ * between to make the connection. Flight schedules are `YYYY-MM-DD`,
+ * optionally followed by a time (`2024-02-01T14:30` or `2024-02-01 14:30`);
+ * a connection on the same day can only be checked when both times are
+ * known.
+ */
+
+/** Shortest layover accepted between two legs. */
+export const MIN_CONNECTION_MINUTES = 60;
+
+export const MAX_ITINERARY_LEGS = 8;
+
+export interface ItineraryLeg {
+  flightNumber: string;
+  origin: string;
+  destination: string;
+  scheduledDeparture: string;
+  scheduledArrival: string | null;
+}
+
+const SCHEDULE = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2})?)?/;
+
+/**
+ * Splits a schedule into its date and, when present, the minutes since
+ * midnight. Returns null when the value is not a schedule at all.
+ */
+export const parseSchedule = (value: string): { date: string; minutes: number | null } | null => {
+  const match = value.match(SCHEDULE);
+  if (!match) return null;
+
+  const [, date, hours, minutes] = match;
+  return { date, minutes: hours === undefined ? null : Number(hours) * 60 + Number(minutes) };
+};
+
+/**
+ * Calendar days from one `YYYY-MM-DD` date to another (negative when `to`
+ * is earlier).
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/**
+ * Minutes between the arrival of `previous` and the departure of `next`,
+ * or null when the schedules do not have the times to tell.
+ */
+export const layoverMinutes = (previous: ItineraryLeg, next: ItineraryLeg): number | null => {
+  const arrival = previous.scheduledArrival ? parseSchedule(previous.scheduledArrival) : null;
+  const departure = parseSchedule(next.scheduledDeparture);
+
+  if (!arrival || arrival.minutes === null || !departure || departure.minutes === null) {
+    return null;
+  }
+
+  return daysBetween(arrival.date, departure.date) * 24 * 60 + departure.minutes - arrival.minutes;
+};
+
+/**
+ * Checks that every leg connects to the next one. Returns one message per
+ * problem; an empty list means the itinerary is valid.
+ */
+export const validateItinerary = (legs: ItineraryLeg[]): string[] => {
+  const problems: string[] = [];
+
+  legs.slice(1).forEach((next, index) => {
+    const previous = legs[index];
+    const where = `${previous.flightNumber} → ${next.flightNumber}`;
+
+    if (next.origin !== previous.destination) {
+      problems.push(
+        `${where}: ${next.flightNumber} departs from ${next.origin}, but ${previous.flightNumber} arrives at ${previous.destination}`,
+      );
+      return;
+    }
+
+    const layover = layoverMinutes(previous, next);
+    if (layover !== null) {
+      if (layover < MIN_CONNECTION_MINUTES) {
+        problems.push(
+          `${where}: ${layover} minutes to connect at ${next.origin}, the minimum is ${MIN_CONNECTION_MINUTES}`,
+        );
+      }
+      return;
+    }
+
+    // Without times, only the dates can be compared
+    const arrivalDate = parseSchedule(previous.scheduledArrival ?? previous.scheduledDeparture)?.date;
+    const departureDate = parseSchedule(next.scheduledDeparture)?.date;
+    if (!arrivalDate || !departureDate) {
+      problems.push(`${where}: unreadable schedule`);
+    } else if (departureDate < arrivalDate) {
+      problems.push(`${where}: ${next.flightNumber} departs before ${previous.flightNumber} arrives`);
+    } else if (departureDate === arrivalDate) {
+      problems.push(
+        `${where}: same-day connection at ${next.origin} cannot be checked without scheduled times`,
+      );
+    }
+  });
+
+  return problems;
+};
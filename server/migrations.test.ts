@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import initSqlJs, { type Database } from "sql.js";
+import migrations from "./drizzle/migrations.js";
+
+let db: Database;
+let applied: number;
+
+// Applies the migrations before journal entry `idx`, or all the rest
+const migrateTo = (idx = Infinity) => {
+  for (const entry of migrations.journal.entries) {
+    if (entry.idx < applied || entry.idx >= idx) continue;
+    const key = `m${String(entry.idx).padStart(4, "0")}` as keyof typeof migrations.migrations;
+    for (const statement of migrations.migrations[key].split("--> statement-breakpoint")) {
+      if (statement.trim()) db.run(statement);
+    }
+    applied = entry.idx + 1;
+  }
+};
+
+const rows = (query: string) => {
+  const [result] = db.exec(query);
+  return result
+    ? result.values.map((values) => Object.fromEntries(result.columns.map((column, index) => [column, values[index]])))
+    : [];
+};
+
+beforeEach(async () => {
+  const SQL = await initSqlJs();
+  db = new SQL.Database();
+  applied = 0;
+});
+
+describe("0005 email + flight unique index", () => {
+  it("records the duplicate bookings it removes in data_migration_issues", () => {
+    migrateTo(5);
+    db.run(`INSERT INTO flights (id, flight_number, origin, destination, scheduled_departure)
+      VALUES (1, 'BR0001', 'São Paulo', 'Rio de Janeiro', '2024-01-15')`);
+    db.run(`INSERT INTO passengers (id, first_name, last_name, email, flight_id, price)
+      VALUES (1, 'Ana', 'Silva', 'ana@example.com', 1, '450.00'),
+        (2, 'Ana', 'Silva', ' ANA@example.com', 1, '450.00'),
+        (3, 'Bruno', 'Costa', 'bruno@example.com', 1, '300.00')`);
+
+    migrateTo();
+
+    expect(rows("SELECT id FROM passengers ORDER BY id")).toEqual([{ id: 1 }, { id: 3 }]);
+    const [issue] = rows("SELECT table_name, row_id, column_name, value, reason FROM data_migration_issues");
+    expect(issue).toMatchObject({
+      table_name: "passengers",
+      row_id: 2,
+      column_name: "email",
+      reason: "Duplicate of passenger 1 (same email and flight); removed before adding passengers_email_flight_idx",
+    });
+    expect(JSON.parse(issue.value as string)).toMatchObject({ id: 2, email: "ana@example.com", price: "450.00" });
+    expect(rows("SELECT name FROM sqlite_master WHERE name = 'passengers_removed_duplicates'")).toEqual([]);
+  });
+});
+
+describe("0015 typed prices and distances", () => {
+  it("reads thousands separators and decimal marks in stored prices and distances", () => {
+    migrateTo(15);
+    db.run(`INSERT INTO flights (id, flight_number, origin, destination, scheduled_departure, distance)
+      VALUES (1, 'BR0001', 'GRU', 'GIG', '2024-01-15', '1.234 km'), (2, 'BR0002', 'GRU', 'BSB', '2024-01-15', 'far')`);
+    db.run(`INSERT INTO passengers (id, first_name, email, flight_id, price)
+      VALUES (1, 'Ana', 'a@example.com', 1, 'R$ 1.200'),
+        (2, 'Bruno', 'b@example.com', 1, '1.200,50'),
+        (3, 'Carla', 'c@example.com', 1, '1,200.50'),
+        (4, 'Davi', 'd@example.com', 1, '450,75'),
+        (5, 'Eva', 'e@example.com', 1, '99.9'),
+        (6, 'Fabio', 'f@example.com', 1, '1.2.3'),
+        (7, 'Gil', 'g@example.com', 1, NULL)`);
+    db.run(`INSERT INTO waitlist (id, flight_id, cabin, first_name, last_name, email, price)
+      VALUES (1, 1, 'economy', 'Hana', 'Lima', 'h@example.com', '2.500.000')`);
+
+    migrateTo();
+
+    expect(rows("SELECT id, price_cents FROM passengers ORDER BY id")).toEqual([
+      { id: 1, price_cents: 120000 },
+      { id: 2, price_cents: 120050 },
+      { id: 3, price_cents: 120050 },
+      { id: 4, price_cents: 45075 },
+      { id: 5, price_cents: 9990 },
+      { id: 6, price_cents: null },
+      { id: 7, price_cents: null },
+    ]);
+    expect(rows("SELECT price_cents FROM waitlist")).toEqual([{ price_cents: 250000000 }]);
+    expect(rows("SELECT id, distance_km FROM flights ORDER BY id")).toEqual([
+      { id: 1, distance_km: 1234 },
+      { id: 2, distance_km: null },
+    ]);
+    expect(rows("SELECT table_name, row_id, column_name, value, reason FROM data_migration_issues ORDER BY id")).toEqual([
+      { table_name: "passengers", row_id: 6, column_name: "price", value: "1.2.3", reason: "Not a decimal amount" },
+      { table_name: "flights", row_id: 2, column_name: "distance", value: "far", reason: "Not a distance in kilometers" },
+    ]);
+    expect(rows("SELECT name FROM sqlite_master WHERE name = 'amount_backfill'")).toEqual([]);
+  });
+});
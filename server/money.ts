@@ -0,0 +1,29 @@
+/**
+ * Money amounts.
+ *
+ * Prices are stored as whole numbers of the currency's minor unit (cents)
+ * next to an ISO 4217 currency code, so sums and comparisons are exact.
+ * Tools take and return amounts in major units (`1234.5`).
+ */
+
+export const DEFAULT_CURRENCY = "BRL";
+
+/** Exchange rates say what one unit of a currency is worth in this one */
+export const BASE_CURRENCY = "BRL";
+
+export const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Converts an amount in major units to cents, rounding half-cents away
+ * from zero.
+ */
+export const toCents = (amount: number): number =>
+  Math.sign(amount) * Math.round(Math.abs(amount) * 100);
+
+export const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Cents as a plain two-decimal amount (`123450` → `1234.50`), the format
+ * used in CSV columns.
+ */
+export const formatCents = (cents: number): string => (cents / 100).toFixed(2);
@@ -0,0 +1,442 @@
+/**
+ * Column mapping for passenger CSV imports.
+ *
+ * CSV headers are matched to passenger fields by name, ignoring case,
+ * accents and separators (`First Name`, `first_name` and `firstName` are
+ * the same column), with aliases for the names used in our partners'
+ * exports. Mapped rows are then validated with `createPassengerImportSchema`
+ * so a file can be checked line by line before anything is inserted.
+ */
+import { z } from "zod";
+import { type Airport, resolveAirport } from "./airports.ts";
+import { CURRENCY_CODE } from "./money.ts";
+import { distanceDeviationPercent, greatCircleDistanceKm } from "./routes.ts";
+import { normalizeRecordLocator } from "./record-locator.ts";
+import { BOOKING_STATUSES, TICKET_CLASSES } from "./schema.ts";
+
+export const PASSENGER_IMPORT_FIELDS = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "nationality",
+  "dateOfBirth",
+  "flightNumber",
+  "departureCity",
+  "arrivalCity",
+  "departureDate",
+  "distance",
+  "ticketClass",
+  "price",
+  "currency",
+  "status",
+  "bookingRef",
+] as const;
+
+export type PassengerImportField = typeof PASSENGER_IMPORT_FIELDS[number];
+
+export type PassengerImportRow = Partial<Record<PassengerImportField, string>>;
+
+export const REQUIRED_PASSENGER_IMPORT_FIELDS: PassengerImportField[] = [
+  "firstName",
+  "lastName",
+  "email",
+  "departureCity",
+  "arrivalCity",
+  "departureDate",
+];
+
+const COLUMN_ALIASES: Record<string, PassengerImportField> = {
+  nome: "firstName",
+  primeironome: "firstName",
+  sobrenome: "lastName",
+  surname: "lastName",
+  emailaddress: "email",
+  telefone: "phone",
+  celular: "phone",
+  phonenumber: "phone",
+  nacionalidade: "nationality",
+  datanascimento: "dateOfBirth",
+  datadenascimento: "dateOfBirth",
+  birthdate: "dateOfBirth",
+  dob: "dateOfBirth",
+  voo: "flightNumber",
+  numerovoo: "flightNumber",
+  numerodovoo: "flightNumber",
+  flight: "flightNumber",
+  origem: "departureCity",
+  cidadeorigem: "departureCity",
+  origin: "departureCity",
+  from: "departureCity",
+  destino: "arrivalCity",
+  cidadedestino: "arrivalCity",
+  destination: "arrivalCity",
+  to: "arrivalCity",
+  datapartida: "departureDate",
+  datadepartida: "departureDate",
+  datavoo: "departureDate",
+  flightdate: "departureDate",
+  distancia: "distance",
+  classe: "ticketClass",
+  class: "ticketClass",
+  cabin: "ticketClass",
+  flightcost: "price",
+  preco: "price",
+  valor: "price",
+  fare: "price",
+  cost: "price",
+  moeda: "currency",
+  currencycode: "currency",
+  situacao: "status",
+  pnr: "bookingRef",
+  recordlocator: "bookingRef",
+  bookingreference: "bookingRef",
+  localizador: "bookingRef",
+  reserva: "bookingRef",
+};
+
+/**
+ * Lowercases, strips accents and drops anything that is not a letter or
+ * digit, so header spelling variations compare equal.
+ */
+const normalizeColumnName = (name: string): string =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const KNOWN_COLUMNS = new Map<string, PassengerImportField>([
+  ...PASSENGER_IMPORT_FIELDS.map((field) =>
+    [normalizeColumnName(field), field] as const
+  ),
+  ...Object.entries(COLUMN_ALIASES),
+]);
+
+export interface ColumnMappingResult {
+  /** Field for each header position, or null when the column is ignored */
+  fieldsByIndex: (PassengerImportField | null)[];
+  /** Resolved header → field mapping */
+  mapping: Record<string, PassengerImportField>;
+  unknownColumns: string[];
+  missingColumns: PassengerImportField[];
+  errors: string[];
+}
+
+/**
+ * Resolves which passenger field each CSV column holds. An explicit
+ * `columnMapping` (header → field) takes precedence over name matching.
+ */
+export const resolveColumnMapping = (
+  headers: string[],
+  columnMapping: Record<string, string> = {},
+): ColumnMappingResult => {
+  const errors: string[] = [];
+  const explicit = new Map<string, string>(
+    Object.entries(columnMapping).map(([header, field]) =>
+      [normalizeColumnName(header), field]
+    ),
+  );
+
+  for (const [header, field] of Object.entries(columnMapping)) {
+    if (!PASSENGER_IMPORT_FIELDS.includes(field as PassengerImportField)) {
+      errors.push(`Column mapping for "${header}" targets unknown field "${field}"`);
+    }
+    if (!headers.some((h) => normalizeColumnName(h) === normalizeColumnName(header))) {
+      errors.push(`Column mapping references "${header}", which is not in the CSV header`);
+    }
+  }
+
+  const mapping: Record<string, PassengerImportField> = {};
+  const unknownColumns: string[] = [];
+  const fieldsByIndex = headers.map((header) => {
+    const normalized = normalizeColumnName(header);
+    const field = (explicit.get(normalized) ?? KNOWN_COLUMNS.get(normalized)) as
+      | PassengerImportField
+      | undefined;
+
+    if (!field || !PASSENGER_IMPORT_FIELDS.includes(field)) {
+      unknownColumns.push(header);
+      return null;
+    }
+
+    const duplicate = Object.entries(mapping).find(([, f]) => f === field);
+    if (duplicate) {
+      errors.push(`Columns "${duplicate[0]}" and "${header}" both map to "${field}"`);
+      return null;
+    }
+
+    mapping[header] = field;
+    return field;
+  });
+
+  const mappedFields = new Set(Object.values(mapping));
+  const missingColumns = REQUIRED_PASSENGER_IMPORT_FIELDS.filter((field) =>
+    !mappedFields.has(field)
+  );
+
+  return { fieldsByIndex, mapping, unknownColumns, missingColumns, errors };
+};
+
+/**
+ * Turns the values of one CSV record into a passenger row using a
+ * resolved column mapping. Values are trimmed; empty values are omitted.
+ */
+export const mapRecord = (
+  values: string[],
+  fieldsByIndex: (PassengerImportField | null)[],
+): PassengerImportRow => {
+  const row: PassengerImportRow = {};
+
+  fieldsByIndex.forEach((field, index) => {
+    const value = values[index]?.trim();
+    if (field && value) {
+      row[field] = value;
+    }
+  });
+
+  return row;
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const BR_DATE = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+
+/**
+ * Parses `YYYY-MM-DD` or `DD/MM/YYYY` into an ISO date, or returns null
+ * when the value is not a real calendar date.
+ */
+const parseDate = (value: string): string | null => {
+  const iso = value.match(ISO_DATE);
+  const br = value.match(BR_DATE);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : br
+    ? [br[3], br[2], br[1]]
+    : [];
+
+  if (!year) return null;
+
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parses an amount the way the 0015 migration read stored prices: a lone
+ * comma is a decimal comma (`1200,50`), `.` or `,` between groups of three
+ * digits separate thousands (`1.200`, `1,200,000`), and when both appear
+ * the later one is the decimal mark (`R$ 1.200,50`, `1,200.50`).
+ */
+const parseAmount = (value: string): number | null => {
+  const [, sign, amount] = value.trim().match(/^(-?)\s*(?:R\$\s*)?(.*)$/i)!;
+  const match =
+    amount.match(/^(\d*),(\d+)$/) ??
+    amount.match(/^([1-9]\d{0,2}(?:\.\d{3})+)(?:,(\d+))?$/) ??
+    amount.match(/^([1-9]\d{0,2}(?:,\d{3})+)(?:\.(\d+))?$/) ??
+    amount.match(/^(\d*)(?:\.(\d+))?$/);
+  if (!match || !(match[1] || match[2])) return null;
+  const parsed = Number(`${match[1].replace(/[.,]/g, "") || "0"}.${match[2] ?? "0"}`);
+  return sign ? -parsed : parsed;
+};
+
+const dateField = z.string().transform((value, ctx) => {
+  const date = parseDate(value);
+  if (!date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unparsable date "${value}" (expected YYYY-MM-DD or DD/MM/YYYY)`,
+    });
+    return z.NEVER;
+  }
+  return date;
+});
+
+const amountField = (label: string) =>
+  z.string().transform((value, ctx) => {
+    const amount = parseAmount(value);
+    if (amount === null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${label} "${value}" is not a number`,
+      });
+      return z.NEVER;
+    }
+    if (amount < 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${label} cannot be negative`,
+      });
+      return z.NEVER;
+    }
+    return amount;
+  });
+
+// Cities, airport codes and names all resolve to the airport's IATA code
+// (`Sao Paulo`, `são paulo` and `GRU` → `GRU`)
+const cityField = (airports: Airport[]) => z.string().transform((value, ctx) => {
+  const airport = resolveAirport(value, airports);
+  if (!airport) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown airport or city "${value}"`,
+    });
+    return z.NEVER;
+  }
+  return airport.iataCode;
+});
+
+/**
+ * Validates and normalizes one mapped CSV row against the known `airports`.
+ * Dates come out as ISO `YYYY-MM-DD`, amounts as numbers, currencies in
+ * uppercase, cities as airport codes and ticket classes and statuses in
+ * lowercase.
+ */
+export const createPassengerImportSchema = (airports: Airport[]) => z.object({
+  firstName: z.string({ required_error: "First name is required" }),
+  lastName: z.string({ required_error: "Last name is required" }),
+  email: z.string({ required_error: "Email is required" })
+    .email("Invalid email address")
+    .transform((value) => value.toLowerCase()),
+  phone: z.string().optional(),
+  nationality: z.string().optional(),
+  dateOfBirth: dateField.optional(),
+  flightNumber: z.string()
+    .regex(/^[A-Z0-9]{2}\d{1,4}$/i, "Invalid flight number")
+    .transform((value) => value.toUpperCase())
+    .optional(),
+  departureCity: z.string({ required_error: "Departure city is required" })
+    .pipe(cityField(airports)),
+  arrivalCity: z.string({ required_error: "Arrival city is required" })
+    .pipe(cityField(airports)),
+  departureDate: z.string({ required_error: "Departure date is required" })
+    .pipe(dateField),
+  distance: amountField("Distance").optional(),
+  ticketClass: z.string()
+    .transform((value) => value.toLowerCase())
+    .pipe(z.enum(TICKET_CLASSES, {
+      errorMap: () => ({
+        message: `Ticket class must be one of: ${TICKET_CLASSES.join(", ")}`,
+      }),
+    }))
+    .optional(),
+  price: amountField("Price").optional(),
+  currency: z.string()
+    .transform((value) => value.trim().toUpperCase())
+    .pipe(z.string().regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code"))
+    .optional(),
+  status: z.string()
+    // `Checked In`, `checked_in` and `CHECKED-IN` are all `checked-in`
+    .transform((value) => value.toLowerCase().replace(/[\s_]+/g, "-").replace(/^canceled$/, "cancelled"))
+    .pipe(z.enum(BOOKING_STATUSES, {
+      errorMap: () => ({
+        message: `Status must be one of: ${BOOKING_STATUSES.join(", ")}`,
+      }),
+    }))
+    .optional(),
+  // Rows sharing a ref are one booking; case and surrounding spaces are ignored
+  bookingRef: z.string()
+    .max(32, "Booking reference is too long")
+    .transform(normalizeRecordLocator)
+    .optional(),
+}).superRefine((row, ctx) => {
+  if (row.departureCity === row.arrivalCity) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["arrivalCity"],
+      message: "Arrival city must differ from departure city",
+    });
+  }
+});
+
+export type PassengerImport = z.infer<ReturnType<typeof createPassengerImportSchema>>;
+
+export interface RowValidationError {
+  line: number;
+  field: string;
+  reason: string;
+  value: string | null;
+}
+
+/**
+ * Validates mapped rows, collecting every problem with the CSV line it
+ * came from instead of stopping at the first one.
+ */
+export const validatePassengerRows = (
+  rows: { line: number; row: PassengerImportRow }[],
+  airports: Airport[],
+): {
+  valid: { line: number; passenger: PassengerImport }[];
+  errors: RowValidationError[];
+} => {
+  const valid: { line: number; passenger: PassengerImport }[] = [];
+  const errors: RowValidationError[] = [];
+  const schema = createPassengerImportSchema(airports);
+
+  for (const { line, row } of rows) {
+    const result = schema.safeParse(row);
+
+    if (result.success) {
+      valid.push({ line, passenger: result.data });
+      continue;
+    }
+
+    for (const issue of result.error.issues) {
+      const field = String(issue.path[0] ?? "row");
+      errors.push({
+        line,
+        field,
+        reason: issue.message,
+        value: row[field as PassengerImportField] ?? null,
+      });
+    }
+  }
+
+  return { valid, errors };
+};
+
+export interface DistanceWarning {
+  line: number;
+  route: string;
+  supplied: number;
+  computed: number;
+  deviationPercent: number;
+}
+
+/**
+ * Flags rows whose supplied distance is more than `tolerancePercent` away
+ * from the great-circle distance between their airports. The supplied
+ * value is never stored; flights get the computed distance.
+ */
+export const checkDistances = (
+  rows: { line: number; passenger: PassengerImport }[],
+  tolerancePercent: number,
+  airports: Airport[],
+): DistanceWarning[] => {
+  const warnings: DistanceWarning[] = [];
+
+  for (const { line, passenger } of rows) {
+    if (passenger.distance === undefined) continue;
+
+    const origin = resolveAirport(passenger.departureCity, airports);
+    const destination = resolveAirport(passenger.arrivalCity, airports);
+    if (!origin || !destination) continue;
+
+    const supplied = passenger.distance;
+    const computed = greatCircleDistanceKm(origin, destination);
+    const deviationPercent = distanceDeviationPercent(supplied, computed);
+    if (deviationPercent > tolerancePercent) {
+      warnings.push({
+        line,
+        route: `${origin.iataCode}-${destination.iataCode}`,
+        supplied,
+        computed,
+        deviationPercent,
+      });
+    }
+  }
+
+  return warnings;
+};
@@ -0,0 +1,27 @@
+/**
+ * Record locators (PNRs).
+ *
+ * A booking is identified by six characters drawn from uppercase letters
+ * and digits, leaving out the ones that are easy to misread over the
+ * phone (I, O, 0 and 1). Locators are random, so callers must check new
+ * ones against the locators already in use.
+ */
+export const RECORD_LOCATOR_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const RECORD_LOCATOR_LENGTH = 6;
+
+/** Shape of a locator, including ones issued by other systems */
+export const RECORD_LOCATOR_PATTERN = /^[A-Z0-9]{6}$/;
+
+export const generateRecordLocator = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECORD_LOCATOR_LENGTH));
+  return Array.from(bytes, (byte) =>
+    RECORD_LOCATOR_ALPHABET[byte % RECORD_LOCATOR_ALPHABET.length]
+  ).join("");
+};
+
+/**
+ * Uppercases and trims a locator typed by a user (` abc2de ` → `ABC2DE`).
+ */
+export const normalizeRecordLocator = (value: string): string =>
+  value.trim().toUpperCase();
@@ -0,0 +1,106 @@
+/**
+ * Route distances and block times.
+ *
+ * Distances are great-circle distances between the two airports'
+ * coordinates, in whole kilometers. Block time (gate to gate) comes from
+ * the flights' schedules when they have times, which are local to each
+ * airport; otherwise it is estimated from the distance.
+ */
+import type { Airport } from "./airports.ts";
+import { parseSchedule } from "./itinerary.ts";
+
+const EARTH_RADIUS_KM = 6371;
+
+/** How far a supplied distance may be from the computed one before it is flagged */
+export const DISTANCE_TOLERANCE_PERCENT = 10;
+
+/** Taxi, climb and descent allowance added to the time at cruise speed */
+const BLOCK_OVERHEAD_MINUTES = 30;
+const CRUISE_SPEED_KMH = 800;
+
+type Position = Pick<Airport, "latitude" | "longitude">;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Haversine distance between two points, rounded to the kilometer.
+ */
+export const greatCircleDistanceKm = (from: Position, to: Position): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return Math.round(2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a)));
+};
+
+/**
+ * How far `supplied` is from `computed`, as a percentage of `computed`.
+ */
+export const distanceDeviationPercent = (supplied: number, computed: number): number =>
+  computed === 0 ? 0 : Math.round(Math.abs(supplied - computed) / computed * 1000) / 10;
+
+/**
+ * Typical gate-to-gate time for a distance, rounded to 5 minutes.
+ */
+export const estimateBlockMinutes = (distanceKm: number): number =>
+  Math.round((BLOCK_OVERHEAD_MINUTES + distanceKm / CRUISE_SPEED_KMH * 60) / 5) * 5;
+
+/**
+ * Minutes `timeZone` is ahead of UTC at the given instant.
+ */
+const zoneOffsetMinutes = (utcMillis: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(utcMillis));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+
+  return Math.round((local - utcMillis) / 60_000);
+};
+
+/**
+ * The instant a local schedule (`2024-02-01T14:30`) refers to, or null
+ * when it has no time.
+ */
+const toUtcMillis = (schedule: string, timeZone: string): number | null => {
+  const parsed = parseSchedule(schedule);
+  if (!parsed || parsed.minutes === null) return null;
+
+  const local = Date.parse(`${parsed.date}T00:00:00Z`) + parsed.minutes * 60_000;
+  return local - zoneOffsetMinutes(local, timeZone) * 60_000;
+};
+
+/**
+ * Scheduled gate-to-gate minutes of a flight, taking each airport's time
+ * zone into account, or null when the schedule has no times.
+ */
+export const scheduledBlockMinutes = (
+  flight: { scheduledDeparture: string; scheduledArrival: string | null },
+  origin: Airport,
+  destination: Airport,
+): number | null => {
+  if (!flight.scheduledArrival) return null;
+
+  const departure = toUtcMillis(flight.scheduledDeparture, origin.timezone);
+  const arrival = toUtcMillis(flight.scheduledArrival, destination.timezone);
+  if (departure === null || arrival === null || arrival <= departure) return null;
+
+  return Math.round((arrival - departure) / 60_000);
+};
+
+/**
+ * Middle value of a non-empty list (the mean of the two middle values for
+ * even lengths).
+ */
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
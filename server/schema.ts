@@ -4,7 +4,38 @@
  * After making changes to this file, run `npm run db:generate` to generate the migration file.
  * Then, by just using the app, the migration is lazily ensured at runtime.
  */
-import { integer, sqliteTable, text } from "@deco/workers-runtime/drizzle";
+import {
+  check,
+  index,
+  integer,
+  real,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "@deco/workers-runtime/drizzle";
+import { sql } from "drizzle-orm";
+
+export const TICKET_CLASSES = ["economy", "premium", "business", "first"] as const;
+export type TicketClass = typeof TICKET_CLASSES[number];
+
+/**
+ * Booking lifecycle. Allowed transitions between these live in
+ * `booking-status.ts`.
+ */
+export const BOOKING_STATUSES = [
+  "pending",
+  "confirmed",
+  "checked-in",
+  "boarded",
+  "flown",
+  "cancelled",
+  "no-show",
+  "refunded",
+] as const;
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+const inList = (values: readonly string[]) =>
+  sql.raw(values.map((value) => `'${value}'`).join(", "));
 
 export const todosTable = sqliteTable("todos", {
   id: integer("id").primaryKey(),
@@ -12,6 +43,80 @@ export const todosTable = sqliteTable("todos", {
   completed: integer("completed").default(0),
 });
 
+/**
+ * Airport reference data, seeded by the 0013 migration and read wherever a
+ * city or airport code is resolved. Flights refer to airports by IATA code.
+ */
+export const airportsTable = sqliteTable("airports", {
+  id: integer("id").primaryKey(),
+  iataCode: text("iata_code").notNull(),
+  icaoCode: text("icao_code").notNull(),
+  name: text("name").notNull(),
+  city: text("city").notNull(),
+  country: text("country").notNull(),
+  timezone: text("timezone").notNull(),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+}, (table) => [
+  uniqueIndex("airports_iata_code_idx").on(table.iataCode),
+  uniqueIndex("airports_icao_code_idx").on(table.icaoCode),
+]);
+
+/**
+ * A scheduled flight. Passengers reference a flight by id instead of
+ * duplicating its route and schedule on every row.
+ */
+export const flightsTable = sqliteTable("flights", {
+  id: integer("id").primaryKey(),
+  flightNumber: text("flight_number").notNull(),
+  /** IATA code of the departure airport */
+  origin: text("origin").notNull(),
+  /** IATA code of the arrival airport */
+  destination: text("destination").notNull(),
+  /** Local time at the origin, `YYYY-MM-DD` or `YYYY-MM-DDTHH:MM` */
+  scheduledDeparture: text("scheduled_departure").notNull(),
+  /** Local time at the destination, same format as the departure */
+  scheduledArrival: text("scheduled_arrival"),
+  aircraft: text("aircraft"),
+  /** Great-circle distance between the airports */
+  distanceKm: integer("distance_km"),
+  /** How far above capacity each cabin may be sold, e.g. 10 for 110% */
+  overbookingPercent: integer("overbooking_percent").notNull().default(0),
+  createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  uniqueIndex("flights_number_departure_idx").on(
+    table.flightNumber,
+    table.scheduledDeparture,
+  ),
+]);
+
+/**
+ * Per-flight cabin capacity, overriding the seat count of the flight's
+ * aircraft seat map (e.g. when seats are taken out of service).
+ */
+export const flightCabinCapacityTable = sqliteTable("flight_cabin_capacity", {
+  id: integer("id").primaryKey(),
+  flightId: integer("flight_id")
+    .notNull()
+    .references(() => flightsTable.id),
+  cabin: text("cabin", { enum: TICKET_CLASSES }).notNull(),
+  capacity: integer("capacity").notNull(),
+}, (table) => [
+  uniqueIndex("flight_cabin_capacity_flight_cabin_idx").on(table.flightId, table.cabin),
+]);
+
+/**
+ * A booking made together (Passenger Name Record), identified by its
+ * record locator. Its passengers link to it through `bookingId`.
+ */
+export const bookingsTable = sqliteTable("bookings", {
+  id: integer("id").primaryKey(),
+  recordLocator: text("record_locator").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  uniqueIndex("bookings_record_locator_idx").on(table.recordLocator),
+]);
+
 export const passengersTable = sqliteTable("passengers", {
   id: integer("id").primaryKey(),
   firstName: text("first_name"),
@@ -19,13 +124,229 @@ export const passengersTable = sqliteTable("passengers", {
   email: text("email"),
   phone: text("phone"),
   nationality: text("nationality"),
+  /** `YYYY-MM-DD` */
+  dateOfBirth: text("date_of_birth"),
+  flightId: integer("flight_id").references(() => flightsTable.id),
+  ticketClass: text("ticket_class", { enum: TICKET_CLASSES })
+    .notNull()
+    .default("economy"),
+  /** Fare in the currency's minor unit (cents) */
+  priceCents: integer("price_cents"),
+  /** ISO 4217 code of the fare's currency */
+  currency: text("currency").notNull().default("BRL"),
+  status: text("status", { enum: BOOKING_STATUSES })
+    .notNull()
+    .default("confirmed"),
+  seat: text("seat"),
+  bookingId: integer("booking_id").references(() => bookingsTable.id),
+  /** When the passenger was booked (UTC, `YYYY-MM-DD HH:MM:SS`) */
+  createdAt: text("created_at").default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  index("passengers_booking_idx").on(table.bookingId),
+  // Natural key used to detect duplicate bookings on import. Only active
+  // bookings count (see INACTIVE_BOOKING_STATUSES), so a cancelled booking
+  // does not stop the passenger from booking the flight again.
+  uniqueIndex("passengers_email_flight_idx")
+    .on(table.email, table.flightId)
+    .where(sql`${table.status} not in ('cancelled', 'no-show', 'refunded')`),
+  // A seat can only be sold once per flight (unassigned seats are NULL)
+  uniqueIndex("passengers_flight_seat_idx").on(table.flightId, table.seat),
+  check(
+    "passengers_ticket_class_check",
+    sql`ticket_class IN (${inList(TICKET_CLASSES)})`,
+  ),
+  check("passengers_status_check", sql`status IN (${inList(BOOKING_STATUSES)})`),
+]);
+
+/**
+ * The flights of a booking's itinerary, in travel order (`sequence` 1 is
+ * the first leg).
+ */
+export const itinerarySegmentsTable = sqliteTable("itinerary_segments", {
+  id: integer("id").primaryKey(),
+  bookingId: integer("booking_id")
+    .notNull()
+    .references(() => bookingsTable.id),
+  flightId: integer("flight_id")
+    .notNull()
+    .references(() => flightsTable.id),
+  sequence: integer("sequence").notNull(),
+}, (table) => [
+  uniqueIndex("itinerary_segments_booking_sequence_idx").on(table.bookingId, table.sequence),
+  uniqueIndex("itinerary_segments_booking_flight_idx").on(table.bookingId, table.flightId),
+]);
+
+/**
+ * Every booking status change, with who made it and why.
+ */
+export const bookingStatusHistoryTable = sqliteTable("booking_status_history", {
+  id: integer("id").primaryKey(),
+  /** Null once the passenger is deleted; their history is kept */
+  passengerId: integer("passenger_id").references(() => passengersTable.id),
+  fromStatus: text("from_status", { enum: BOOKING_STATUSES }),
+  toStatus: text("to_status", { enum: BOOKING_STATUSES }).notNull(),
+  changedBy: text("changed_by").notNull(),
+  reason: text("reason"),
+  changedAt: text("changed_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+});
+
+export const WAITLIST_STATUSES = ["waiting", "promoted", "removed"] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+/**
+ * Passengers waiting for a seat in a full cabin. They are not booked yet,
+ * so the entry holds the passenger details needed to book them later.
+ * Higher priority is promoted first; ties go to whoever joined first.
+ */
+export const waitlistTable = sqliteTable("waitlist", {
+  id: integer("id").primaryKey(),
+  flightId: integer("flight_id")
+    .notNull()
+    .references(() => flightsTable.id),
+  cabin: text("cabin", { enum: TICKET_CLASSES }).notNull(),
+  firstName: text("first_name").notNull(),
+  lastName: text("last_name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  nationality: text("nationality"),
   dateOfBirth: text("date_of_birth"),
-  flightNumber: text("flight_number"),
-  departureCity: text("departure_city"),
-  arrivalCity: text("arrival_city"),
-  departureDate: text("departure_date"),
-  price: text("price"),
-  status: text("status"),
-  distance: text("distance"),
-  createdAt: text("created_at").default("CURRENT_TIMESTAMP"),
+  /** Fare in the currency's minor unit (cents) */
+  priceCents: integer("price_cents"),
+  currency: text("currency").notNull().default("BRL"),
+  priority: integer("priority").notNull().default(0),
+  status: text("status", { enum: WAITLIST_STATUSES }).notNull().default("waiting"),
+  /** Booking created when the entry was promoted */
+  passengerId: integer("passenger_id").references(() => passengersTable.id),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  resolvedAt: text("resolved_at"),
+}, (table) => [
+  index("waitlist_flight_cabin_idx").on(table.flightId, table.cabin, table.status),
+]);
+
+export const WAITLIST_ACTIONS = ["joined", "promoted", "removed"] as const;
+export type WaitlistAction = typeof WAITLIST_ACTIONS[number];
+
+export const waitlistHistoryTable = sqliteTable("waitlist_history", {
+  id: integer("id").primaryKey(),
+  waitlistId: integer("waitlist_id")
+    .notNull()
+    .references(() => waitlistTable.id),
+  action: text("action", { enum: WAITLIST_ACTIONS }).notNull(),
+  changedBy: text("changed_by").notNull(),
+  reason: text("reason"),
+  changedAt: text("changed_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+});
+
+export const PAYMENT_KINDS = ["charge", "refund", "fee"] as const;
+export type PaymentKind = typeof PAYMENT_KINDS[number];
+
+/**
+ * Money movements of a passenger's booking. Charges are money received
+ * and refunds money paid back, both as positive amounts. Fees record the
+ * cancellation penalty kept out of a refund; they move no money and are
+ * part of what the charges left after refunds.
+ */
+export const paymentsTable = sqliteTable("payments", {
+  id: integer("id").primaryKey(),
+  passengerId: integer("passenger_id")
+    .notNull()
+    .references(() => passengersTable.id),
+  kind: text("kind", { enum: PAYMENT_KINDS }).notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull().default("BRL"),
+  description: text("description"),
+  createdBy: text("created_by").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  index("payments_passenger_idx").on(table.passengerId),
+  check("payments_kind_check", sql`kind IN (${inList(PAYMENT_KINDS)})`),
+  check("payments_amount_check", sql`amount_cents > 0`),
+]);
+
+/**
+ * How each cabin is priced: a base fare plus a rate per kilometer, never
+ * below the minimum fare. See `fares.ts`.
+ */
+export const fareRulesTable = sqliteTable("fare_rules", {
+  id: integer("id").primaryKey(),
+  cabin: text("cabin", { enum: TICKET_CLASSES }).notNull(),
+  currency: text("currency").notNull().default("BRL"),
+  baseFareCents: integer("base_fare_cents").notNull(),
+  /** Cents per kilometer, may be fractional */
+  centsPerKm: real("cents_per_km").notNull(),
+  minimumFareCents: integer("minimum_fare_cents").notNull().default(0),
+  /** Share of the fare paid kept when the booking is cancelled */
+  cancellationFeePercent: integer("cancellation_fee_percent").notNull().default(0),
+  cancellationFeeMinimumCents: integer("cancellation_fee_minimum_cents").notNull().default(0),
+  /** Cancelling fewer than this many days before departure refunds nothing */
+  nonRefundableDays: integer("non_refundable_days").notNull().default(0),
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: text("updated_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  uniqueIndex("fare_rules_cabin_idx").on(table.cabin),
+  check("fare_rules_amounts_check", sql`base_fare_cents >= 0 AND cents_per_km >= 0 AND minimum_fare_cents >= 0`),
+]);
+
+export const FARE_ADJUSTMENT_KINDS = ["advance_purchase", "load_factor"] as const;
+export type FareAdjustmentKind = typeof FARE_ADJUSTMENT_KINDS[number];
+
+/**
+ * Percentage tiers applied on top of the fare rules, for every cabin.
+ * `threshold` is days before departure (`advance_purchase`) or the
+ * cabin's load factor in percent (`load_factor`); the tier with the
+ * highest threshold reached applies.
+ */
+export const fareAdjustmentsTable = sqliteTable("fare_adjustments", {
+  id: integer("id").primaryKey(),
+  kind: text("kind", { enum: FARE_ADJUSTMENT_KINDS }).notNull(),
+  threshold: integer("threshold").notNull(),
+  percent: integer("percent").notNull(),
+}, (table) => [
+  uniqueIndex("fare_adjustments_kind_threshold_idx").on(table.kind, table.threshold),
+  check("fare_adjustments_threshold_check", sql`threshold >= 0`),
+  check("fare_adjustments_percent_check", sql`percent > -100`),
+]);
+
+/**
+ * What one unit of `currency` is worth in BRL, from `effectiveDate` until
+ * the currency's next rate. Fares are converted at the rate effective on
+ * their booking date.
+ */
+export const exchangeRatesTable = sqliteTable("exchange_rates", {
+  id: integer("id").primaryKey(),
+  /** ISO 4217 code, never BRL itself */
+  currency: text("currency").notNull(),
+  /** `YYYY-MM-DD` */
+  effectiveDate: text("effective_date").notNull(),
+  rate: real("rate").notNull(),
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: text("updated_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (table) => [
+  uniqueIndex("exchange_rates_currency_date_idx").on(table.currency, table.effectiveDate),
+  check("exchange_rates_rate_check", sql`rate > 0`),
+]);
+
+/**
+ * Values a data migration could not convert, kept with the row they came
+ * from so they can be fixed by hand instead of being lost. Rows a migration
+ * had to remove are kept whole, as JSON in `value`.
+ */
+export const dataMigrationIssuesTable = sqliteTable("data_migration_issues", {
+  id: integer("id").primaryKey(),
+  tableName: text("table_name").notNull(),
+  rowId: integer("row_id").notNull(),
+  columnName: text("column_name").notNull(),
+  value: text("value").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+});
+
+/**
+ * Data fixes already applied. A data fix is a one-off change to existing
+ * rows that needs application code, such as drawing random record
+ * locators, and so runs after the SQL migrations (see `data-fixes.ts`).
+ */
+export const dataFixesTable = sqliteTable("data_fixes", {
+  name: text("name").primaryKey(),
+  appliedAt: text("applied_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
 });
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { aircraftWithCabins, allocateSeats, DEFAULT_AIRCRAFT, listSeats, SEAT_MAPS } from "./seat-maps.ts";
+
+const a320 = listSeats(SEAT_MAPS["A320"]);
+
+const seats = (...names: string[]) =>
+  names.map((name) => {
+    const seat = a320.find((candidate) => candidate.seat === name);
+    if (!seat) throw new Error(`No seat ${name} on the A320`);
+    return seat;
+  });
+
+describe("allocateSeats", () => {
+  it("seats a group in one row across the aisle", () => {
+    const business = a320.filter((seat) => seat.cabin === "business");
+
+    const assignments = allocateSeats(business, [[1, 2, 3, 4]]);
+
+    expect([...assignments]).toEqual([[1, "1A"], [2, "1C"], [3, "1D"], [4, "1F"]]);
+  });
+
+  it("prefers adjacent seats further back over split seats in front", () => {
+    const assignments = allocateSeats(seats("8A", "8C", "9A", "9B"), [[1, 2]]);
+
+    expect([...assignments]).toEqual([[1, "9A"], [2, "9B"]]);
+  });
+
+  it("falls back to the first free seats when no row fits the group", () => {
+    const assignments = allocateSeats(seats("8E", "8F", "9A", "9B"), [[1, 2, 3]]);
+
+    expect([...assignments]).toEqual([[1, "8E"], [2, "8F"], [3, "9A"]]);
+  });
+
+  it("seats the largest groups first and leaves out passengers who do not fit", () => {
+    const assignments = allocateSeats(seats("8A", "8B", "8C"), [[1], [2, 3, 4]]);
+
+    expect([...assignments]).toEqual([[2, "8A"], [3, "8B"], [4, "8C"]]);
+    expect(assignments.has(1)).toBe(false);
+  });
+
+  it("seats part of a group when fewer seats are left", () => {
+    const assignments = allocateSeats(seats("8A", "8B"), [[1, 2, 3]]);
+
+    expect([...assignments]).toEqual([[1, "8A"], [2, "8B"]]);
+  });
+});
+
+describe("aircraftWithCabins", () => {
+  it("keeps the default aircraft when it has every cabin", () => {
+    expect(aircraftWithCabins(["economy", "business"])).toBe(DEFAULT_AIRCRAFT);
+    expect(aircraftWithCabins([])).toBe(DEFAULT_AIRCRAFT);
+  });
+
+  it("picks an aircraft with a first cabin when one is booked", () => {
+    expect(aircraftWithCabins(new Set(["economy", "first"] as const))).toBe("A330-200");
+  });
+});
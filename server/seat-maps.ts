@@ -0,0 +1,184 @@
+/**
+ * Aircraft seat maps.
+ *
+ * Each aircraft type is described by blocks of rows sharing a cabin and a
+ * layout, where the layout lists the seat letters of a row from window to
+ * window and spaces mark the aisles (`"ABC DEF"`). Blocked seats exist on
+ * the aircraft but are never sold (crew rest, galley, broken seats).
+ */
+import type { TicketClass } from "./schema.ts";
+
+export interface SeatMapRows {
+  /** First and last row number, inclusive */
+  rows: [number, number];
+  cabin: TicketClass;
+  layout: string;
+}
+
+export interface SeatMapDefinition {
+  aircraft: string;
+  rows: SeatMapRows[];
+  blockedSeats: string[];
+}
+
+export const SEAT_MAPS: Record<string, SeatMapDefinition> = {
+  "A320": {
+    aircraft: "A320",
+    rows: [
+      { rows: [1, 3], cabin: "business", layout: "AC DF" },
+      { rows: [4, 7], cabin: "premium", layout: "ABC DEF" },
+      { rows: [8, 29], cabin: "economy", layout: "ABC DEF" },
+    ],
+    blockedSeats: ["29C", "29D"],
+  },
+  "B737-800": {
+    aircraft: "B737-800",
+    rows: [
+      { rows: [1, 4], cabin: "business", layout: "AC DF" },
+      { rows: [5, 8], cabin: "premium", layout: "ABC DEF" },
+      { rows: [9, 32], cabin: "economy", layout: "ABC DEF" },
+    ],
+    blockedSeats: [],
+  },
+  "E195": {
+    aircraft: "E195",
+    rows: [
+      { rows: [1, 3], cabin: "business", layout: "A CD" },
+      { rows: [4, 28], cabin: "economy", layout: "AC DF" },
+    ],
+    blockedSeats: ["28A"],
+  },
+  "A330-200": {
+    aircraft: "A330-200",
+    rows: [
+      { rows: [1, 2], cabin: "first", layout: "A DG K" },
+      { rows: [3, 8], cabin: "business", layout: "AC DG HK" },
+      { rows: [9, 12], cabin: "premium", layout: "AC DEG HK" },
+      { rows: [13, 40], cabin: "economy", layout: "AC DEFG HK" },
+    ],
+    blockedSeats: ["13D", "13G"],
+  },
+};
+
+/** Seat map used for flights whose aircraft is not set or not known. */
+export const DEFAULT_AIRCRAFT = "A320";
+
+export const seatMapFor = (aircraft: string | null | undefined): SeatMapDefinition =>
+  SEAT_MAPS[aircraft ?? ""] ?? SEAT_MAPS[DEFAULT_AIRCRAFT];
+
+/**
+ * Aircraft for a new flight that must offer every cabin in `cabins`: the
+ * default aircraft when it has them all, otherwise the first one that does.
+ */
+export const aircraftWithCabins = (cabins: Iterable<TicketClass>): string => {
+  const needed = [...cabins];
+  const fits = (definition: SeatMapDefinition) =>
+    needed.every((cabin) => definition.rows.some((block) => block.cabin === cabin));
+  return [SEAT_MAPS[DEFAULT_AIRCRAFT], ...Object.values(SEAT_MAPS)].find(fits)?.aircraft ?? DEFAULT_AIRCRAFT;
+};
+
+export interface SeatMapSeat {
+  seat: string;
+  row: number;
+  letter: string;
+  /** Position in the row, ignoring aisles */
+  column: number;
+  cabin: TicketClass;
+  blocked: boolean;
+}
+
+export interface SeatMapRow {
+  row: number;
+  cabin: TicketClass;
+  /** Seats from window to window; null marks an aisle */
+  seats: (SeatMapSeat | null)[];
+}
+
+/**
+ * Expands a seat map definition into its rows of seats.
+ */
+export const buildSeatRows = (definition: SeatMapDefinition): SeatMapRow[] => {
+  const blocked = new Set(definition.blockedSeats);
+  const rows: SeatMapRow[] = [];
+
+  for (const block of definition.rows) {
+    for (let row = block.rows[0]; row <= block.rows[1]; row++) {
+      rows.push({
+        row,
+        cabin: block.cabin,
+        seats: [...block.layout].map((letter) =>
+          letter === " " ? null : {
+            seat: `${row}${letter}`,
+            row,
+            letter,
+            column: block.layout.replaceAll(" ", "").indexOf(letter),
+            cabin: block.cabin,
+            blocked: blocked.has(`${row}${letter}`),
+          }
+        ),
+      });
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Every seat of a seat map, front to back and window to window.
+ */
+export const listSeats = (definition: SeatMapDefinition): SeatMapSeat[] =>
+  buildSeatRows(definition).flatMap(({ seats }) =>
+    seats.filter((seat): seat is SeatMapSeat => seat !== null)
+  );
+
+/**
+ * Picks seats for groups of passengers who should sit together.
+ *
+ * Groups are seated largest first. Each group gets the first row with
+ * enough adjacent free seats (aisles do not break adjacency, so a family
+ * of four can take a 2-2 row); when no row fits, it takes the first free
+ * seats in order, which keeps it in consecutive rows. Returns the seat for
+ * each passenger id; passengers left out did not fit.
+ */
+export const allocateSeats = (
+  freeSeats: SeatMapSeat[],
+  groups: number[][],
+): Map<number, string> => {
+  const assignments = new Map<number, string>();
+  const free = [...freeSeats];
+
+  const take = (seats: SeatMapSeat[], passengerIds: number[]) => {
+    passengerIds.forEach((passengerId, index) => {
+      assignments.set(passengerId, seats[index].seat);
+      free.splice(free.indexOf(seats[index]), 1);
+    });
+  };
+
+  for (const group of [...groups].sort((a, b) => b.length - a.length)) {
+    if (free.length === 0) break;
+
+    const sameRow = findAdjacentSeats(free, group.length);
+    if (sameRow) {
+      take(sameRow, group);
+    } else {
+      const seats = free.slice(0, group.length);
+      take(seats, group.slice(0, seats.length));
+    }
+  }
+
+  return assignments;
+};
+
+const findAdjacentSeats = (free: SeatMapSeat[], count: number): SeatMapSeat[] | null => {
+  for (let start = 0; start + count <= free.length; start++) {
+    const candidate = free.slice(start, start + count);
+    const adjacent = candidate.every((seat, index) =>
+      index === 0 ||
+      (seat.row === candidate[0].row && seat.column === candidate[index - 1].column + 1)
+    );
+    if (adjacent) {
+      return candidate;
+    }
+  }
+  return null;
+};
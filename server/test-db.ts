@@ -0,0 +1,47 @@
+/**
+ * In-memory stand-in for the workspace database, for tests.
+ *
+ * `DATABASES_RUN_SQL` runs statements on sql.js and enforces the D1
+ * limits the tools must live with: at most 100 bound parameters per
+ * statement, no BEGIN/COMMIT/ROLLBACK, and rows returned as objects keyed
+ * by column name, so a select with two columns of the same name (which
+ * D1 collapses silently) fails instead.
+ */
+import initSqlJs, { type SqlValue } from "sql.js";
+import type { Env } from "./main.ts";
+
+export const MAX_SQL_PARAMETERS = 100;
+
+export const createTestEnv = async () => {
+  const SQL = await initSqlJs();
+  const sqlite = new SQL.Database();
+  sqlite.run("PRAGMA foreign_keys = ON");
+
+  const DATABASES_RUN_SQL = async ({ sql, params = [] }: { sql: string; params?: unknown[] }) => {
+    if (params.length > MAX_SQL_PARAMETERS) {
+      throw new Error(`too many SQL variables (${params.length}): ${sql}`);
+    }
+    if (/^\s*(begin|commit|rollback|savepoint)\b/i.test(sql)) {
+      throw new Error(`transactions are not supported: ${sql}`);
+    }
+
+    const results = sqlite.exec(sql, params as SqlValue[]);
+    const last = results[results.length - 1];
+    const duplicates = last?.columns.filter((column, index) => last.columns.indexOf(column) !== index) ?? [];
+    if (duplicates.length > 0) {
+      throw new Error(`duplicate column names (${duplicates.join(", ")}): ${sql}`);
+    }
+
+    const rows = last
+      ? last.values.map((values) => Object.fromEntries(last.columns.map((column, index) => [column, values[index]])))
+      : [];
+    return { result: [{ results: rows, success: true, meta: { changes: sqlite.getRowsModified() } }] };
+  };
+
+  const env = {
+    DECO_CHAT_WORKSPACE_API: { DATABASES_RUN_SQL },
+    DECO_CHAT_REQUEST_CONTEXT: { ensureAuthenticated: () => null },
+  } as unknown as Env;
+
+  return { env, sqlite };
+};
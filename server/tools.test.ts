@@ -0,0 +1,637 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestEnv } from "./test-db.ts";
+import type { Env } from "./main.ts";
+import {
+  createAssignSeatTool,
+  createCancelAndRefundTool,
+  createChangeBookingStatusTool,
+  createClearDatabaseTool,
+  createCreatePassengerTool,
+  createDeletePassengerTool,
+  createGetBookingStatusHistoryTool,
+  createGetPassengerTool,
+  createGetPassengersTool,
+  createGetPaymentsTool,
+  createGetWaitlistHistoryTool,
+  createImportPassengersFromCSVTool,
+  createJoinWaitlistTool,
+  createPopulateTestDataTool,
+  createSetFlightCapacityTool,
+  createUpdatePassengerTool,
+} from "./tools.ts";
+
+// Tools only read `context` from their execution context
+const run = <T>(tool: { execute?: (context: any) => Promise<T> }, context: object): Promise<T> =>
+  tool.execute!({ context });
+
+let env: Env;
+let sqlite: Awaited<ReturnType<typeof createTestEnv>>["sqlite"];
+
+beforeEach(async () => {
+  ({ env, sqlite } = await createTestEnv());
+});
+
+describe("GET_PASSENGERS", () => {
+  const getPassengers = (context: object) => run(createGetPassengersTool(env), context);
+
+  const readAllPages = async (context: object) => {
+    const passengers: { id: number; lastName: string; ticketClass: string }[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getPassengers({ ...context, cursor });
+      passengers.push(...page.passengers);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return passengers;
+  };
+
+  beforeEach(async () => {
+    await run(createPopulateTestDataTool(env), {});
+  });
+
+  it("pages through every passenger exactly once, in sort order", async () => {
+    const { totalCount } = await getPassengers({ limit: 1 });
+    const passengers = await readAllPages({ sortBy: "lastName", sortDirection: "desc", limit: 7 });
+    const lastNames = passengers.map((passenger) => passenger.lastName);
+
+    expect(new Set(passengers.map((passenger) => passenger.id)).size).toBe(totalCount);
+    expect(passengers).toHaveLength(totalCount);
+    expect(lastNames).toEqual([...lastNames].sort().reverse());
+  });
+
+  it("breaks ties between equal sort values by id", async () => {
+    const passengers = await readAllPages({ sortBy: "ticketClass", limit: 10 });
+
+    passengers.slice(1).forEach((passenger, index) => {
+      const previous = passengers[index];
+      expect(passenger.ticketClass >= previous.ticketClass).toBe(true);
+      if (passenger.ticketClass === previous.ticketClass) {
+        expect(passenger.id).toBeGreaterThan(previous.id);
+      }
+    });
+  });
+
+  it("keeps the filters while paging and counts every match", async () => {
+    const first = await getPassengers({ ticketClass: "business", limit: 3 });
+    const passengers = await readAllPages({ ticketClass: "business", limit: 3 });
+
+    expect(first.totalCount).toBeGreaterThan(3);
+    expect(passengers).toHaveLength(first.totalCount);
+    expect(passengers.every((passenger) => passenger.ticketClass === "business")).toBe(true);
+  });
+
+  it("ends with a null cursor", async () => {
+    const page = await getPassengers({ limit: 500 });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("only accepts whole page sizes from 1 to the maximum", () => {
+    const { inputSchema } = createGetPassengersTool(env);
+
+    expect(inputSchema!.safeParse({ limit: 500 }).success).toBe(true);
+    for (const limit of [0, -1, 2.5, 501]) {
+      expect(inputSchema!.safeParse({ limit }).success).toBe(false);
+    }
+  });
+
+  it("rejects a cursor from another sort order", async () => {
+    const { nextCursor } = await getPassengers({ sortBy: "lastName", limit: 2 });
+    await expect(getPassengers({ sortBy: "firstName", cursor: nextCursor, limit: 2 }))
+      .rejects.toThrow("Cursor does not match the requested sort order");
+  });
+});
+
+describe("passenger, flight and booking joins", () => {
+  it("keeps each table's columns apart when their names collide", async () => {
+    const create = (context: object) => run(createCreatePassengerTool(env), context);
+    const ana = await create({
+      firstName: "Ana", lastName: "Silva", email: "ana@example.com",
+      departureCity: "GRU", arrivalCity: "GIG", departureDate: "2030-03-01", ticketClass: "economy",
+    });
+    await create({
+      firstName: "Bruno", lastName: "Costa", email: "bruno@example.com",
+      departureCity: "BSB", arrivalCity: "SSA", departureDate: "2030-03-02", ticketClass: "business",
+    });
+    // Passenger 3, on flight 2, in booking 1
+    const carla = await create({
+      firstName: "Carla", lastName: "Souza", email: "carla@example.com",
+      departureCity: "BSB", arrivalCity: "SSA", departureDate: "2030-03-02", ticketClass: "premium",
+      recordLocator: ana.passenger!.recordLocator,
+    });
+
+    const { passenger } = await run(createGetPassengerTool(env), { id: carla.passenger!.id });
+    expect(passenger).toMatchObject({
+      id: 3,
+      firstName: "Carla",
+      flightId: 2,
+      bookingId: 1,
+      recordLocator: ana.passenger!.recordLocator,
+      ticketClass: "premium",
+      departureCity: "BSB",
+      arrivalCity: "SSA",
+      departureDate: "2030-03-02",
+    });
+
+    const { passengers } = await run(createGetPassengersTool(env), { sortBy: "id" });
+    expect(passengers.map(({ id, flightId, bookingId, arrivalCity }) => ({ id, flightId, bookingId, arrivalCity }))).toEqual([
+      { id: 1, flightId: 1, bookingId: 1, arrivalCity: "GIG" },
+      { id: 2, flightId: 2, bookingId: 2, arrivalCity: "SSA" },
+      { id: 3, flightId: 2, bookingId: 1, arrivalCity: "SSA" },
+    ]);
+  });
+});
+
+const CSV_HEADER = "firstName,lastName,email,departureCity,arrivalCity,departureDate,ticketClass";
+
+const csvOf = (rows: string[]) => [CSV_HEADER, ...rows].join("\n");
+
+const passengerRows = (count: number, route = "GRU,GIG,2030-04-01") =>
+  Array.from({ length: count }, (_, index) => `Passenger,${index + 1},p${index + 1}@example.com,${route},economy`);
+
+describe("IMPORT_PASSENGERS_FROM_CSV", () => {
+  const importCsv = (csvContent: string, options: object = {}) =>
+    run(createImportPassengersFromCSVTool(env), { csvContent, ...options });
+
+  const count = (table: string) => sqlite.exec(`select count(*) from ${table}`)[0].values[0][0];
+
+  it("writes large files in batches that fit the parameter limit", async () => {
+    const result = await importCsv(csvOf([
+      ...passengerRows(100),
+      ...passengerRows(80, "BSB,SSA,2030-04-02"),
+    ]));
+
+    expect(result).toMatchObject({ success: true, createdCount: 180, errorCount: 0 });
+    const { totalCount } = await run(createGetPassengersTool(env), { limit: 1 });
+    expect(totalCount).toBe(180);
+  });
+
+  it("writes each batch of rows in a few statements", async () => {
+    await importCsv(csvOf([]), { dryRun: true });
+    const runSql = vi.spyOn(env.DECO_CHAT_WORKSPACE_API, "DATABASES_RUN_SQL");
+
+    const days = Array.from({ length: 8 }, (_, index) => `GRU,GIG,2030-04-1${index}`);
+    const result = await importCsv(csvOf(days.flatMap((route) => passengerRows(125, route))));
+
+    expect(result).toMatchObject({ success: true, createdCount: 1000 });
+    expect(runSql.mock.calls.length).toBeLessThan(50);
+  });
+
+  it("removes everything it wrote when a row fails to write", async () => {
+    const bruno = "Bruno,Costa,bruno@example.com,GRU,GIG,2030-04-01,economy";
+    await importCsv(csvOf(["Ana,Silva,ana@example.com,GRU,GIG,2030-04-01,economy", bruno]));
+    sqlite.run(`create trigger reject_bruno before update on passengers when new.first_name = 'Bruno Carlos'
+      begin select raise(abort, 'rejected by test'); end`);
+
+    const result = await importCsv(csvOf([
+      ...passengerRows(30, "BSB,SSA,2030-04-02"),
+      "Ana Maria,Silva,ana@example.com,GRU,GIG,2030-04-01,business",
+      bruno.replace("Bruno,", "Bruno Carlos,"),
+    ]), { mode: "upsert" });
+
+    expect(result).toMatchObject({ success: false, createdCount: 0, updatedCount: 0 });
+    expect(result.message).toMatch(/^Import failed at line 33: Update failed: rejected by test\./);
+    expect(result.message).toMatch(/Nothing was imported; the rows written before it were removed\.$/);
+    expect([count("passengers"), count("bookings"), count("flights")]).toEqual([2, 2, 1]);
+    const { passenger } = await run(createGetPassengerTool(env), { id: 1 });
+    expect(passenger).toMatchObject({ firstName: "Ana", ticketClass: "economy" });
+  });
+
+  it("keeps the other rows of a failing batch with onError skip", async () => {
+    await importCsv(csvOf([]), { dryRun: true });
+    sqlite.run(`create trigger reject_p3 before insert on passengers when new.email = 'p3@example.com'
+      begin select raise(abort, 'rejected by test'); end`);
+
+    const result = await importCsv(csvOf(passengerRows(10)), { onError: "skip" });
+
+    expect(result).toMatchObject({ success: true, createdCount: 9, skippedCount: 1 });
+    expect(result.errors).toEqual([
+      { line: 4, field: "row", reason: "Insert failed: rejected by test", value: null },
+    ]);
+    expect([count("passengers"), count("bookings")]).toEqual([9, 9]);
+  });
+
+  it("reads thousands separators and decimal marks in prices", async () => {
+    const prices = ["R$ 1.200", "1.200,50", "1,200.50", "450,75", "-1.200", "1.2.3"];
+    const rows = passengerRows(prices.length).map((row, index) => `${row},"${prices[index]}"`);
+
+    const result = await importCsv(`${CSV_HEADER},price\n${rows.join("\n")}`, { onError: "skip" });
+
+    expect(result.errors).toEqual([
+      { line: 6, field: "price", reason: "Price cannot be negative", value: "-1.200" },
+      { line: 7, field: "price", reason: 'Price "1.2.3" is not a number', value: "1.2.3" },
+    ]);
+    const { passengers } = await run(createGetPassengersTool(env), {});
+    expect(passengers.map(({ price }) => price)).toEqual([1200, 1200.5, 1200.5, 450.75]);
+  });
+
+  it("imports only the remaining rows when a partly written file is re-run", async () => {
+    const rows = passengerRows(40);
+    await importCsv(csvOf(rows.slice(0, 15)));
+
+    const result = await importCsv(csvOf(rows), { mode: "skipDuplicates" });
+
+    expect(result).toMatchObject({ success: true, createdCount: 25, skippedCount: 15 });
+  });
+
+  describe("duplicate detection", () => {
+    const ana = "Ana,Silva,ana@example.com,GRU,GIG,2030-04-01,economy";
+    const bruno = "Bruno,Costa,bruno@example.com,GRU,GIG,2030-04-01,economy";
+    const anaAgain = "Ana Maria,Silva,ANA@example.com,GRU,GIG,2030-04-01,business";
+    const anaOnAnotherFlight = "Ana,Silva,ana@example.com,GRU,GIG,2030-04-02,economy";
+
+    beforeEach(async () => {
+      await importCsv(csvOf([ana]));
+    });
+
+    it("reports repeats of existing passengers and earlier rows in insert mode", async () => {
+      const result = await importCsv(csvOf([bruno, anaAgain, bruno, anaOnAnotherFlight]), { dryRun: true });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        { line: 3, field: "row", reason: "Duplicate of existing passenger #1", value: "ana@example.com" },
+        { line: 4, field: "row", reason: "Duplicate of line 2", value: "bruno@example.com" },
+      ]);
+      expect(result.createdCount).toBe(2);
+    });
+
+    it("leaves existing passengers alone and counts what it skipped with skipDuplicates", async () => {
+      const result = await importCsv(csvOf([bruno, anaAgain, bruno]), { dryRun: true, mode: "skipDuplicates" });
+
+      expect(result).toMatchObject({ success: true, createdCount: 1, updatedCount: 0, skippedCount: 2 });
+    });
+
+    it("updates the existing passenger from the last matching row with upsert", async () => {
+      const result = await importCsv(csvOf([anaAgain, ana.replace("Ana,", "Ana Clara,")]), { mode: "upsert" });
+
+      expect(result).toMatchObject({ success: true, createdCount: 0, updatedCount: 1 });
+      const { passenger } = await run(createGetPassengerTool(env), { id: 1 });
+      expect(passenger).toMatchObject({ firstName: "Ana Clara", ticketClass: "economy" });
+    });
+
+    it("reports new bookings of an email already on the flight, whatever the natural key", async () => {
+      const carla = "Carla,Dias,carla@example.com,GRU,GIG,2030-04-01,economy";
+      const result = await importCsv(csvOf([anaAgain, carla, carla.replace("Carla,", "Carla Maria,")]), {
+        dryRun: true,
+        naturalKey: ["firstName", "lastName", "flight"],
+      });
+
+      expect(result.errors).toEqual([
+        { line: 2, field: "email", reason: "ana@example.com is already booked on this flight (passenger #1)", value: "ana@example.com" },
+        { line: 4, field: "email", reason: "carla@example.com is already booked on this flight by line 3", value: "carla@example.com" },
+      ]);
+    });
+
+    it("lets a passenger whose booking was cancelled book the flight again", async () => {
+      await run(createChangeBookingStatusTool(env), { passengerId: 1, status: "cancelled" });
+
+      const imported = await importCsv(csvOf([ana]));
+      const created = await run(createCreatePassengerTool(env), {
+        firstName: "Ana",
+        lastName: "Silva",
+        email: "ana@example.com",
+        flightId: 1,
+      }).catch((error: Error) => error);
+
+      expect(imported).toMatchObject({ success: true, createdCount: 1 });
+      expect(created).toEqual(new Error("ana@example.com is already booked on flight 1 (passenger 2)"));
+    });
+
+    it("writes nothing on a dry run", async () => {
+      await importCsv(csvOf([bruno, anaOnAnotherFlight]), { dryRun: true });
+
+      const { totalCount } = await run(createGetPassengersTool(env), { limit: 1 });
+      expect(totalCount).toBe(1);
+    });
+  });
+
+  describe("cabin capacity", () => {
+    const booked = (cabin: string, count: number, route = "GRU,GIG,2030-04-01") =>
+      passengerRows(count, route).map((row) => row.replace(/economy$/, cabin));
+
+    it("puts new flights on an aircraft that has every cabin they are booked in", async () => {
+      const result = await importCsv(csvOf([...booked("economy", 2), ...booked("first", 1).map((row) => row.replace("p1@", "f1@"))]));
+
+      expect(result).toMatchObject({ success: true, createdCount: 3 });
+      const { passenger } = await run(createGetPassengerTool(env), { id: 3 });
+      expect(passenger).toMatchObject({ ticketClass: "first", aircraft: "A330-200" });
+    });
+
+    it("rejects bookings in a cabin the flight's aircraft does not have", async () => {
+      await importCsv(csvOf(booked("economy", 1)));
+
+      const result = await importCsv(csvOf(booked("first", 1).map((row) => row.replace("p1@", "f1@"))), { dryRun: true });
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ line: 2, field: "ticketClass", reason: expect.stringMatching(/\(A320\) has no first cabin$/) }),
+      ]);
+    });
+
+    it("rejects or waitlists bookings beyond a full cabin", async () => {
+      await importCsv(csvOf(booked("economy", 1)));
+      await run(createSetFlightCapacityTool(env), { flightId: 1, cabinCapacity: { economy: 2 } });
+      const rows = passengerRows(4).slice(1);
+
+      const rejected = await importCsv(csvOf(rows), { dryRun: true });
+      expect(rejected.errors).toEqual([
+        expect.objectContaining({ line: 3, reason: expect.stringMatching(/^The economy cabin of flight .* is full$/) }),
+        expect.objectContaining({ line: 4, reason: expect.stringMatching(/^The economy cabin of flight .* is full$/) }),
+      ]);
+
+      const waitlisted = await importCsv(csvOf(rows), { overCapacity: "waitlist" });
+      expect(waitlisted).toMatchObject({ success: true, createdCount: 1, waitlistedCount: 2 });
+    });
+
+    it("checks upserts that change the ticket class against the new cabin and clears their seat", async () => {
+      await importCsv(csvOf(booked("economy", 2)));
+      await run(createAssignSeatTool(env), { passengerId: 1, seat: "10A" });
+      await run(createSetFlightCapacityTool(env), { flightId: 1, cabinCapacity: { business: 1 } });
+
+      const result = await importCsv(csvOf(booked("business", 2)), { mode: "upsert" });
+      expect(result.errors).toEqual([
+        expect.objectContaining({ line: 3, field: "ticketClass", reason: expect.stringMatching(/^The business cabin of flight .* is full$/) }),
+      ]);
+
+      const moved = await importCsv(csvOf(booked("business", 1)), { mode: "upsert" });
+      expect(moved).toMatchObject({ success: true, updatedCount: 1 });
+      const { passenger } = await run(createGetPassengerTool(env), { id: 1 });
+      expect(passenger).toMatchObject({ ticketClass: "business", seat: null });
+    });
+  });
+});
+
+describe("SET_FLIGHT_CAPACITY", () => {
+  beforeEach(async () => {
+    await run(createImportPassengersFromCSVTool(env), { csvContent: csvOf(passengerRows(3)) });
+  });
+
+  it("rejects a capacity below the bookings a cabin holds", async () => {
+    const lowered = await run(createSetFlightCapacityTool(env), { flightId: 1, cabinCapacity: { economy: 2 } })
+      .catch((error: Error) => error);
+
+    expect(lowered).toEqual(new Error("Flight BR0001 economy cabin has 3 bookings, more than the new limit of 2"));
+    const { cabins } = await run(createSetFlightCapacityTool(env), { flightId: 1, overbookingPercent: 50, cabinCapacity: { economy: 2 } });
+    expect(cabins).toContainEqual(expect.objectContaining({ cabin: "economy", capacity: 2, limit: 3, booked: 3 }));
+  });
+
+  it("clears seats the new aircraft does not have in the passenger's cabin", async () => {
+    await run(createAssignSeatTool(env), { passengerId: 1, seat: "10A" });
+    await run(createAssignSeatTool(env), { passengerId: 2, seat: "10B" });
+
+    const result = await run(createSetFlightCapacityTool(env), { flightId: 1, aircraft: "E195" });
+
+    expect(result.clearedSeats).toEqual([{ passengerId: 2, seat: "10B" }]);
+    const seats = await Promise.all([1, 2].map(async (id) => (await run(createGetPassengerTool(env), { id })).passenger.seat));
+    expect(seats).toEqual(["10A", null]);
+  });
+});
+
+describe("waitlist promotion", () => {
+  const promotions = async () =>
+    (await run(createGetWaitlistHistoryTool(env), { flightId: 1 })).history
+      .filter(({ action }) => action === "promoted")
+      .map(({ email, passengerId, reason }) => ({ email, passengerId, reason }));
+
+  const statusHistory = async (passengerId: number) =>
+    (await run(createGetBookingStatusHistoryTool(env), { passengerId })).history
+      .map(({ fromStatus, toStatus, reason }) => ({ fromStatus, toStatus, reason }));
+
+  beforeEach(async () => {
+    await run(createImportPassengersFromCSVTool(env), {
+      csvContent: csvOf([...passengerRows(2), "Passenger,3,p3@example.com,GRU,GIG,2030-04-02,economy"]),
+    });
+    await run(createSetFlightCapacityTool(env), { flightId: 1, cabinCapacity: { economy: 2 } });
+    await run(createJoinWaitlistTool(env), {
+      firstName: "Carla", lastName: "Dias", email: "carla@example.com", flightId: 1,
+    });
+  });
+
+  it("books the next waiting passenger when UPDATE_PASSENGER moves a booking to another cabin", async () => {
+    const { promoted } = await run(createUpdatePassengerTool(env), { id: 1, ticketClass: "business" });
+
+    expect(promoted).toEqual([expect.objectContaining({ email: "carla@example.com", status: "promoted", passengerId: 4 })]);
+    expect(await promotions()).toEqual([
+      { email: "carla@example.com", passengerId: 4, reason: "Passenger 1 moved to another cabin" },
+    ]);
+    expect(await statusHistory(4)).toEqual([
+      { fromStatus: null, toStatus: "confirmed", reason: "Promoted from the waitlist (entry 1)" },
+    ]);
+  });
+
+  it("books the next waiting passenger when UPDATE_PASSENGER moves a booking to another flight", async () => {
+    const { promoted } = await run(createUpdatePassengerTool(env), { id: 1, flightId: 2 });
+
+    expect(promoted).toHaveLength(1);
+    expect(await promotions()).toEqual([
+      { email: "carla@example.com", passengerId: 4, reason: "Passenger 1 moved to another flight" },
+    ]);
+  });
+
+  it("books the next waiting passenger when DELETE_PASSENGER removes an active booking", async () => {
+    const { promoted } = await run(createDeletePassengerTool(env), { id: 2 });
+
+    expect(promoted).toHaveLength(1);
+    expect(await promotions()).toEqual([
+      { email: "carla@example.com", passengerId: 4, reason: "Passenger 2 deleted" },
+    ]);
+  });
+
+  it("books the next waiting passenger when an import upsert cancels a booking", async () => {
+    const result = await run(createImportPassengersFromCSVTool(env), {
+      csvContent: `${CSV_HEADER},status\nPassenger,1,p1@example.com,GRU,GIG,2030-04-01,economy,cancelled`,
+      mode: "upsert",
+    });
+
+    expect(result).toMatchObject({ success: true, updatedCount: 1, promotedCount: 1 });
+    expect(await promotions()).toEqual([
+      { email: "carla@example.com", passengerId: 4, reason: "Place freed by CSV import" },
+    ]);
+    expect(await statusHistory(1)).toEqual([
+      { fromStatus: null, toStatus: "confirmed", reason: "Imported from CSV" },
+      { fromStatus: "confirmed", toStatus: "cancelled", reason: "Updated by CSV import" },
+    ]);
+  });
+
+  it("promotes a waiting passenger whose earlier booking on the flight was cancelled", async () => {
+    await run(createChangeBookingStatusTool(env), { passengerId: 1, status: "cancelled" });
+    await run(createJoinWaitlistTool(env), {
+      firstName: "Passenger", lastName: "1", email: "p1@example.com", flightId: 1,
+    });
+    await run(createChangeBookingStatusTool(env), { passengerId: 4, status: "cancelled" });
+
+    expect(await promotions()).toEqual([
+      { email: "carla@example.com", passengerId: 4, reason: "Passenger 1 cancelled" },
+      { email: "p1@example.com", passengerId: 5, reason: "Passenger 4 cancelled" },
+    ]);
+  });
+});
+
+describe("data fixes", () => {
+  it("gives passengers booked before bookings existed a booking each", async () => {
+    await run(createImportPassengersFromCSVTool(env), { csvContent: csvOf(passengerRows(3)) });
+    sqlite.run("update passengers set booking_id = null; delete from bookings; delete from data_fixes");
+
+    const passengers = await Promise.all([1, 2, 3].map(async (id) => (await run(createGetPassengerTool(env), { id })).passenger));
+
+    const locators = passengers.map(({ recordLocator }) => recordLocator);
+    expect(new Set(locators).size).toBe(3);
+    for (const locator of locators) expect(locator).toMatch(/^[A-Z2-9]{6}$/);
+    expect(sqlite.exec("select name from data_fixes where name = '0011_backfill_bookings'")[0].values).toHaveLength(1);
+  });
+
+  it("resolves flight cities again ignoring accents and records the ones that match no airport once", async () => {
+    await run(createGetPassengersTool(env), { limit: 1 });
+    sqlite.run(`insert into flights (id, flight_number, origin, destination, scheduled_departure)
+      values (1, 'BR0001', 'Sao Paulo', 'Atlantis', '2030-04-01'), (2, 'BR0002', 'GIG', 'Brasilia', '2030-04-01')`);
+
+    for (let i = 0; i < 2; i++) {
+      sqlite.run("delete from data_fixes");
+      await run(createGetPassengersTool(env), { limit: 1 });
+    }
+
+    expect(sqlite.exec("select origin, destination from flights order by id")[0].values).toEqual([
+      ["GRU", "Atlantis"],
+      ["GIG", "BSB"],
+    ]);
+    expect(sqlite.exec("select row_id, column_name, value, reason from data_migration_issues")[0].values).toEqual([
+      [1, "destination", "Atlantis", "Not a known airport or city"],
+    ]);
+  });
+});
+
+describe("POPULATE_TEST_DATA", () => {
+  it("reports sample passengers already loaded when run twice", async () => {
+    const first = await run(createPopulateTestDataTool(env), {});
+    const again = await run(createPopulateTestDataTool(env), {});
+
+    expect(first).toMatchObject({ success: true, importedCount: 125, alreadyPresentCount: 0, errors: [] });
+    expect(again).toMatchObject({ success: true, importedCount: 0, alreadyPresentCount: 125, errors: [] });
+  });
+});
+
+describe("booking status history", () => {
+  const history = async (passengerId: number) =>
+    (await run(createGetBookingStatusHistoryTool(env), { passengerId })).history
+      .map(({ fromStatus, toStatus, reason }) => ({ fromStatus, toStatus, reason }));
+
+  it("starts with the status each passenger was booked with", async () => {
+    await run(createCreatePassengerTool(env), {
+      firstName: "Ana", lastName: "Silva", email: "ana@example.com",
+      departureCity: "GRU", arrivalCity: "GIG", departureDate: "2030-03-01", status: "pending",
+    });
+    await run(createImportPassengersFromCSVTool(env), { csvContent: csvOf(passengerRows(1)) });
+
+    expect(await history(1)).toEqual([{ fromStatus: null, toStatus: "pending", reason: "Booked" }]);
+    expect(await history(2)).toEqual([{ fromStatus: null, toStatus: "confirmed", reason: "Imported from CSV" }]);
+  });
+
+  it("keeps the history of a deleted passenger", async () => {
+    await run(createImportPassengersFromCSVTool(env), { csvContent: csvOf(passengerRows(1)) });
+    await run(createChangeBookingStatusTool(env), { passengerId: 1, status: "cancelled", reason: "Changed plans" });
+
+    await run(createDeletePassengerTool(env), { id: 1 });
+
+    expect(sqlite.exec("select passenger_id, to_status, reason from booking_status_history order by id")[0].values).toEqual([
+      [null, "confirmed", "Imported from CSV"],
+      [null, "cancelled", "Changed plans"],
+    ]);
+  });
+});
+
+describe("CANCEL_AND_REFUND", () => {
+  const cancelAndRefund = (context: object) => run(createCancelAndRefundTool(env), context);
+  const ledger = () => sqlite.exec("SELECT passenger_id, kind, amount_cents FROM payments ORDER BY id")[0]?.values ?? [];
+
+  let recordLocator: string;
+
+  beforeEach(async () => {
+    const create = (context: object) => run(createCreatePassengerTool(env), context);
+    const ana = await create({
+      firstName: "Ana", lastName: "Silva", email: "ana@example.com",
+      departureCity: "GRU", arrivalCity: "GIG", departureDate: "2030-05-01", ticketClass: "economy", price: 500,
+    });
+    recordLocator = ana.passenger!.recordLocator!;
+    await create({
+      firstName: "Bruno", lastName: "Silva", email: "bruno@example.com",
+      flightId: ana.passenger!.flightId, ticketClass: "business", price: 900, recordLocator,
+    });
+  });
+
+  it("refunds each passenger of a booking minus the cabin's fee", async () => {
+    const result = await cancelAndRefund({ recordLocator });
+
+    expect(result.refunds).toEqual([
+      expect.objectContaining({ passengerId: 1, paid: 500, penalty: 150, refund: 350, status: "refunded" }),
+      expect.objectContaining({ passengerId: 2, paid: 900, penalty: 90, refund: 810, status: "refunded" }),
+    ]);
+    expect(result.alreadyRefunded).toEqual([]);
+  });
+
+  it("leaves passengers already refunded alone when called again", async () => {
+    await cancelAndRefund({ passengerId: 1 });
+    const entries = ledger();
+
+    const result = await cancelAndRefund({ recordLocator });
+
+    expect(result.alreadyRefunded).toEqual([{ passengerId: 1, currency: "BRL", refunded: 350 }]);
+    expect(result.refunds.map((refund) => refund.passengerId)).toEqual([2]);
+    expect(ledger().slice(0, entries.length)).toEqual(entries);
+    expect(ledger()).toHaveLength(entries.length + 2);
+  });
+
+  it("finishes a refund that stopped before the status change without paying twice", async () => {
+    await cancelAndRefund({ passengerId: 1 });
+    const entries = ledger();
+    sqlite.run("UPDATE passengers SET status = 'cancelled' WHERE id = 1");
+
+    const result = await cancelAndRefund({ passengerId: 1 });
+
+    expect(result).toMatchObject({ refunds: [], alreadyRefunded: [{ passengerId: 1, refunded: 350 }] });
+    expect(ledger()).toEqual(entries);
+    const { passenger } = await run(createGetPassengerTool(env), { id: 1 });
+    expect(passenger.status).toBe("refunded");
+  });
+
+  it("checks every cabin's fare rule before changing anything", async () => {
+    sqlite.run("DELETE FROM fare_rules WHERE cabin = 'business'");
+
+    await expect(cancelAndRefund({ recordLocator })).rejects.toThrow("No fare rule for the business cabin");
+
+    const { passengers } = await run(createGetPassengersTool(env), {});
+    expect(passengers.map((passenger) => passenger.status)).toEqual(["confirmed", "confirmed"]);
+    const { totals } = await run(createGetPaymentsTool(env), { passengerId: 1 });
+    expect(totals).toMatchObject({ refunded: 0, fees: 0 });
+  });
+});
+
+describe("DELETE_PASSENGER", () => {
+  it("deletes recorded payments only when asked to", async () => {
+    await run(createCreatePassengerTool(env), {
+      firstName: "Ana", lastName: "Silva", email: "ana@example.com",
+      departureCity: "GRU", arrivalCity: "GIG", departureDate: "2030-05-01", price: 500,
+    });
+
+    await expect(run(createDeletePassengerTool(env), { id: 1 })).rejects.toThrow(
+      `Passenger 1 has 1 payments ledger entries that deleting would remove; use CANCEL_AND_REFUND`,
+    );
+    const { totals } = await run(createGetPaymentsTool(env), { passengerId: 1 });
+    expect(totals).toMatchObject({ charged: 500 });
+
+    const deleted = await run(createDeletePassengerTool(env), { id: 1, deletePayments: true });
+    expect(deleted).toMatchObject({ success: true, deletedId: 1, deletedPaymentsCount: 1 });
+  });
+});
+
+describe("CLEAR_DATABASE", () => {
+  it("deletes recorded payments only when asked to", async () => {
+    await run(createCreatePassengerTool(env), {
+      firstName: "Ana", lastName: "Silva", email: "ana@example.com",
+      departureCity: "GRU", arrivalCity: "GIG", departureDate: "2030-05-01", price: 500,
+    });
+
+    const refused = await run(createClearDatabaseTool(env), {});
+    expect(refused).toMatchObject({ success: false, deletedCount: 0, deletedPaymentsCount: 0 });
+
+    const cleared = await run(createClearDatabaseTool(env), { deletePayments: true });
+    expect(cleared).toMatchObject({ success: true, deletedCount: 1, deletedPaymentsCount: 1 });
+  });
+});
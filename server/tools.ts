@@ -11,9 +11,65 @@
 import { createPrivateTool, createTool } from "@deco/workers-runtime/mastra";
 import { z } from "zod";
 import type { Env } from "./main.ts";
-import { todosTable , passengersTable } from "./schema.ts";
+import {
+  todosTable,
+  airportsTable,
+  bookingsTable,
+  passengersTable,
+  flightsTable,
+  flightCabinCapacityTable,
+  itinerarySegmentsTable,
+  waitlistTable,
+  waitlistHistoryTable,
+  bookingStatusHistoryTable,
+  dataMigrationIssuesTable,
+  exchangeRatesTable,
+  fareRulesTable,
+  fareAdjustmentsTable,
+  paymentsTable,
+  BOOKING_STATUSES,
+  type BookingStatus,
+  FARE_ADJUSTMENT_KINDS,
+  PAYMENT_KINDS,
+  TICKET_CLASSES,
+  type TicketClass,
+  WAITLIST_ACTIONS,
+  WAITLIST_STATUSES,
+} from "./schema.ts";
 import { getDb } from "./db.ts";
-import { eq } from "drizzle-orm";
+import { BULK_WRITE_BATCH_SIZE, chunk, createBookings, inJsonList, insertMany, updateMany } from "./bulk.ts";
+import { resolveAirport, searchAirports } from "./airports.ts";
+import { parseCSV } from "./csv.ts";
+import { BASE_CURRENCY, CURRENCY_CODE, DEFAULT_CURRENCY, formatCents, fromCents, toCents } from "./money.ts";
+import {
+  assertTransition,
+  BOOKING_STATUS_TRANSITIONS,
+  canTransition,
+  INACTIVE_BOOKING_STATUSES,
+  INITIAL_BOOKING_STATUSES,
+} from "./booking-status.ts";
+import { aircraftWithCabins, allocateSeats, buildSeatRows, DEFAULT_AIRCRAFT, listSeats, SEAT_MAPS, seatMapFor } from "./seat-maps.ts";
+import { normalizeRecordLocator, RECORD_LOCATOR_PATTERN } from "./record-locator.ts";
+import { daysBetween, layoverMinutes, MAX_ITINERARY_LEGS, MIN_CONNECTION_MINUTES, validateItinerary } from "./itinerary.ts";
+import { cancellationPenalty, CENTS_PER_KM_DECIMALS, fromCentsPerKm, quoteFare, toCentsPerKm } from "./fares.ts";
+import {
+  DISTANCE_TOLERANCE_PERCENT,
+  estimateBlockMinutes,
+  greatCircleDistanceKm,
+  median,
+  scheduledBlockMinutes,
+} from "./routes.ts";
+import {
+  checkDistances,
+  type DistanceWarning,
+  mapRecord,
+  PASSENGER_IMPORT_FIELDS,
+  type PassengerImport,
+  resolveColumnMapping,
+  type RowValidationError,
+  validatePassengerRows,
+} from "./passenger-import.ts";
+import { and, asc, desc, eq, getTableColumns, gt, inArray, isNotNull, lt, not, or, SQL, sql, type Table } from "drizzle-orm";
 
 /**
  * `createPrivateTool` is a wrapper around `createTool` that
@@ -214,108 +270,3335 @@ export const createDeleteTodoTool = (env: Env) =>
     },
   });
 
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Sortable columns for GET_PASSENGERS. Nullable columns are coalesced so
+ * keyset pagination can compare values without special-casing NULLs.
+ */
+const PASSENGER_SORT_COLUMNS = {
+  id: sql`${passengersTable.id}`,
+  firstName: sql`coalesce(${passengersTable.firstName}, '')`,
+  lastName: sql`coalesce(${passengersTable.lastName}, '')`,
+  email: sql`coalesce(${passengersTable.email}, '')`,
+  status: sql`${passengersTable.status}`,
+  ticketClass: sql`${passengersTable.ticketClass}`,
+  price: sql`coalesce(${passengersTable.priceCents}, 0)`,
+  createdAt: sql`coalesce(${passengersTable.createdAt}, '')`,
+  flightNumber: sql`coalesce(${flightsTable.flightNumber}, '')`,
+  departureDate: sql`coalesce(${flightsTable.scheduledDeparture}, '')`,
+} as const;
+
+type PassengerSortBy = keyof typeof PASSENGER_SORT_COLUMNS;
+
+const PASSENGER_SORT_KEYS = Object.keys(PASSENGER_SORT_COLUMNS) as [PassengerSortBy, ...PassengerSortBy[]];
+
+type PassengerCursor = {
+  sortBy: PassengerSortBy;
+  sortDirection: "asc" | "desc";
+  value: string | number;
+  id: number;
+};
+
+const encodeCursor = (cursor: PassengerCursor): string =>
+  btoa(encodeURIComponent(JSON.stringify(cursor)));
+
+const decodeCursor = (cursor: string): PassengerCursor => {
+  try {
+    return JSON.parse(decodeURIComponent(atob(cursor)));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+};
+
+/**
+ * Filters accepted by every tool that lists or aggregates passengers, so
+ * they all describe the same set of passengers.
+ */
+const passengerFiltersSchema = z.object({
+  flightNumber: z.string().optional().describe("Filter by flight number"),
+  departureCity: z.string().optional().describe("Filter by departure city"),
+  arrivalCity: z.string().optional().describe("Filter by arrival city"),
+  ticketClass: z.enum(TICKET_CLASSES).optional().describe("Filter by ticket class"),
+  status: z.enum(BOOKING_STATUSES).optional().describe("Filter by booking status"),
+  recordLocator: z.string().optional().describe("Filter by booking record locator"),
+  finalDestination: z.string().optional().describe("Filter by the city where the passenger's itinerary ends"),
+  connectionAirport: z.string().optional().describe("Filter by a city the passenger's itinerary connects through"),
+});
+
+type AirportRow = typeof airportsTable.$inferSelect;
+
+const airportsByDb = new WeakMap<object, Promise<AirportRow[]>>();
+
+/**
+ * Every airport in the `airports` table, in the order city names resolve
+ * to them. Read once per database handle, i.e. once per tool call.
+ */
+const getAirports = (db: any): Promise<AirportRow[]> => {
+  let airports = airportsByDb.get(db);
+  if (!airports) {
+    airports = Promise.resolve(db.select().from(airportsTable).orderBy(asc(airportsTable.id)));
+    airportsByDb.set(db, airports);
+  }
+  return airports;
+};
+
+/**
+ * The IATA code of the airport a city or code filter refers to. Values that
+ * are not a known airport are compared as typed.
+ */
+const toAirportFilter = (value: string, airports: AirportRow[]): string =>
+  resolveAirport(value, airports)?.iataCode ?? value;
+
+/**
+ * Builds the SQL conditions for the passenger filters shared by the
+ * passenger tools. Empty strings are treated as "no filter"; cities match
+ * accent-insensitively through their airport.
+ */
+const buildPassengerFilters = (filters: z.infer<typeof passengerFiltersSchema>, airports: AirportRow[]): SQL[] => {
+  const conditions: SQL[] = [];
+
+  if (filters.flightNumber) {
+    conditions.push(eq(flightsTable.flightNumber, filters.flightNumber));
+  }
+  if (filters.departureCity) {
+    conditions.push(eq(flightsTable.origin, toAirportFilter(filters.departureCity, airports)));
+  }
+  if (filters.arrivalCity) {
+    conditions.push(eq(flightsTable.destination, toAirportFilter(filters.arrivalCity, airports)));
+  }
+  if (filters.ticketClass) {
+    conditions.push(eq(passengersTable.ticketClass, filters.ticketClass));
+  }
+  if (filters.status) {
+    conditions.push(eq(passengersTable.status, filters.status));
+  }
+  if (filters.recordLocator) {
+    conditions.push(eq(bookingsTable.recordLocator, normalizeRecordLocator(filters.recordLocator)));
+  }
+  // Where the trip ends: the last leg of the booking's itinerary, or the
+  // passenger's own flight when the booking has no itinerary
+  if (filters.finalDestination) {
+    conditions.push(sql`coalesce(
+      (select final_flight.destination
+        from itinerary_segments final_segment
+        join flights final_flight on final_flight.id = final_segment.flight_id
+        where final_segment.booking_id = ${passengersTable.bookingId}
+        order by final_segment.sequence desc
+        limit 1),
+      ${flightsTable.destination}
+    ) = ${toAirportFilter(filters.finalDestination, airports)}`);
+  }
+  // Any city the itinerary changes planes in, i.e. where a leg other than the last arrives
+  if (filters.connectionAirport) {
+    conditions.push(sql`exists (
+      select 1
+        from itinerary_segments connection_segment
+        join flights connection_flight on connection_flight.id = connection_segment.flight_id
+        where connection_segment.booking_id = ${passengersTable.bookingId}
+          and connection_flight.destination = ${toAirportFilter(filters.connectionAirport, airports)}
+          and connection_segment.sequence < (
+            select max(last_segment.sequence)
+              from itinerary_segments last_segment
+              where last_segment.booking_id = connection_segment.booking_id
+          )
+    )`);
+  }
+
+  return conditions;
+};
+
+/**
+ * A passenger joined with their flight, normalized to match CSV columns.
+ */
+const passengerSchema = z.object({
+  id: z.number(),
+  firstName: z.string(),
+  lastName: z.string(),
+  phone: z.string().nullable(),
+  flightId: z.number().nullable(),
+  flightNumber: z.string(),
+  aircraft: z.string().nullable(),
+  ticketClass: z.enum(TICKET_CLASSES),
+  price: z.number().nullable().describe("Fare in `currency`"),
+  currency: z.string(),
+  status: z.enum(BOOKING_STATUSES),
+  nextStatuses: z.array(z.enum(BOOKING_STATUSES)).describe("Statuses the booking can move to"),
+  seat: z.string().nullable(),
+  bookingId: z.number().nullable(),
+  recordLocator: z.string().nullable().describe("Record locator of the booking the passenger belongs to"),
+  createdAt: z.string().nullable(),
+  email: z.string(),
+  nationality: z.string(),
+  dateOfBirth: z.string(),
+  departureCity: z.string(),
+  arrivalCity: z.string(),
+  departureDate: z.string(),
+  arrivalDate: z.string().nullable(),
+  distance: z.number().nullable().describe("Route distance in kilometers"),
+  flightCost: z.string().describe("Fare with two decimals, as in CSV files"),
+});
+
+/**
+ * Every column of `table`, aliased `<prefix>_<column>` in the SQL. The
+ * runtime's driver keys result rows by column name, so joined tables whose
+ * columns share a name (`id`, `created_at`) would overwrite each other.
+ */
+const aliasedColumns = <T extends Table>(table: T, prefix: string) =>
+  Object.fromEntries(
+    Object.entries(getTableColumns(table)).map(([key, column]) =>
+      [key, sql`${column}`.mapWith(column).as(`${prefix}_${column.name}`)]
+    ),
+  ) as { [K in keyof T["$inferSelect"]]: SQL.Aliased<T["$inferSelect"][K]> };
+
+/**
+ * Selects a passenger with their flight and booking; map the rows with
+ * `fromPassengerJoin`.
+ */
+const passengerJoinColumns = {
+  passenger: aliasedColumns(passengersTable, "passenger"),
+  flight: aliasedColumns(flightsTable, "flight"),
+  booking: aliasedColumns(bookingsTable, "booking"),
+};
+
+type PassengerJoin = {
+  passenger: typeof passengersTable.$inferSelect;
+  flight: typeof flightsTable.$inferSelect | null;
+  booking: typeof bookingsTable.$inferSelect | null;
+};
+
+/**
+ * A row selected with `passengerJoinColumns`. A passenger without a flight
+ * or booking comes back with all of its columns NULL.
+ */
+const fromPassengerJoin = (
+  row: { passenger: PassengerJoin["passenger"]; flight: Record<string, unknown>; booking: Record<string, unknown> },
+): PassengerJoin => ({
+  passenger: row.passenger,
+  flight: row.flight.id === null ? null : row.flight as PassengerJoin["flight"],
+  booking: row.booking.id === null ? null : row.booking as PassengerJoin["booking"],
+});
+
+const toPassengerOutput = (
+  { passenger, flight, booking }: PassengerJoin,
+): z.infer<typeof passengerSchema> => ({
+  id: passenger.id,
+  firstName: passenger.firstName || '',
+  lastName: passenger.lastName || '',
+  email: passenger.email || '',
+  phone: passenger.phone,
+  nationality: passenger.nationality || '',
+  dateOfBirth: passenger.dateOfBirth || '',
+  flightId: passenger.flightId,
+  flightNumber: flight?.flightNumber || '',
+  aircraft: flight?.aircraft ?? null,
+  departureCity: flight?.origin || '',
+  arrivalCity: flight?.destination || '',
+  departureDate: flight?.scheduledDeparture || '',
+  arrivalDate: flight?.scheduledArrival ?? null,
+  distance: flight?.distanceKm ?? null,
+  ticketClass: passenger.ticketClass,
+  price: passenger.priceCents === null ? null : fromCents(passenger.priceCents),
+  currency: passenger.currency,
+  flightCost: passenger.priceCents === null ? '' : formatCents(passenger.priceCents),
+  status: passenger.status,
+  nextStatuses: BOOKING_STATUS_TRANSITIONS[passenger.status],
+  seat: passenger.seat,
+  bookingId: passenger.bookingId,
+  recordLocator: booking?.recordLocator ?? null,
+  createdAt: passenger.createdAt,
+});
+
 export const createGetPassengersTool = (env: Env) =>
   createTool({
-    id: "GET_PASSENGERS",
-    description: "Get all passengers from the database with optional filtering",
+    id: "GET_PASSENGERS",
+    description: "Get passengers from the database with optional filtering, sorting and cursor-based pagination",
+    inputSchema: passengerFiltersSchema.extend({
+      sortBy: z.enum(PASSENGER_SORT_KEYS).optional().describe("Column to sort by (defaults to id)"),
+      sortDirection: z.enum(["asc", "desc"]).optional().describe("Sort direction (defaults to asc)"),
+      limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe(`Page size (defaults to ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})`),
+      cursor: z.string().optional().describe("Opaque cursor from a previous page's nextCursor"),
+    }),
+    outputSchema: z.object({
+      passengers: z.array(passengerSchema),
+      totalCount: z.number(),
+      nextCursor: z.string().nullable(),
+      message: z.string(),
+    }),
+    execute: async ({ context }) => {
+      try {
+        const db = await getDb(env);
+        
+        const sortBy = context.sortBy ?? "id";
+        const sortDirection = context.sortDirection ?? "asc";
+        const pageSize = context.limit ?? DEFAULT_PAGE_SIZE;
+        const sortColumn = PASSENGER_SORT_COLUMNS[sortBy];
+        
+        const conditions = buildPassengerFilters(context, await getAirports(db));
+        
+        // Total matching rows, regardless of the current page
+        const [{ count }] = await db
+          .select({ count: sql<number>`count(*)` })
+          .from(passengersTable)
+          .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+          .leftJoin(bookingsTable, eq(passengersTable.bookingId, bookingsTable.id))
+          .where(and(...conditions));
+        
+        // Keyset pagination: continue strictly after the last row of the previous page,
+        // using the passenger id to break ties between equal sort values
+        if (context.cursor) {
+          const cursor = decodeCursor(context.cursor);
+          if (cursor.sortBy !== sortBy || cursor.sortDirection !== sortDirection) {
+            throw new Error("Cursor does not match the requested sort order");
+          }
+          const after = sortDirection === "asc" ? gt : lt;
+          conditions.push(or(
+            after(sortColumn, cursor.value),
+            and(eq(sortColumn, cursor.value), after(passengersTable.id, cursor.id)),
+          )!);
+        }
+        
+        const order = sortDirection === "asc" ? asc : desc;
+        
+        // Fetch one extra row to know whether there is another page
+        const rows = await db
+          .select({ ...passengerJoinColumns, sortValue: sortColumn.as("sort_value") })
+          .from(passengersTable)
+          .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+          .leftJoin(bookingsTable, eq(passengersTable.bookingId, bookingsTable.id))
+          .where(and(...conditions))
+          .orderBy(order(sortColumn), order(passengersTable.id))
+          .limit(pageSize + 1);
+        
+        const hasMore = rows.length > pageSize;
+        const page = rows.slice(0, pageSize);
+        const lastRow = page[page.length - 1];
+        const nextCursor = hasMore && lastRow
+          ? encodeCursor({
+            sortBy,
+            sortDirection,
+            value: lastRow.sortValue as string | number,
+            id: lastRow.passenger.id,
+          })
+          : null;
+        
+        const cleanedPassengers = page.map((row: any) => toPassengerOutput(fromPassengerJoin(row)));
+        
+        return {
+          passengers: cleanedPassengers,
+          totalCount: count,
+          nextCursor,
+          message: `Retrieved ${cleanedPassengers.length} of ${count} passengers from database`,
+        };
+      } catch (error) {
+        console.error('Error fetching passengers:', error);
+        throw new Error(`Error fetching passengers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  });
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Passenger fields accepted by CREATE_PASSENGER and UPDATE_PASSENGER.
+ * Prices are amounts in `currency` on the way in and stored in cents.
+ */
+const passengerFieldsSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  email: z.string().trim().email("Invalid email address").transform((value) => value.toLowerCase()),
+  phone: z.string().nullable().optional(),
+  nationality: z.string().nullable().optional(),
+  dateOfBirth: z.string().regex(ISO_DATE, "Date of birth must be YYYY-MM-DD").nullable().optional(),
+  ticketClass: z.enum(TICKET_CLASSES).optional(),
+  price: z.number().nonnegative("Price cannot be negative").nullable().optional(),
+  currency: z.string()
+    .regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code")
+    .optional()
+    .describe(`Currency of the price (defaults to ${DEFAULT_CURRENCY})`),
+  status: z.enum(BOOKING_STATUSES)
+    .refine((status) => INITIAL_BOOKING_STATUSES.includes(status), {
+      message: `New bookings must be ${INITIAL_BOOKING_STATUSES.join(" or ")}`,
+    })
+    .optional(),
+});
+
+const toPassengerValues = (fields: Partial<z.infer<typeof passengerFieldsSchema>>) => {
+  const { price, ...values } = fields;
+  return {
+    ...values,
+    ...(price !== undefined && { priceCents: price === null ? null : toCents(price) }),
+  };
+};
+
+/**
+ * Looks up a passenger with its flight and booking, throwing when it does
+ * not exist.
+ */
+const getPassengerById = async (db: any, id: number) => {
+  const rows = await db
+    .select(passengerJoinColumns)
+    .from(passengersTable)
+    .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+    .leftJoin(bookingsTable, eq(passengersTable.bookingId, bookingsTable.id))
+    .where(eq(passengersTable.id, id))
+    .limit(1);
+
+  if (rows.length === 0) {
+    throw new Error(`Passenger ${id} not found`);
+  }
+
+  return fromPassengerJoin(rows[0]);
+};
+
+const getFlightById = async (db: any, flightId: number): Promise<typeof flightsTable.$inferSelect> => {
+  const flight = await db.select()
+    .from(flightsTable)
+    .where(eq(flightsTable.id, flightId))
+    .limit(1);
+
+  if (flight.length === 0) {
+    throw new Error(`Flight ${flightId} not found`);
+  }
+
+  return flight[0];
+};
+
+/**
+ * Great-circle distance between two airports given by code, or null when
+ * either is not a known airport.
+ */
+const routeDistanceKm = (origin: string, destination: string, airports: AirportRow[]): number | null => {
+  const from = resolveAirport(origin, airports);
+  const to = resolveAirport(destination, airports);
+  return from && to ? greatCircleDistanceKm(from, to) : null;
+};
+
+/**
+ * The airport a city, airport code or airport name refers to.
+ */
+const requireAirport = (value: string, airports: AirportRow[]) => {
+  const airport = resolveAirport(value, airports);
+  if (!airport) {
+    throw new Error(`Unknown airport or city "${value}"`);
+  }
+  return airport;
+};
+
+/**
+ * Enforces the one-booking-per-email-per-flight rule with a readable
+ * error instead of a unique constraint failure. Cancelled, no-show and
+ * refunded bookings do not count.
+ */
+const assertNotBooked = async (db: any, email: string | null, flightId: number | null, exceptId?: number) => {
+  if (email === null || flightId === null) return;
+
+  const existing = await db.select({ id: passengersTable.id })
+    .from(passengersTable)
+    .where(and(
+      eq(passengersTable.email, email),
+      eq(passengersTable.flightId, flightId),
+      not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+    ))
+    .limit(1);
+
+  if (existing.length > 0 && existing[0].id !== exceptId) {
+    throw new Error(`${email} is already booked on flight ${flightId} (passenger ${existing[0].id})`);
+  }
+};
+
+/**
+ * Looks up a booking by record locator (case-insensitive), throwing when
+ * it does not exist.
+ */
+const getBookingByLocator = async (db: any, recordLocator: string): Promise<typeof bookingsTable.$inferSelect> => {
+  const locator = normalizeRecordLocator(recordLocator);
+  const rows = await db.select()
+    .from(bookingsTable)
+    .where(eq(bookingsTable.recordLocator, locator))
+    .limit(1);
+
+  if (rows.length === 0) {
+    throw new Error(`Booking ${locator} not found`);
+  }
+
+  return rows[0];
+};
+
+/**
+ * Records the fare of newly booked passengers as a charge in the payments
+ * ledger. Unpriced passengers and bookings that were never paid for are
+ * left out.
+ */
+const recordFareCharges = async (
+  db: any,
+  passengers: { id: number; priceCents: number | null; currency: string; status: BookingStatus }[],
+  createdBy: string,
+) => {
+  const charges = passengers
+    .filter((passenger) => passenger.priceCents !== null && passenger.priceCents > 0 &&
+      passenger.status !== 'cancelled' && passenger.status !== 'refunded')
+    .map((passenger) => ({
+      passengerId: passenger.id,
+      kind: 'charge' as const,
+      amountCents: passenger.priceCents!,
+      currency: passenger.currency,
+      description: 'Fare',
+      createdBy,
+    }));
+
+  await insertMany(db, paymentsTable, charges);
+};
+
+const OVER_CAPACITY_ACTIONS = ["reject", "waitlist"] as const;
+type OverCapacityAction = typeof OVER_CAPACITY_ACTIONS[number];
+
+type CabinLoad = {
+  cabin: TicketClass;
+  /** Seats for sale: the seat map's unblocked seats, or the per-flight override */
+  capacity: number;
+  /** Bookings allowed once overbooking is applied */
+  limit: number;
+  booked: number;
+  available: number;
+  loadFactor: number;
+};
+
+/**
+ * Seats per cabin on a flight, from its aircraft's seat map unless the
+ * flight overrides a cabin's capacity.
+ */
+const cabinCapacities = (
+  aircraft: string | null,
+  overrides: Map<TicketClass, number> = new Map(),
+): Map<TicketClass, number> => {
+  const capacities = new Map<TicketClass, number>();
+  for (const seat of listSeats(seatMapFor(aircraft))) {
+    if (!seat.blocked) {
+      capacities.set(seat.cabin, (capacities.get(seat.cabin) ?? 0) + 1);
+    }
+  }
+  for (const [cabin, capacity] of overrides) {
+    capacities.set(cabin, capacity);
+  }
+  return capacities;
+};
+
+const bookingLimit = (capacity: number, overbookingPercent: number): number =>
+  Math.floor(capacity * (100 + overbookingPercent) / 100);
+
+const toCabinLoad = (cabin: TicketClass, capacity: number, overbookingPercent: number, booked: number): CabinLoad => {
+  const limit = bookingLimit(capacity, overbookingPercent);
+  return {
+    cabin,
+    capacity,
+    limit,
+    booked,
+    available: limit - booked,
+    loadFactor: capacity > 0 ? Math.round(booked / capacity * 1000) / 1000 : 0,
+  };
+};
+
+/**
+ * Cabin loads of the given flights (or of every flight), counting the
+ * bookings that still hold a seat. Cabins the aircraft does not have are
+ * listed only when someone is booked in them.
+ */
+const getFlightLoads = async (db: any, flightIds?: number[]) => {
+  const flights: (typeof flightsTable.$inferSelect)[] = [];
+  for (const batch of flightIds ? chunk(flightIds, 100) : [undefined]) {
+    flights.push(...await db.select()
+      .from(flightsTable)
+      .where(batch ? inArray(flightsTable.id, batch) : undefined));
+  }
+  flights.sort((a, b) =>
+    a.scheduledDeparture.localeCompare(b.scheduledDeparture) || a.flightNumber.localeCompare(b.flightNumber)
+  );
+
+  const overrides: (typeof flightCabinCapacityTable.$inferSelect)[] = [];
+  const bookings: { flightId: number; cabin: TicketClass; booked: number }[] = [];
+  // Leaves room for the status parameters under D1's 100 bound parameters
+  for (const ids of chunk(flights.map((flight) => flight.id), 90)) {
+    overrides.push(...await db.select()
+      .from(flightCabinCapacityTable)
+      .where(inArray(flightCabinCapacityTable.flightId, ids)));
+    bookings.push(...await db
+      .select({
+        flightId: passengersTable.flightId,
+        cabin: passengersTable.ticketClass,
+        booked: sql<number>`count(*)`,
+      })
+      .from(passengersTable)
+      .where(and(
+        inArray(passengersTable.flightId, ids),
+        not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+      ))
+      .groupBy(passengersTable.flightId, passengersTable.ticketClass));
+  }
+
+  return flights.map((flight) => {
+    const capacities = cabinCapacities(
+      flight.aircraft,
+      new Map(overrides
+        .filter((override) => override.flightId === flight.id)
+        .map((override) => [override.cabin, override.capacity])),
+    );
+    const booked = new Map<TicketClass, number>(bookings
+      .filter((row) => row.flightId === flight.id)
+      .map((row) => [row.cabin, Number(row.booked)]));
+
+    const cabins = TICKET_CLASSES
+      .filter((cabin) => capacities.has(cabin) || booked.has(cabin))
+      .map((cabin) =>
+        toCabinLoad(cabin, capacities.get(cabin) ?? 0, flight.overbookingPercent, booked.get(cabin) ?? 0)
+      );
+
+    return { flight, cabins };
+  });
+};
+
+const getCabinLoad = async (db: any, flightId: number, cabin: TicketClass): Promise<CabinLoad> => {
+  const [load] = await getFlightLoads(db, [flightId]);
+  if (!load) {
+    throw new Error(`Flight ${flightId} not found`);
+  }
+  return load.cabins.find((c) => c.cabin === cabin) ?? toCabinLoad(cabin, 0, 0, 0);
+};
+
+const cabinFullMessage = (flightNumber: string, load: CabinLoad): string =>
+  `Flight ${flightNumber} ${load.cabin} cabin is full (${load.booked} booked, limit ${load.limit})`;
+
+const waitlistEntrySchema = z.object({
+  id: z.number(),
+  flightId: z.number(),
+  cabin: z.enum(TICKET_CLASSES),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  priority: z.number(),
+  status: z.enum(WAITLIST_STATUSES),
+  passengerId: z.number().nullable().describe("Booking created when the entry was promoted"),
+  createdAt: z.string(),
+  resolvedAt: z.string().nullable(),
+});
+
+/**
+ * Adds a passenger to a flight's waitlist and records it in the waitlist
+ * history.
+ */
+const addToWaitlist = async (db: any, values: typeof waitlistTable.$inferInsert, changedBy: string) => {
+  const waiting = await db.select({ id: waitlistTable.id })
+    .from(waitlistTable)
+    .where(and(
+      eq(waitlistTable.email, values.email),
+      eq(waitlistTable.flightId, values.flightId),
+      eq(waitlistTable.status, 'waiting'),
+    ))
+    .limit(1);
+
+  if (waiting.length > 0) {
+    throw new Error(`${values.email} is already on the waitlist of flight ${values.flightId} (entry ${waiting[0].id})`);
+  }
+
+  const [entry] = await db.insert(waitlistTable).values(values).returning();
+  await db.insert(waitlistHistoryTable).values({ waitlistId: entry.id, action: 'joined', changedBy });
+  return entry;
+};
+
+/**
+ * Closes a waiting entry as promoted or removed and records why.
+ */
+const resolveWaitlistEntry = async (
+  db: any,
+  id: number,
+  resolution: { status: 'promoted' | 'removed'; passengerId?: number; changedBy: string; reason?: string | null },
+) => {
+  const [entry] = await db.update(waitlistTable)
+    .set({
+      status: resolution.status,
+      passengerId: resolution.passengerId ?? null,
+      resolvedAt: sql`(CURRENT_TIMESTAMP)`,
+    })
+    .where(eq(waitlistTable.id, id))
+    .returning();
+
+  await db.insert(waitlistHistoryTable).values({
+    waitlistId: id,
+    action: resolution.status,
+    changedBy: resolution.changedBy,
+    reason: resolution.reason ?? null,
+  });
+
+  return entry;
+};
+
+/**
+ * Books waitlisted passengers into a cabin while it has room, highest
+ * priority first. Each promotion is confirmed right away and recorded in
+ * both the booking status history and the waitlist history.
+ */
+const promoteFromWaitlist = async (
+  db: any,
+  cabinOf: { flightId: number; cabin: TicketClass; changedBy: string; reason: string },
+) => {
+  const promoted: (typeof waitlistTable.$inferSelect)[] = [];
+  let { available } = await getCabinLoad(db, cabinOf.flightId, cabinOf.cabin);
+
+  while (available > 0) {
+    const [next] = await db.select()
+      .from(waitlistTable)
+      .where(and(
+        eq(waitlistTable.flightId, cabinOf.flightId),
+        eq(waitlistTable.cabin, cabinOf.cabin),
+        eq(waitlistTable.status, 'waiting'),
+      ))
+      .orderBy(desc(waitlistTable.priority), asc(waitlistTable.createdAt), asc(waitlistTable.id))
+      .limit(1);
+
+    if (!next) break;
+
+    // Someone booked since joining cannot be booked twice; a cancelled booking does not count
+    const booked = await db.select({ id: passengersTable.id })
+      .from(passengersTable)
+      .where(and(
+        eq(passengersTable.email, next.email),
+        eq(passengersTable.flightId, cabinOf.flightId),
+        not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+      ))
+      .limit(1);
+
+    if (booked.length > 0) {
+      await resolveWaitlistEntry(db, next.id, {
+        status: 'removed',
+        changedBy: cabinOf.changedBy,
+        reason: `Already booked on this flight (passenger ${booked[0].id})`,
+      });
+      continue;
+    }
+
+    const [passenger] = await db.insert(passengersTable)
+      .values({
+        firstName: next.firstName,
+        lastName: next.lastName,
+        email: next.email,
+        phone: next.phone,
+        nationality: next.nationality,
+        dateOfBirth: next.dateOfBirth,
+        flightId: cabinOf.flightId,
+        ticketClass: cabinOf.cabin,
+        priceCents: next.priceCents,
+        currency: next.currency,
+        status: 'confirmed',
+        bookingId: (await createBookings(db, [null]))[0],
+      })
+      .returning({
+        id: passengersTable.id,
+        priceCents: passengersTable.priceCents,
+        currency: passengersTable.currency,
+        status: passengersTable.status,
+      });
+
+    await db.insert(bookingStatusHistoryTable).values({
+      passengerId: passenger.id,
+      fromStatus: null,
+      toStatus: 'confirmed',
+      changedBy: cabinOf.changedBy,
+      reason: `Promoted from the waitlist (entry ${next.id})`,
+    });
+    await recordFareCharges(db, [passenger], cabinOf.changedBy);
+
+    promoted.push(await resolveWaitlistEntry(db, next.id, {
+      status: 'promoted',
+      passengerId: passenger.id,
+      changedBy: cabinOf.changedBy,
+      reason: cabinOf.reason,
+    }));
+    available--;
+  }
+
+  return promoted;
+};
+
+export const createCreatePassengerTool = (env: Env) =>
+  createTool({
+    id: "CREATE_PASSENGER",
+    description: "Create a single passenger, booked either on an existing flight (flightId) or on the flight identified by number/route and departure date. The passenger gets a new booking (record locator) unless added to an existing one.",
+    inputSchema: passengerFieldsSchema.extend({
+      flightId: z.number().int().optional().describe("Existing flight to book the passenger on"),
+      flightNumber: z.string().optional().describe("Flight number, used when flightId is not given"),
+      departureCity: z.string().optional().describe("Departure city or airport code, used when flightId is not given"),
+      arrivalCity: z.string().optional().describe("Arrival city or airport code, used when flightId is not given"),
+      departureDate: z.string().regex(ISO_DATE, "Departure date must be YYYY-MM-DD").optional()
+        .describe("Departure date, used when flightId is not given"),
+      overCapacity: z.enum(OVER_CAPACITY_ACTIONS).optional().describe(
+        "What to do when the cabin is full: \"reject\" (default) fails, \"waitlist\" adds the passenger to the flight's waitlist",
+      ),
+      recordLocator: z.string().optional().describe("Existing booking to add the passenger to"),
+      autoPrice: z.boolean().optional().describe(
+        "When no price is given, price the booking with the fare rules at the cabin's current load (see QUOTE_FARE)",
+      ),
+    }),
+    outputSchema: z.object({
+      passenger: passengerSchema.nullable().describe("The new passenger, or null when waitlisted"),
+      waitlistEntry: waitlistEntrySchema.nullable(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const {
+        flightId,
+        flightNumber,
+        departureCity,
+        arrivalCity,
+        departureDate,
+        overCapacity,
+        recordLocator,
+        autoPrice,
+        ...input
+      } = context;
+
+      const booking = recordLocator ? await getBookingByLocator(db, recordLocator) : null;
+
+      let resolvedFlightId: number | null = null;
+      if (flightId !== undefined) {
+        await getFlightById(db, flightId);
+        resolvedFlightId = flightId;
+      } else if (departureCity && arrivalCity && departureDate) {
+        resolvedFlightId = await findOrCreateFlight(db, {
+          flightNumber: flightNumber?.toUpperCase(),
+          origin: requireAirport(departureCity, await getAirports(db)).iataCode,
+          destination: requireAirport(arrivalCity, await getAirports(db)).iataCode,
+          scheduledDeparture: departureDate,
+        });
+      } else if (flightNumber || departureCity || arrivalCity || departureDate) {
+        throw new Error("departureCity, arrivalCity and departureDate are required to book a flight without flightId");
+      }
+
+      let fields = input;
+      if (autoPrice && input.price == null) {
+        if (resolvedFlightId === null) {
+          throw new Error("autoPrice needs a flight to price the booking on");
+        }
+        const quote = await priceFlightBooking(db, resolvedFlightId, input.ticketClass ?? 'economy');
+        fields = { ...input, price: fromCents(quote.totalCents), currency: quote.currency };
+      }
+
+      await assertNotBooked(db, fields.email, resolvedFlightId);
+
+      if (resolvedFlightId !== null) {
+        const cabin = fields.ticketClass ?? 'economy';
+        const load = await getCabinLoad(db, resolvedFlightId, cabin);
+
+        if (load.available <= 0) {
+          const flight = await getFlightById(db, resolvedFlightId);
+          if ((overCapacity ?? "reject") === "reject") {
+            throw new Error(cabinFullMessage(flight.flightNumber, load));
+          }
+
+          const waitlistEntry = await addToWaitlist(db, {
+            flightId: resolvedFlightId,
+            cabin,
+            firstName: fields.firstName,
+            lastName: fields.lastName,
+            email: fields.email,
+            phone: fields.phone ?? null,
+            nationality: fields.nationality ?? null,
+            dateOfBirth: fields.dateOfBirth ?? null,
+            priceCents: fields.price == null ? null : toCents(fields.price),
+            currency: fields.currency ?? DEFAULT_CURRENCY,
+          }, currentActor(env));
+
+          return { passenger: null, waitlistEntry };
+        }
+      }
+
+      const [created] = await db.insert(passengersTable)
+        .values({
+          status: 'confirmed',
+          ...toPassengerValues(fields),
+          flightId: resolvedFlightId,
+          bookingId: booking?.id ?? (await createBookings(db, [null]))[0],
+        })
+        .returning({
+          id: passengersTable.id,
+          priceCents: passengersTable.priceCents,
+          currency: passengersTable.currency,
+          status: passengersTable.status,
+        });
+      await db.insert(bookingStatusHistoryTable).values({
+        passengerId: created.id,
+        fromStatus: null,
+        toStatus: created.status,
+        changedBy: currentActor(env),
+        reason: 'Booked',
+      });
+      await recordFareCharges(db, [created], currentActor(env));
+
+      return {
+        passenger: toPassengerOutput(await getPassengerById(db, created.id)),
+        waitlistEntry: null,
+      };
+    },
+  });
+
+export const createGetPassengerTool = (env: Env) =>
+  createTool({
+    id: "GET_PASSENGER",
+    description: "Get a single passenger by id, with their flight",
+    inputSchema: z.object({
+      id: z.number().int(),
+    }),
+    outputSchema: z.object({
+      passenger: passengerSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      return {
+        passenger: toPassengerOutput(await getPassengerById(db, context.id)),
+      };
+    },
+  });
+
+export const createUpdatePassengerTool = (env: Env) =>
+  createTool({
+    id: "UPDATE_PASSENGER",
+    description: "Update a passenger. Only the fields provided are changed; pass null to clear an optional field. Use CHANGE_BOOKING_STATUS to change the status.",
+    inputSchema: passengerFieldsSchema.omit({ status: true }).partial().extend({
+      id: z.number().int(),
+      flightId: z.number().int().nullable().optional().describe("Move the passenger to another flight"),
+    }),
+    outputSchema: z.object({
+      passenger: passengerSchema,
+      promoted: z.array(waitlistEntrySchema).describe("Waitlist entries booked into the place the move freed"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const { id, flightId, ...fields } = context;
+
+      const { passenger: current } = await getPassengerById(db, id);
+
+      if (flightId) {
+        await getFlightById(db, flightId);
+      }
+      if (fields.email !== undefined || flightId !== undefined) {
+        await assertNotBooked(
+          db,
+          fields.email ?? current.email,
+          flightId !== undefined ? flightId : current.flightId,
+          id,
+        );
+      }
+
+      const changes = {
+        ...toPassengerValues(fields),
+        ...(flightId !== undefined && { flightId }),
+      };
+
+      const movedFlight = flightId !== undefined && flightId !== current.flightId;
+      const movedCabin = fields.ticketClass !== undefined && fields.ticketClass !== current.ticketClass;
+
+      // Moving an active booking takes a place in the target cabin
+      const targetFlightId = flightId !== undefined ? flightId : current.flightId;
+      if ((movedFlight || movedCabin) && targetFlightId !== null &&
+        !INACTIVE_BOOKING_STATUSES.includes(current.status)) {
+        const load = await getCabinLoad(db, targetFlightId, fields.ticketClass ?? current.ticketClass);
+        if (load.available <= 0) {
+          const flight = await getFlightById(db, targetFlightId);
+          throw new Error(cabinFullMessage(flight.flightNumber, load));
+        }
+      }
+
+      // A seat belongs to one flight and cabin; moving away from either frees it
+      if (current.seat && (movedFlight || movedCabin)) {
+        Object.assign(changes, { seat: null });
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await db.update(passengersTable)
+          .set(changes)
+          .where(eq(passengersTable.id, id));
+      }
+
+      // The place left behind goes to the next waiting passenger, as after a cancellation
+      const promoted = (movedFlight || movedCabin) && current.flightId !== null &&
+        !INACTIVE_BOOKING_STATUSES.includes(current.status)
+        ? await promoteFromWaitlist(db, {
+          flightId: current.flightId,
+          cabin: current.ticketClass,
+          changedBy: currentActor(env),
+          reason: `Passenger ${id} moved to another ${movedFlight ? 'flight' : 'cabin'}`,
+        })
+        : [];
+
+      return {
+        passenger: toPassengerOutput(await getPassengerById(db, id)),
+        promoted,
+      };
+    },
+  });
+
+export const createDeletePassengerTool = (env: Env) =>
+  createTool({
+    id: "DELETE_PASSENGER",
+    description: "Delete a passenger by id. This also deletes their payments ledger entries, so when they have any it refuses unless deletePayments is true; cancel the booking with CANCEL_AND_REFUND to settle it instead.",
+    inputSchema: z.object({
+      id: z.number().int(),
+      deletePayments: z.boolean().optional().describe("Confirm that the passenger's recorded payments may be deleted along with them"),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      deletedId: z.number(),
+      deletedPaymentsCount: z.number(),
+      promoted: z.array(waitlistEntrySchema).describe("Waitlist entries booked into the place the deleted booking held"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      // Fails with a not-found error when there is nothing to delete
+      const { passenger } = await getPassengerById(db, context.id);
+
+      // Payments reference the passenger, so they cannot outlive them
+      const [{ count: paymentsCount }] = await db.select({ count: sql<number>`count(*)` })
+        .from(paymentsTable)
+        .where(eq(paymentsTable.passengerId, context.id));
+      if (paymentsCount > 0 && !context.deletePayments) {
+        throw new Error(`Passenger ${context.id} has ${paymentsCount} payments ledger entries that deleting would remove; use CANCEL_AND_REFUND to settle the booking, or call again with deletePayments: true to delete them too`);
+      }
+
+      // The passenger row goes last, so a delete that fails part-way can be retried.
+      // Their status history stays, detached from the deleted passenger.
+      await db.update(bookingStatusHistoryTable)
+        .set({ passengerId: null })
+        .where(eq(bookingStatusHistoryTable.passengerId, context.id));
+      await db.delete(paymentsTable).where(eq(paymentsTable.passengerId, context.id));
+      // A promoted waitlist entry outlives the booking it created
+      await db.update(waitlistTable)
+        .set({ passengerId: null })
+        .where(eq(waitlistTable.passengerId, context.id));
+      await db.delete(passengersTable).where(eq(passengersTable.id, context.id));
+
+      // A booking goes away with its last passenger
+      if (passenger.bookingId !== null) {
+        const [{ remaining }] = await db.select({ remaining: sql<number>`count(*)` })
+          .from(passengersTable)
+          .where(eq(passengersTable.bookingId, passenger.bookingId));
+        if (Number(remaining) === 0) {
+          await db.delete(itinerarySegmentsTable)
+            .where(eq(itinerarySegmentsTable.bookingId, passenger.bookingId));
+          await db.delete(bookingsTable).where(eq(bookingsTable.id, passenger.bookingId));
+        }
+      }
+
+      const promoted = passenger.flightId !== null && !INACTIVE_BOOKING_STATUSES.includes(passenger.status)
+        ? await promoteFromWaitlist(db, {
+          flightId: passenger.flightId,
+          cabin: passenger.ticketClass,
+          changedBy: currentActor(env),
+          reason: `Passenger ${context.id} deleted`,
+        })
+        : [];
+
+      return {
+        success: true,
+        deletedId: context.id,
+        deletedPaymentsCount: paymentsCount,
+        promoted,
+      };
+    },
+  });
+
+/**
+ * Who is making a change: the logged-in user when there is one, otherwise
+ * the `fallback` name supplied by the caller.
+ */
+const currentActor = (env: Env, fallback = "anonymous"): string => {
+  try {
+    const user = env.DECO_CHAT_REQUEST_CONTEXT.ensureAuthenticated();
+    return user?.email ?? user?.id ?? fallback;
+  } catch {
+    // Public tools can be called without a session
+    return fallback;
+  }
+};
+
+const bookingStatusChangeSchema = z.object({
+  id: z.number(),
+  passengerId: z.number().nullable().describe("Null once the passenger is deleted"),
+  fromStatus: z.enum(BOOKING_STATUSES).nullable(),
+  toStatus: z.enum(BOOKING_STATUSES),
+  changedBy: z.string(),
+  reason: z.string().nullable(),
+  changedAt: z.string().nullable(),
+});
+
+type BookingStatusChange = {
+  passengerId: number;
+  toStatus: BookingStatus;
+  changedBy: string;
+  reason?: string | null;
+};
+
+/**
+ * Moves a booking to `toStatus`, rejecting transitions the lifecycle does
+ * not allow, and records the change in the status history. Cancelling a
+ * booking promotes waitlisted passengers into the seat it frees.
+ *
+ * The history row is written first, so a status never changes without
+ * one. The status only moves if nobody changed it since it was read, so
+ * two concurrent changes cannot both apply; the losing change takes its
+ * history row back.
+ */
+const changeBookingStatus = async (db: any, change: BookingStatusChange) => {
+  const { passenger } = await getPassengerById(db, change.passengerId);
+  assertTransition(passenger.status, change.toStatus);
+
+  const [entry] = await db.insert(bookingStatusHistoryTable)
+    .values({
+      passengerId: change.passengerId,
+      fromStatus: passenger.status,
+      toStatus: change.toStatus,
+      changedBy: change.changedBy,
+      reason: change.reason ?? null,
+    })
+    .returning();
+
+  // Bookings that will not fly give their seat back
+  const updated = await db.update(passengersTable)
+    .set({
+      status: change.toStatus,
+      ...(INACTIVE_BOOKING_STATUSES.includes(change.toStatus) && { seat: null }),
+    })
+    .where(and(eq(passengersTable.id, change.passengerId), eq(passengersTable.status, passenger.status)))
+    .returning({ id: passengersTable.id });
+
+  if (updated.length === 0) {
+    await db.delete(bookingStatusHistoryTable).where(eq(bookingStatusHistoryTable.id, entry.id));
+    throw new Error(`Passenger ${change.passengerId} changed status while this change was being made; try again`);
+  }
+
+  const promoted = change.toStatus === 'cancelled' && passenger.flightId !== null
+    ? await promoteFromWaitlist(db, {
+      flightId: passenger.flightId,
+      cabin: passenger.ticketClass,
+      changedBy: change.changedBy,
+      reason: `Passenger ${passenger.id} cancelled`,
+    })
+    : [];
+
+  return { entry, promoted };
+};
+
+export const createChangeBookingStatusTool = (env: Env) =>
+  createTool({
+    id: "CHANGE_BOOKING_STATUS",
+    description: "Move a booking through its lifecycle (pending → confirmed → checked-in → boarded → flown, or cancelled / no-show → refunded). Illegal transitions are rejected.",
+    inputSchema: z.object({
+      passengerId: z.number().int(),
+      status: z.enum(BOOKING_STATUSES).describe("New booking status"),
+      reason: z.string().optional().describe("Why the status changed, kept in the history"),
+      changedBy: z.string().optional().describe("Who made the change when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      passenger: passengerSchema,
+      change: bookingStatusChangeSchema,
+      promoted: z.array(waitlistEntrySchema).describe("Waitlist entries booked into the seat a cancellation freed"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const { entry, promoted } = await changeBookingStatus(db, {
+        passengerId: context.passengerId,
+        toStatus: context.status,
+        changedBy: currentActor(env, context.changedBy),
+        reason: context.reason,
+      });
+
+      return {
+        passenger: toPassengerOutput(await getPassengerById(db, context.passengerId)),
+        change: entry,
+        promoted,
+      };
+    },
+  });
+
+export const createGetBookingStatusHistoryTool = (env: Env) =>
+  createTool({
+    id: "GET_BOOKING_STATUS_HISTORY",
+    description: "List the status changes of a passenger's booking, oldest first",
+    inputSchema: z.object({
+      passengerId: z.number().int(),
+    }),
+    outputSchema: z.object({
+      history: z.array(bookingStatusChangeSchema),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      // Fails with a not-found error for unknown passengers
+      await getPassengerById(db, context.passengerId);
+
+      const history = await db.select()
+        .from(bookingStatusHistoryTable)
+        .where(eq(bookingStatusHistoryTable.passengerId, context.passengerId))
+        .orderBy(asc(bookingStatusHistoryTable.changedAt), asc(bookingStatusHistoryTable.id));
+
+      return { history };
+    },
+  });
+
+const itinerarySegmentSchema = z.object({
+  sequence: z.number(),
+  flightId: z.number(),
+  flightNumber: z.string(),
+  origin: z.string(),
+  destination: z.string(),
+  scheduledDeparture: z.string(),
+  scheduledArrival: z.string().nullable(),
+  layoverMinutes: z.number().nullable().describe("Time to connect after the previous leg, when both times are known"),
+});
+
+const bookingSchema = z.object({
+  id: z.number(),
+  recordLocator: z.string(),
+  createdAt: z.string(),
+  passengers: z.array(passengerSchema),
+  itinerary: z.array(itinerarySegmentSchema).describe("Flights of a multi-leg trip in travel order; empty for single flights"),
+});
+
+/**
+ * The flights of a booking's itinerary, in travel order.
+ */
+const getItineraryFlights = async (db: any, bookingId: number): Promise<(typeof flightsTable.$inferSelect)[]> => {
+  const rows = await db.select({ flight: flightsTable })
+    .from(itinerarySegmentsTable)
+    .innerJoin(flightsTable, eq(itinerarySegmentsTable.flightId, flightsTable.id))
+    .where(eq(itinerarySegmentsTable.bookingId, bookingId))
+    .orderBy(asc(itinerarySegmentsTable.sequence));
+
+  return rows.map(({ flight }: { flight: typeof flightsTable.$inferSelect }) => flight);
+};
+
+const toItinerarySegments = (flights: (typeof flightsTable.$inferSelect)[]): z.infer<typeof itinerarySegmentSchema>[] =>
+  flights.map((flight, index) => ({
+    sequence: index + 1,
+    flightId: flight.id,
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    scheduledDeparture: flight.scheduledDeparture,
+    scheduledArrival: flight.scheduledArrival,
+    layoverMinutes: index > 0 ? layoverMinutes(flights[index - 1], flight) : null,
+  }));
+
+/**
+ * A booking with its passengers, in the order they were added, and its
+ * itinerary.
+ */
+const getBookingWithPassengers = async (db: any, recordLocator: string) => {
+  const booking = await getBookingByLocator(db, recordLocator);
+
+  const rows = await db
+    .select(passengerJoinColumns)
+    .from(passengersTable)
+    .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+    .leftJoin(bookingsTable, eq(passengersTable.bookingId, bookingsTable.id))
+    .where(eq(passengersTable.bookingId, booking.id))
+    .orderBy(asc(passengersTable.id));
+
+  return {
+    ...booking,
+    passengers: rows.map((row: any) => toPassengerOutput(fromPassengerJoin(row))),
+    itinerary: toItinerarySegments(await getItineraryFlights(db, booking.id)),
+  };
+};
+
+export const createGetBookingByLocatorTool = (env: Env) =>
+  createTool({
+    id: "GET_BOOKING_BY_LOCATOR",
+    description: "Get a booking, every passenger on it and its itinerary by its 6-character record locator (case-insensitive)",
+    inputSchema: z.object({
+      recordLocator: z.string(),
+    }),
+    outputSchema: z.object({
+      booking: bookingSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      return {
+        booking: await getBookingWithPassengers(db, context.recordLocator),
+      };
+    },
+  });
+
+export const createCancelBookingTool = (env: Env) =>
+  createTool({
+    id: "CANCEL_BOOKING",
+    description: "Cancel every passenger of a booking at once. Passengers whose booking can no longer be cancelled (boarded, flown, already cancelled...) are left as they are and reported.",
+    inputSchema: z.object({
+      recordLocator: z.string(),
+      reason: z.string().optional().describe("Why the booking was cancelled, kept in each passenger's history"),
+      changedBy: z.string().optional().describe("Who cancelled when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      booking: bookingSchema,
+      cancelled: z.array(bookingStatusChangeSchema),
+      skipped: z.array(z.object({
+        passengerId: z.number(),
+        status: z.enum(BOOKING_STATUSES),
+      })).describe("Passengers whose status does not allow cancelling"),
+      promoted: z.array(waitlistEntrySchema).describe("Waitlist entries booked into the seats the cancellation freed"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const { id: bookingId, recordLocator } = await getBookingByLocator(db, context.recordLocator);
+      const changedBy = currentActor(env, context.changedBy);
+
+      // Passengers are cancelled one at a time; after a failure, calling again
+      // skips the ones already cancelled and picks up the rest
+      const passengers = await db.select({ id: passengersTable.id, status: passengersTable.status })
+        .from(passengersTable)
+        .where(eq(passengersTable.bookingId, bookingId))
+        .orderBy(asc(passengersTable.id));
+
+      const cancelled = [];
+      const skipped = [];
+      const promoted = [];
+      for (const passenger of passengers) {
+        if (!canTransition(passenger.status, 'cancelled')) {
+          skipped.push({ passengerId: passenger.id, status: passenger.status });
+          continue;
+        }
+
+        const change = await changeBookingStatus(db, {
+          passengerId: passenger.id,
+          toStatus: 'cancelled',
+          changedBy,
+          reason: context.reason ?? `Booking ${recordLocator} cancelled`,
+        });
+        cancelled.push(change.entry);
+        promoted.push(...change.promoted);
+      }
+
+      return {
+        booking: await getBookingWithPassengers(db, recordLocator),
+        cancelled,
+        skipped,
+        promoted,
+      };
+    },
+  });
+
+const SCHEDULE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?)?$/;
+
+export const createSetItineraryTool = (env: Env) =>
+  createTool({
+    id: "SET_ITINERARY",
+    description: `Set the flights of a booking's multi-leg itinerary in travel order, replacing any previous itinerary. Each leg must depart from the previous leg's destination with at least ${MIN_CONNECTION_MINUTES} minutes to connect.`,
+    inputSchema: z.object({
+      recordLocator: z.string(),
+      flightIds: z.array(z.number().int()).max(MAX_ITINERARY_LEGS)
+        .refine((ids) => new Set(ids).size === ids.length, "A flight can only appear once in an itinerary")
+        .describe("Flights in travel order; an empty list clears the itinerary"),
+    }),
+    outputSchema: z.object({
+      booking: bookingSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const booking = await getBookingByLocator(db, context.recordLocator);
+
+      const flights: (typeof flightsTable.$inferSelect)[] = [];
+      for (const flightId of context.flightIds) {
+        flights.push(await getFlightById(db, flightId));
+      }
+
+      const problems = validateItinerary(flights);
+      if (problems.length > 0) {
+        throw new Error(`Invalid itinerary: ${problems.join("; ")}`);
+      }
+
+      // Passengers still travelling must be booked on one of the legs
+      if (flights.length > 0) {
+        const strays = await db.select({ id: passengersTable.id, flightId: passengersTable.flightId })
+          .from(passengersTable)
+          .where(and(
+            eq(passengersTable.bookingId, booking.id),
+            not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+            or(
+              sql`${passengersTable.flightId} IS NULL`,
+              not(inArray(passengersTable.flightId, context.flightIds)),
+            ),
+          ));
+        if (strays.length > 0) {
+          throw new Error(
+            `Passengers ${strays.map((p: any) => p.id).join(", ")} are booked on flights outside the itinerary`,
+          );
+        }
+      }
+
+      // Replaces the whole itinerary, so a call that fails part-way can be repeated
+      await db.delete(itinerarySegmentsTable)
+        .where(eq(itinerarySegmentsTable.bookingId, booking.id));
+      if (flights.length > 0) {
+        await db.insert(itinerarySegmentsTable).values(
+          flights.map((flight, index) => ({ bookingId: booking.id, flightId: flight.id, sequence: index + 1 })),
+        );
+      }
+
+      return {
+        booking: await getBookingWithPassengers(db, booking.recordLocator),
+      };
+    },
+  });
+
+export const createSetFlightScheduleTool = (env: Env) =>
+  createTool({
+    id: "SET_FLIGHT_SCHEDULE",
+    description: "Set a flight's scheduled departure and arrival, with times so connections can be checked. Changes that would break a booking's itinerary are rejected.",
+    inputSchema: z.object({
+      flightId: z.number().int(),
+      scheduledDeparture: z.string().regex(SCHEDULE, "Use YYYY-MM-DD or YYYY-MM-DDTHH:MM").optional(),
+      scheduledArrival: z.string().regex(SCHEDULE, "Use YYYY-MM-DD or YYYY-MM-DDTHH:MM").nullable().optional(),
+    }),
+    outputSchema: z.object({
+      flightId: z.number(),
+      scheduledDeparture: z.string(),
+      scheduledArrival: z.string().nullable(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const current = await getFlightById(db, context.flightId);
+
+      const scheduledDeparture = context.scheduledDeparture ?? current.scheduledDeparture;
+      const scheduledArrival = context.scheduledArrival !== undefined ? context.scheduledArrival : current.scheduledArrival;
+      if (scheduledArrival !== null && scheduledArrival.replace(" ", "T") < scheduledDeparture.replace(" ", "T")) {
+        throw new Error("Scheduled arrival must not be before departure");
+      }
+
+      // Every itinerary through this flight must still connect with the new schedule
+      const bookings = await db.selectDistinct({ bookingId: itinerarySegmentsTable.bookingId })
+        .from(itinerarySegmentsTable)
+        .where(eq(itinerarySegmentsTable.flightId, context.flightId));
+      for (const { bookingId } of bookings) {
+        const flights = (await getItineraryFlights(db, bookingId)).map((flight) =>
+          flight.id === context.flightId ? { ...flight, scheduledDeparture, scheduledArrival } : flight
+        );
+        const problems = validateItinerary(flights);
+        if (problems.length > 0) {
+          throw new Error(`The new schedule breaks booking ${bookingId}'s itinerary: ${problems.join("; ")}`);
+        }
+      }
+
+      await db.update(flightsTable)
+        .set({ scheduledDeparture, scheduledArrival })
+        .where(eq(flightsTable.id, context.flightId));
+
+      return { flightId: context.flightId, scheduledDeparture, scheduledArrival };
+    },
+  });
+
+const airportSchema = z.object({
+  iataCode: z.string(),
+  icaoCode: z.string(),
+  name: z.string(),
+  city: z.string(),
+  country: z.string(),
+  timezone: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+export const createSearchAirportsTool = (env: Env) =>
+  createTool({
+    id: "SEARCH_AIRPORTS",
+    description: "Autocomplete airports by IATA/ICAO code, city or airport name, ignoring case and accents",
+    inputSchema: z.object({
+      query: z.string().describe("What has been typed so far, e.g. \"sao p\" or \"GRU\""),
+      limit: z.number().int().min(1).max(50).optional().describe("Maximum number of airports (default 10)"),
+    }),
+    outputSchema: z.object({
+      airports: z.array(airportSchema),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const airports = await getAirports(db);
+
+      return {
+        airports: searchAirports(context.query, airports, context.limit ?? 10)
+          .map(({ id: _id, ...airport }) => airport),
+      };
+    },
+  });
+
+export const createGetRouteInfoTool = (env: Env) =>
+  createTool({
+    id: "GET_ROUTE_INFO",
+    description: "Get a route's great-circle distance, typical block time and the flights operating it. Airports are given as cities or codes.",
+    inputSchema: z.object({
+      origin: z.string().describe("Departure city or airport code"),
+      destination: z.string().describe("Arrival city or airport code"),
+    }),
+    outputSchema: z.object({
+      origin: airportSchema,
+      destination: airportSchema,
+      distanceKm: z.number().describe("Great-circle distance between the airports"),
+      typicalBlockMinutes: z.number().describe("Median scheduled gate-to-gate time, or an estimate from the distance"),
+      blockTimeSource: z.enum(["schedule", "estimate"]),
+      flights: z.array(z.object({
+        flightId: z.number(),
+        flightNumber: z.string(),
+        scheduledDeparture: z.string(),
+        scheduledArrival: z.string().nullable(),
+        aircraft: z.string().nullable(),
+        blockMinutes: z.number().nullable().describe("Scheduled gate-to-gate time, when the schedule has times"),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const airports = await getAirports(db);
+      const origin = requireAirport(context.origin, airports);
+      const destination = requireAirport(context.destination, airports);
+      if (origin.iataCode === destination.iataCode) {
+        throw new Error("Origin and destination must be different airports");
+      }
+
+      const flights = await db.select()
+        .from(flightsTable)
+        .where(and(
+          eq(flightsTable.origin, origin.iataCode),
+          eq(flightsTable.destination, destination.iataCode),
+        ))
+        .orderBy(asc(flightsTable.scheduledDeparture), asc(flightsTable.id));
+
+      const distanceKm = greatCircleDistanceKm(origin, destination);
+      const routeFlights = flights.map((flight: typeof flightsTable.$inferSelect) => ({
+        flightId: flight.id,
+        flightNumber: flight.flightNumber,
+        scheduledDeparture: flight.scheduledDeparture,
+        scheduledArrival: flight.scheduledArrival,
+        aircraft: flight.aircraft,
+        blockMinutes: scheduledBlockMinutes(flight, origin, destination),
+      }));
+      const blockTimes = routeFlights.flatMap(({ blockMinutes }: { blockMinutes: number | null }) =>
+        blockMinutes === null ? [] : [blockMinutes]
+      );
+
+      return {
+        origin,
+        destination,
+        distanceKm,
+        typicalBlockMinutes: blockTimes.length > 0 ? Math.round(median(blockTimes)) : estimateBlockMinutes(distanceKm),
+        blockTimeSource: blockTimes.length > 0 ? "schedule" as const : "estimate" as const,
+        flights: routeFlights,
+      };
+    },
+  });
+
+const exchangeRateSchema = z.object({
+  id: z.number(),
+  currency: z.string(),
+  effectiveDate: z.string(),
+  rate: z.number().describe(`Value of one unit of the currency in ${BASE_CURRENCY}`),
+  updatedBy: z.string(),
+  updatedAt: z.string(),
+});
+
+export const createSetExchangeRateTool = (env: Env) =>
+  createTool({
+    id: "SET_EXCHANGE_RATE",
+    description: `Set what one unit of a currency is worth in ${BASE_CURRENCY} from a date on, replacing the rate already set for that date. Fares are converted at the rate effective on their booking date.`,
+    inputSchema: z.object({
+      currency: z.string().regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code"),
+      rate: z.number().positive("Rate must be positive").describe(`Value of one unit of the currency in ${BASE_CURRENCY}, e.g. 5.42 for USD`),
+      effectiveDate: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("First day the rate applies (defaults to today)"),
+      changedBy: z.string().optional().describe("Who is setting the rate, when there is no logged-in user"),
+    }),
+    outputSchema: exchangeRateSchema,
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      if (context.currency === BASE_CURRENCY) {
+        throw new Error(`${BASE_CURRENCY} is the base currency; its rate is always 1`);
+      }
+
+      const values = {
+        currency: context.currency,
+        effectiveDate: context.effectiveDate ?? new Date().toISOString().slice(0, 10),
+        rate: context.rate,
+        updatedBy: currentActor(env, context.changedBy),
+      };
+      const [rate] = await db.insert(exchangeRatesTable)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [exchangeRatesTable.currency, exchangeRatesTable.effectiveDate],
+          set: { rate: values.rate, updatedBy: values.updatedBy, updatedAt: sql`(CURRENT_TIMESTAMP)` },
+        })
+        .returning();
+
+      return rate;
+    },
+  });
+
+export const createGetExchangeRatesTool = (env: Env) =>
+  createTool({
+    id: "GET_EXCHANGE_RATES",
+    description: `List exchange rates to ${BASE_CURRENCY}, newest first per currency`,
+    inputSchema: z.object({
+      currency: z.string().regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code").optional()
+        .describe("Only this currency's rates"),
+    }),
+    outputSchema: z.object({
+      baseCurrency: z.string(),
+      rates: z.array(exchangeRateSchema),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const rates = await db.select()
+        .from(exchangeRatesTable)
+        .where(context.currency ? eq(exchangeRatesTable.currency, context.currency) : undefined)
+        .orderBy(asc(exchangeRatesTable.currency), desc(exchangeRatesTable.effectiveDate));
+
+      return { baseCurrency: BASE_CURRENCY, rates };
+    },
+  });
+
+export const createDeleteExchangeRateTool = (env: Env) =>
+  createTool({
+    id: "DELETE_EXCHANGE_RATE",
+    description: "Delete an exchange rate; the currency's previous rate applies again from its date",
+    inputSchema: z.object({
+      id: z.number(),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const deleted = await db.delete(exchangeRatesTable)
+        .where(eq(exchangeRatesTable.id, context.id))
+        .returning({ id: exchangeRatesTable.id });
+
+      if (deleted.length === 0) {
+        throw new Error(`Exchange rate ${context.id} not found`);
+      }
+
+      return { success: true };
+    },
+  });
+
+const fareRuleSchema = z.object({
+  id: z.number(),
+  cabin: z.enum(TICKET_CLASSES),
+  currency: z.string(),
+  baseFare: z.number(),
+  pricePerKm: z.number(),
+  minimumFare: z.number(),
+  cancellationFeePercent: z.number().describe("Share of the amount paid kept when the booking is cancelled"),
+  cancellationFeeMinimum: z.number().describe("Smallest cancellation fee"),
+  nonRefundableDays: z.number().describe("Cancelling fewer than this many days before departure refunds nothing"),
+  updatedBy: z.string(),
+  updatedAt: z.string(),
+});
+
+const toFareRuleOutput = (rule: typeof fareRulesTable.$inferSelect): z.infer<typeof fareRuleSchema> => ({
+  id: rule.id,
+  cabin: rule.cabin,
+  currency: rule.currency,
+  baseFare: fromCents(rule.baseFareCents),
+  pricePerKm: fromCentsPerKm(rule.centsPerKm),
+  minimumFare: fromCents(rule.minimumFareCents),
+  cancellationFeePercent: rule.cancellationFeePercent,
+  cancellationFeeMinimum: fromCents(rule.cancellationFeeMinimumCents),
+  nonRefundableDays: rule.nonRefundableDays,
+  updatedBy: rule.updatedBy,
+  updatedAt: rule.updatedAt,
+});
+
+const fareAdjustmentSchema = z.object({
+  id: z.number(),
+  kind: z.enum(FARE_ADJUSTMENT_KINDS),
+  threshold: z.number().describe("Days before departure (advance_purchase) or load factor percent (load_factor) from which the tier applies"),
+  percent: z.number().describe("Change to the fare, e.g. 25 for +25%"),
+});
+
+export const createGetFareRulesTool = (env: Env) =>
+  createTool({
+    id: "GET_FARE_RULES",
+    description: "List the fare rules per cabin and the advance purchase and load factor tiers used to price bookings",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      rules: z.array(fareRuleSchema),
+      adjustments: z.array(fareAdjustmentSchema),
+    }),
+    execute: async () => {
+      const db = await getDb(env);
+      const rules = await db.select().from(fareRulesTable).orderBy(asc(fareRulesTable.id));
+      const adjustments = await db.select()
+        .from(fareAdjustmentsTable)
+        .orderBy(asc(fareAdjustmentsTable.kind), asc(fareAdjustmentsTable.threshold));
+
+      return { rules: rules.map(toFareRuleOutput), adjustments };
+    },
+  });
+
+export const createSetFareRuleTool = (env: Env) =>
+  createTool({
+    id: "SET_FARE_RULE",
+    description: "Set how a cabin is priced: a base fare plus a price per kilometer, never below the minimum fare, and what a cancellation costs. Replaces the cabin's current rule.",
+    inputSchema: z.object({
+      cabin: z.enum(TICKET_CLASSES),
+      baseFare: z.number().nonnegative("Base fare cannot be negative"),
+      pricePerKm: z.number().nonnegative("Price per km cannot be negative")
+        .describe(`Price per kilometer, kept to ${CENTS_PER_KM_DECIMALS + 2} decimal places`),
+      minimumFare: z.number().nonnegative("Minimum fare cannot be negative").optional().describe("Defaults to 0"),
+      currency: z.string().regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code").optional()
+        .describe(`Currency of the amounts (defaults to ${DEFAULT_CURRENCY})`),
+      cancellationFeePercent: z.number().int().min(0).max(100).optional()
+        .describe("Share of the amount paid kept on cancellation (defaults to 0)"),
+      cancellationFeeMinimum: z.number().nonnegative("Minimum cancellation fee cannot be negative").optional()
+        .describe("Smallest cancellation fee (defaults to 0)"),
+      nonRefundableDays: z.number().int().nonnegative().optional()
+        .describe("Cancelling fewer than this many days before departure refunds nothing (defaults to 0)"),
+      changedBy: z.string().optional().describe("Who is changing the rule, when there is no logged-in user"),
+    }),
+    outputSchema: fareRuleSchema,
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const values = {
+        cabin: context.cabin,
+        currency: context.currency ?? DEFAULT_CURRENCY,
+        baseFareCents: toCents(context.baseFare),
+        centsPerKm: toCentsPerKm(context.pricePerKm),
+        minimumFareCents: toCents(context.minimumFare ?? 0),
+        cancellationFeePercent: context.cancellationFeePercent ?? 0,
+        cancellationFeeMinimumCents: toCents(context.cancellationFeeMinimum ?? 0),
+        nonRefundableDays: context.nonRefundableDays ?? 0,
+        updatedBy: currentActor(env, context.changedBy),
+      };
+      const { cabin: _cabin, ...changes } = values;
+      const [rule] = await db.insert(fareRulesTable)
+        .values(values)
+        .onConflictDoUpdate({
+          target: fareRulesTable.cabin,
+          set: { ...changes, updatedAt: sql`(CURRENT_TIMESTAMP)` },
+        })
+        .returning();
+
+      return toFareRuleOutput(rule);
+    },
+  });
+
+export const createSetFareAdjustmentTool = (env: Env) =>
+  createTool({
+    id: "SET_FARE_ADJUSTMENT",
+    description: "Add or change a pricing tier: from `threshold` days before departure (advance_purchase) or from a `threshold` percent full cabin (load_factor), fares change by `percent`. The tier with the highest threshold reached applies.",
+    inputSchema: z.object({
+      kind: z.enum(FARE_ADJUSTMENT_KINDS),
+      threshold: z.number().int().nonnegative(),
+      percent: z.number().int().gt(-100, "A discount must be less than 100%"),
+    }),
+    outputSchema: fareAdjustmentSchema,
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const [adjustment] = await db.insert(fareAdjustmentsTable)
+        .values(context)
+        .onConflictDoUpdate({
+          target: [fareAdjustmentsTable.kind, fareAdjustmentsTable.threshold],
+          set: { percent: context.percent },
+        })
+        .returning();
+
+      return adjustment;
+    },
+  });
+
+export const createDeleteFareAdjustmentTool = (env: Env) =>
+  createTool({
+    id: "DELETE_FARE_ADJUSTMENT",
+    description: "Delete a pricing tier; the next lower tier of its kind applies instead",
+    inputSchema: z.object({
+      id: z.number(),
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const deleted = await db.delete(fareAdjustmentsTable)
+        .where(eq(fareAdjustmentsTable.id, context.id))
+        .returning({ id: fareAdjustmentsTable.id });
+
+      if (deleted.length === 0) {
+        throw new Error(`Fare adjustment ${context.id} not found`);
+      }
+
+      return { success: true };
+    },
+  });
+
+/**
+ * Prices a booking in `cabin` on a route with the stored fare rules.
+ * `loadFactor` is the cabin's load before the booking and `bookingDate`
+ * defaults to today.
+ */
+const priceBooking = async (
+  db: any,
+  route: { flightNumber: string | null; origin: string; destination: string; departureDate: string; distanceKm: number | null },
+  cabin: TicketClass,
+  loadFactor: number,
+  bookingDate = new Date().toISOString().slice(0, 10),
+) => {
+  const [rule] = await db.select()
+    .from(fareRulesTable)
+    .where(eq(fareRulesTable.cabin, cabin))
+    .limit(1);
+  if (!rule) {
+    throw new Error(`No fare rule for the ${cabin} cabin; add one with SET_FARE_RULE`);
+  }
+
+  const distanceKm = route.distanceKm ?? routeDistanceKm(route.origin, route.destination, await getAirports(db));
+  if (distanceKm === null) {
+    throw new Error(`Cannot price ${route.origin}-${route.destination}: the distance between the airports is unknown`);
+  }
+
+  const daysBeforeDeparture = daysBetween(bookingDate, route.departureDate.slice(0, 10));
+  if (daysBeforeDeparture < 0) {
+    throw new Error(`${route.flightNumber ?? "The flight"} departs on ${route.departureDate.slice(0, 10)}, before ${bookingDate}`);
+  }
+
+  const adjustments = await db.select().from(fareAdjustmentsTable);
+  return {
+    currency: rule.currency,
+    distanceKm,
+    daysBeforeDeparture,
+    loadFactor,
+    ...quoteFare(rule, adjustments, { distanceKm, daysBeforeDeparture, loadFactor }),
+  };
+};
+
+/**
+ * Prices a booking on an existing flight at its cabin's current load.
+ */
+const priceFlightBooking = async (db: any, flightId: number, cabin: TicketClass) => {
+  const flight = await getFlightById(db, flightId);
+  const load = await getCabinLoad(db, flightId, cabin);
+  return await priceBooking(db, {
+    flightNumber: flight.flightNumber,
+    origin: flight.origin,
+    destination: flight.destination,
+    departureDate: flight.scheduledDeparture,
+    distanceKm: flight.distanceKm,
+  }, cabin, load.loadFactor);
+};
+
+export const createQuoteFareTool = (env: Env) =>
+  createTool({
+    id: "QUOTE_FARE",
+    description: "Price a booking with the fare rules: base fare, distance, advance purchase and cabin load adjustments and the minimum fare, each explained. Quotes an existing flight (flightId, or the flight matching the route and date) or, when there is none yet, an empty one.",
+    inputSchema: z.object({
+      flightId: z.number().int().optional().describe("Existing flight to quote"),
+      flightNumber: z.string().optional().describe("Flight number, used when flightId is not given"),
+      departureCity: z.string().optional().describe("Departure city or airport code, used when flightId is not given"),
+      arrivalCity: z.string().optional().describe("Arrival city or airport code, used when flightId is not given"),
+      departureDate: z.string().regex(ISO_DATE, "Departure date must be YYYY-MM-DD").optional()
+        .describe("Departure date, used when flightId is not given"),
+      cabin: z.enum(TICKET_CLASSES).optional().describe("Defaults to economy"),
+      bookingDate: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional()
+        .describe("Date the booking would be made, for what-if quotes (defaults to today)"),
+    }),
+    outputSchema: z.object({
+      flightId: z.number().nullable().describe("The flight quoted, null for a flight that does not exist yet"),
+      origin: z.string(),
+      destination: z.string(),
+      cabin: z.enum(TICKET_CLASSES),
+      currency: z.string(),
+      price: z.number(),
+      components: z.array(z.object({
+        component: z.string(),
+        description: z.string(),
+        amount: z.number(),
+      })).describe("What the price is made of; the amounts add up to the price"),
+      distanceKm: z.number(),
+      daysBeforeDeparture: z.number(),
+      loadFactor: z.number().describe("The cabin's booked ÷ capacity before this booking"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const cabin = context.cabin ?? 'economy';
+
+      let flightId = context.flightId ?? null;
+      let route;
+      if (flightId !== null) {
+        const flight = await getFlightById(db, flightId);
+        route = {
+          flightNumber: flight.flightNumber,
+          origin: flight.origin,
+          destination: flight.destination,
+          departureDate: flight.scheduledDeparture,
+          distanceKm: flight.distanceKm,
+        };
+      } else if (context.departureCity && context.arrivalCity && context.departureDate) {
+        route = {
+          flightNumber: context.flightNumber?.toUpperCase() ?? null,
+          origin: requireAirport(context.departureCity, await getAirports(db)).iataCode,
+          destination: requireAirport(context.arrivalCity, await getAirports(db)).iataCode,
+          departureDate: context.departureDate,
+          distanceKm: null,
+        };
+        flightId = await findFlight(db, {
+          flightNumber: route.flightNumber ?? undefined,
+          origin: route.origin,
+          destination: route.destination,
+          scheduledDeparture: route.departureDate,
+        });
+      } else {
+        throw new Error("Give flightId, or departureCity, arrivalCity and departureDate");
+      }
+
+      const loadFactor = flightId === null ? 0 : (await getCabinLoad(db, flightId, cabin)).loadFactor;
+      const quote = await priceBooking(db, route, cabin, loadFactor, context.bookingDate);
+
+      return {
+        flightId,
+        origin: route.origin,
+        destination: route.destination,
+        cabin,
+        currency: quote.currency,
+        price: fromCents(quote.totalCents),
+        components: quote.components.map(({ amountCents, ...component }) => ({
+          ...component,
+          amount: fromCents(amountCents),
+        })),
+        distanceKm: quote.distanceKm,
+        daysBeforeDeparture: quote.daysBeforeDeparture,
+        loadFactor: quote.loadFactor,
+      };
+    },
+  });
+
+const paymentSchema = z.object({
+  id: z.number(),
+  passengerId: z.number(),
+  kind: z.enum(PAYMENT_KINDS),
+  amount: z.number(),
+  currency: z.string(),
+  description: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+});
+
+const toPaymentOutput = ({ amountCents, ...payment }: typeof paymentsTable.$inferSelect): z.infer<typeof paymentSchema> => ({
+  ...payment,
+  amount: fromCents(amountCents),
+});
+
+const paymentTotalsSchema = z.object({
+  currency: z.string(),
+  charged: z.number(),
+  refunded: z.number(),
+  fees: z.number().describe("Cancellation penalties kept"),
+  balance: z.number().describe("Charged minus refunded"),
+});
+
+/**
+ * Sums a passenger's payments by kind. A passenger's entries share one
+ * currency, the passenger's when the first was recorded.
+ */
+const getPaymentTotals = async (db: any, passenger: { id: number; currency: string }) => {
+  const rows: { currency: string; kind: string; cents: number }[] = await db
+    .select({
+      currency: paymentsTable.currency,
+      kind: paymentsTable.kind,
+      cents: sql<number>`sum(${paymentsTable.amountCents})`,
+    })
+    .from(paymentsTable)
+    .where(eq(paymentsTable.passengerId, passenger.id))
+    .groupBy(paymentsTable.currency, paymentsTable.kind);
+
+  const currencies = [...new Set(rows.map((row) => row.currency))];
+  if (currencies.length > 1) {
+    throw new Error(`Passenger ${passenger.id} has payments in ${currencies.join(" and ")}; settle them by hand`);
+  }
+
+  const total = (kind: string) => Number(rows.find((row) => row.kind === kind)?.cents ?? 0);
+  return {
+    currency: currencies[0] ?? passenger.currency,
+    chargedCents: total('charge'),
+    refundedCents: total('refund'),
+    feeCents: total('fee'),
+  };
+};
+
+const toPaymentTotalsOutput = (totals: Awaited<ReturnType<typeof getPaymentTotals>>): z.infer<typeof paymentTotalsSchema> => ({
+  currency: totals.currency,
+  charged: fromCents(totals.chargedCents),
+  refunded: fromCents(totals.refundedCents),
+  fees: fromCents(totals.feeCents),
+  balance: fromCents(totals.chargedCents - totals.refundedCents),
+});
+
+/**
+ * What one unit of `currency` was worth in the base currency on `date`,
+ * throwing when it had no rate yet.
+ */
+const getRateToBase = async (db: any, currency: string, date: string): Promise<number> => {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const [rate] = await db.select({ rate: exchangeRatesTable.rate })
+    .from(exchangeRatesTable)
+    .where(and(eq(exchangeRatesTable.currency, currency), sql`${exchangeRatesTable.effectiveDate} <= ${date}`))
+    .orderBy(desc(exchangeRatesTable.effectiveDate))
+    .limit(1);
+  if (!rate) {
+    throw new Error(`No exchange rate for ${currency} on ${date}; add it with SET_EXCHANGE_RATE`);
+  }
+
+  return rate.rate;
+};
+
+export const createRecordPaymentTool = (env: Env) =>
+  createTool({
+    id: "RECORD_PAYMENT",
+    description: "Record money received for (charge) or paid back on (refund) a passenger's booking, in the currency of the passenger's payments. Refunds cannot exceed the balance. Fares are charged automatically when passengers are booked.",
+    inputSchema: z.object({
+      passengerId: z.number().int(),
+      kind: z.enum(["charge", "refund"]),
+      amount: z.number().positive("Amount must be positive"),
+      description: z.string().optional(),
+      changedBy: z.string().optional().describe("Who recorded the payment when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      payment: paymentSchema,
+      totals: paymentTotalsSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const { passenger } = await getPassengerById(db, context.passengerId);
+      const totals = await getPaymentTotals(db, passenger);
+
+      const amountCents = toCents(context.amount);
+      const balanceCents = totals.chargedCents - totals.refundedCents;
+      if (context.kind === 'refund' && amountCents > balanceCents) {
+        throw new Error(`Cannot refund ${formatCents(amountCents)} ${totals.currency}: passenger ${passenger.id} has a balance of ${formatCents(balanceCents)}`);
+      }
+
+      const [payment] = await db.insert(paymentsTable)
+        .values({
+          passengerId: passenger.id,
+          kind: context.kind,
+          amountCents,
+          currency: totals.currency,
+          description: context.description ?? null,
+          createdBy: currentActor(env, context.changedBy),
+        })
+        .returning();
+
+      return {
+        payment: toPaymentOutput(payment),
+        totals: toPaymentTotalsOutput(await getPaymentTotals(db, passenger)),
+      };
+    },
+  });
+
+export const createGetPaymentsTool = (env: Env) =>
+  createTool({
+    id: "GET_PAYMENTS",
+    description: "List the charges, refunds and cancellation fees of a passenger's booking, oldest first, with their totals",
+    inputSchema: z.object({
+      passengerId: z.number().int(),
+    }),
+    outputSchema: z.object({
+      payments: z.array(paymentSchema),
+      totals: paymentTotalsSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const { passenger } = await getPassengerById(db, context.passengerId);
+
+      const payments = await db.select()
+        .from(paymentsTable)
+        .where(eq(paymentsTable.passengerId, passenger.id))
+        .orderBy(asc(paymentsTable.createdAt), asc(paymentsTable.id));
+
+      return {
+        payments: payments.map(toPaymentOutput),
+        totals: toPaymentTotalsOutput(await getPaymentTotals(db, passenger)),
+      };
+    },
+  });
+
+const refundSchema = z.object({
+  passengerId: z.number(),
+  currency: z.string(),
+  paid: z.number().describe("What was left to refund before the cancellation"),
+  penalty: z.number().describe("Cancellation fee kept"),
+  penaltyReason: z.string().nullable(),
+  refund: z.number(),
+  status: z.enum(BOOKING_STATUSES),
+});
+
+/** Statuses CANCEL_AND_REFUND can settle: given up already, or still cancellable */
+const canCancelAndRefund = (status: BookingStatus) =>
+  status === 'cancelled' || status === 'no-show' || canTransition(status, 'cancelled');
+
+/**
+ * Cancels a passenger's booking, unless it is already cancelled or a
+ * no-show, and settles its payments: the cabin's cancellation penalty is
+ * kept as a fee and the rest refunded. `rules` holds the fare rule of
+ * every cabin being settled. Returns null when the booking can be neither
+ * cancelled nor refunded.
+ *
+ * Each step checks what the previous ones left behind, so calling it again
+ * after a failure finishes the job without cancelling, charging fees or
+ * refunding twice: the booking is cancelled first, the fee and refund are
+ * written in one statement, and the move to refunded comes last.
+ */
+const cancelAndRefund = async (
+  db: any,
+  passengerId: number,
+  rules: Map<string, typeof fareRulesTable.$inferSelect>,
+  change: { changedBy: string; reason: string },
+) => {
+  const { passenger, flight } = await getPassengerById(db, passengerId);
+  if (passenger.status === 'refunded') {
+    const totals = await getPaymentTotals(db, passenger);
+    return { alreadyRefunded: { passengerId, currency: totals.currency, refunded: fromCents(totals.refundedCents) } };
+  }
+  if (!canCancelAndRefund(passenger.status)) {
+    return null;
+  }
+
+  const cabin = passenger.ticketClass ?? 'economy';
+  const rule = rules.get(cabin);
+  if (!rule) {
+    throw new Error(`No fare rule for the ${cabin} cabin; add one with SET_FARE_RULE`);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  let cancelledOn = today;
+  let status: BookingStatus = 'cancelled';
+  let promoted: z.infer<typeof waitlistEntrySchema>[] = [];
+  if (passenger.status === 'cancelled' || passenger.status === 'no-show') {
+    // Penalties depend on when the booking was given up, not when it is refunded
+    const [closed] = await db.select({ changedAt: bookingStatusHistoryTable.changedAt })
+      .from(bookingStatusHistoryTable)
+      .where(and(
+        eq(bookingStatusHistoryTable.passengerId, passengerId),
+        eq(bookingStatusHistoryTable.toStatus, passenger.status),
+      ))
+      .orderBy(desc(bookingStatusHistoryTable.changedAt), desc(bookingStatusHistoryTable.id))
+      .limit(1);
+    cancelledOn = closed?.changedAt.slice(0, 10) ?? today;
+    status = passenger.status;
+  } else {
+    ({ promoted } = await changeBookingStatus(db, {
+      passengerId,
+      toStatus: 'cancelled',
+      changedBy: change.changedBy,
+      reason: change.reason,
+    }));
+  }
+
+  // Fees already kept are not refundable, so settling twice refunds nothing more
+  const totals = await getPaymentTotals(db, passenger);
+  const paidCents = Math.max(totals.chargedCents - totals.refundedCents - totals.feeCents, 0);
+  const minimumCents = rule.currency === totals.currency || rule.cancellationFeeMinimumCents === 0
+    ? rule.cancellationFeeMinimumCents
+    : Math.round(rule.cancellationFeeMinimumCents *
+      await getRateToBase(db, rule.currency, cancelledOn) / await getRateToBase(db, totals.currency, cancelledOn));
+  const daysBeforeDeparture = flight ? daysBetween(cancelledOn, flight.scheduledDeparture.slice(0, 10)) : null;
+  const { penaltyCents, reason } = paidCents > 0
+    ? cancellationPenalty({ ...rule, cancellationFeeMinimumCents: minimumCents }, paidCents, daysBeforeDeparture)
+    : { penaltyCents: 0, reason: null };
+  const refundCents = paidCents - penaltyCents;
+
+  const entries = [
+    { kind: 'fee' as const, amountCents: penaltyCents, description: reason },
+    { kind: 'refund' as const, amountCents: refundCents, description: change.reason },
+  ].filter((entry) => entry.amountCents > 0);
+  if (entries.length > 0) {
+    await db.insert(paymentsTable).values(entries.map((entry) => ({
+      ...entry,
+      passengerId,
+      currency: totals.currency,
+      createdBy: change.changedBy,
+    })));
+  }
+
+  const refundedCents = totals.refundedCents + refundCents;
+  if (refundedCents > 0) {
+    await changeBookingStatus(db, {
+      passengerId,
+      toStatus: 'refunded',
+      changedBy: change.changedBy,
+      reason: `Refunded ${formatCents(refundedCents)} ${totals.currency}`,
+    });
+    // The refund was written before an earlier call stopped short of the status change
+    if (refundCents === 0) {
+      return { alreadyRefunded: { passengerId, currency: totals.currency, refunded: fromCents(refundedCents) } };
+    }
+    status = 'refunded';
+  }
+
+  return {
+    refund: {
+      passengerId,
+      currency: totals.currency,
+      paid: fromCents(paidCents),
+      penalty: fromCents(penaltyCents),
+      penaltyReason: reason,
+      refund: fromCents(refundCents),
+      status,
+    },
+    promoted,
+  };
+};
+
+export const createCancelAndRefundTool = (env: Env) =>
+  createTool({
+    id: "CANCEL_AND_REFUND",
+    description: "Cancel a passenger (passengerId) or every passenger of a booking (recordLocator) and refund what they paid minus the cabin's cancellation fee, recording both in the payments ledger. Bookings already cancelled or marked no-show are refunded with the fee due when they were given up. Refunded bookings move to refunded. Passengers already refunded are listed in alreadyRefunded and left alone, so a call that failed part-way can be repeated.",
+    inputSchema: z.object({
+      passengerId: z.number().int().optional(),
+      recordLocator: z.string().optional(),
+      reason: z.string().optional().describe("Why the booking was cancelled, kept in the history and on the refund"),
+      changedBy: z.string().optional().describe("Who cancelled when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      refunds: z.array(refundSchema),
+      alreadyRefunded: z.array(z.object({
+        passengerId: z.number(),
+        currency: z.string(),
+        refunded: z.number(),
+      })).describe("Passengers refunded before this call, e.g. by an earlier call that failed part-way"),
+      skipped: z.array(z.object({
+        passengerId: z.number(),
+        status: z.enum(BOOKING_STATUSES),
+      })).describe("Passengers of the booking whose status allows neither cancelling nor refunding"),
+      promoted: z.array(waitlistEntrySchema).describe("Waitlist entries booked into the seats the cancellation freed"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      if ((context.passengerId === undefined) === (context.recordLocator === undefined)) {
+        throw new Error("Give either passengerId or recordLocator");
+      }
+
+      let passengers: { id: number; status: BookingStatus; ticketClass: TicketClass | null }[];
+      let reason: string;
+      if (context.passengerId !== undefined) {
+        const { passenger } = await getPassengerById(db, context.passengerId);
+        passengers = [passenger];
+        reason = context.reason ?? 'Cancelled and refunded';
+      } else {
+        const booking = await getBookingByLocator(db, context.recordLocator!);
+        passengers = await db.select({
+          id: passengersTable.id,
+          status: passengersTable.status,
+          ticketClass: passengersTable.ticketClass,
+        })
+          .from(passengersTable)
+          .where(eq(passengersTable.bookingId, booking.id))
+          .orderBy(asc(passengersTable.id));
+        reason = context.reason ?? `Booking ${booking.recordLocator} cancelled`;
+      }
+      const changedBy = currentActor(env, context.changedBy);
+
+      // Check everything that could stop a passenger part-way before writing anything
+      const rules = new Map<string, typeof fareRulesTable.$inferSelect>(
+        (await db.select().from(fareRulesTable)).map((rule: typeof fareRulesTable.$inferSelect) => [rule.cabin, rule]),
+      );
+      for (const passenger of passengers) {
+        if (context.passengerId !== undefined && passenger.status !== 'refunded' && !canCancelAndRefund(passenger.status)) {
+          throw new Error(`Passenger ${passenger.id} is ${passenger.status} and cannot be cancelled or refunded`);
+        }
+        const cabin = passenger.ticketClass ?? 'economy';
+        if (canCancelAndRefund(passenger.status) && !rules.has(cabin)) {
+          throw new Error(`No fare rule for the ${cabin} cabin; add one with SET_FARE_RULE`);
+        }
+      }
+
+      // Without transactions a failure leaves earlier passengers settled; repeating the call settles the rest
+      const refunds = [];
+      const alreadyRefunded = [];
+      const skipped = [];
+      const promoted = [];
+      for (const passenger of passengers) {
+        const result = await cancelAndRefund(db, passenger.id, rules, { changedBy, reason });
+        if (result === null) {
+          const { passenger: current } = await getPassengerById(db, passenger.id);
+          skipped.push({ passengerId: passenger.id, status: current.status });
+        } else if (result.alreadyRefunded) {
+          alreadyRefunded.push(result.alreadyRefunded);
+        } else {
+          refunds.push(result.refund);
+          promoted.push(...result.promoted);
+        }
+      }
+
+      return { refunds, alreadyRefunded, skipped, promoted };
+    },
+  });
+
+const reportingCurrencySchema = z.string()
+  .regex(CURRENCY_CODE, "Currency must be a 3-letter ISO 4217 code")
+  .optional()
+  .describe(`Currency to report amounts in, converted at the rate effective on each booking date (defaults to ${DEFAULT_CURRENCY})`);
+
+/**
+ * When a fare was sold: the booking date, or the departure date for
+ * passengers booked before booking dates were recorded. Queries using it
+ * must join flights.
+ */
+const fareDate = sql`coalesce(substr(${passengersTable.createdAt}, 1, 10), substr(${flightsTable.scheduledDeparture}, 1, 10), date('now'))`;
+
+/**
+ * SQL for what one unit of `currency` was worth in the base currency on
+ * `date`, NULL when it had no rate yet.
+ */
+const rateToBase = (currency: SQL, date: SQL): SQL =>
+  sql`(CASE WHEN ${currency} = ${BASE_CURRENCY} THEN 1.0 ELSE (
+    SELECT ${exchangeRatesTable.rate} FROM ${exchangeRatesTable}
+    WHERE ${exchangeRatesTable.currency} = ${currency} AND ${exchangeRatesTable.effectiveDate} <= ${date}
+    ORDER BY ${exchangeRatesTable.effectiveDate} DESC LIMIT 1
+  ) END)`;
+
+/**
+ * SQL for a passenger's fare in `currency` (major units), converted
+ * through the base currency at the rates effective on the fare date. NULL
+ * when the passenger has no price or a rate is missing.
+ */
+const fareIn = (currency: string): SQL =>
+  sql`(CASE WHEN ${passengersTable.currency} = ${currency} THEN ${passengersTable.priceCents} / 100.0 ELSE
+    ${passengersTable.priceCents} / 100.0 * ${rateToBase(sql`${passengersTable.currency}`, fareDate)} / ${rateToBase(sql`${currency}`, fareDate)}
+  END)`;
+
+/**
+ * Matches priced passengers whose fare cannot be converted to `currency`;
+ * analytics refuse to report rather than leave them out.
+ */
+const missingRate = (currency: string): SQL =>
+  sql`${passengersTable.priceCents} IS NOT NULL AND ${fareIn(currency)} IS NULL`;
+
+const missingRateError = (fare: { currency: string; date: string }, currency: string) =>
+  new Error(`No exchange rate to convert ${fare.currency} to ${currency} on ${fare.date}; add it with SET_EXCHANGE_RATE`);
+
+const routeStatsSchema = z.object({
+  origin: z.string(),
+  destination: z.string(),
+  flights: z.number(),
+  passengers: z.number().describe("Bookings holding a seat"),
+  revenue: z.number(),
+  averageFare: z.number().describe("Revenue per passenger with a price"),
+  distanceKm: z.number().nullable().describe("Great-circle distance, null when an airport is unknown"),
+  revenuePerKm: z.number().nullable().describe("Revenue per kilometer flown (revenue ÷ (flights × distance))"),
+  seats: z.number().describe("Seats for sale across the route's flights"),
+  loadFactor: z.number().describe("Passengers ÷ seats"),
+});
+
+export const createGetRouteStatsTool = (env: Env) =>
+  createTool({
+    id: "GET_ROUTE_STATS",
+    description: "Passengers, revenue, average fare, revenue per km and load factor per origin-destination pair, optionally for flights departing within a date range. Only bookings that hold a seat count.",
+    inputSchema: z.object({
+      from: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("First departure date, inclusive"),
+      to: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("Last departure date, inclusive"),
+      reportingCurrency: reportingCurrencySchema,
+    }),
+    outputSchema: z.object({
+      reportingCurrency: z.string(),
+      routes: z.array(routeStatsSchema).describe("Routes by revenue, highest first"),
+      airports: z.array(airportSchema).describe("Known airports served by these routes, for drawing the network"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const reportingCurrency = context.reportingCurrency ?? DEFAULT_CURRENCY;
+      if (context.from && context.to && context.from > context.to) {
+        throw new Error("from must not be after to");
+      }
+
+      const departureDate = sql`substr(${flightsTable.scheduledDeparture}, 1, 10)`;
+      const flights = await db.select({ id: flightsTable.id })
+        .from(flightsTable)
+        .where(and(
+          context.from ? sql`${departureDate} >= ${context.from}` : undefined,
+          context.to ? sql`${departureDate} <= ${context.to}` : undefined,
+        ));
+      const flightIds: number[] = flights.map((flight: { id: number }) => flight.id);
+
+      const revenueByFlight = new Map<number, { revenue: number; priced: number }>();
+      // Leaves room for the status and currency parameters under D1's 100 bound parameters
+      for (const ids of chunk(flightIds, 90)) {
+        const sold = and(
+          inArray(passengersTable.flightId, ids),
+          not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+        );
+        const [unconvertible] = await db
+          .select({ currency: passengersTable.currency, date: sql<string>`${fareDate}` })
+          .from(passengersTable)
+          .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+          .where(and(sold, missingRate(reportingCurrency)))
+          .limit(1);
+        if (unconvertible) throw missingRateError(unconvertible, reportingCurrency);
+
+        const rows = await db
+          .select({
+            flightId: passengersTable.flightId,
+            revenue: sql<number>`coalesce(sum(${fareIn(reportingCurrency)}), 0)`,
+            priced: sql<number>`count(${passengersTable.priceCents})`,
+          })
+          .from(passengersTable)
+          .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+          .where(sold)
+          .groupBy(passengersTable.flightId);
+        for (const row of rows) {
+          revenueByFlight.set(Number(row.flightId), { revenue: Number(row.revenue), priced: Number(row.priced) });
+        }
+      }
+
+      const routes = new Map<string, {
+        origin: string;
+        destination: string;
+        flights: number;
+        passengers: number;
+        priced: number;
+        revenue: number;
+        seats: number;
+      }>();
+      for (const { flight, cabins } of await getFlightLoads(db, flightIds)) {
+        const key = `${flight.origin}-${flight.destination}`;
+        const route = routes.get(key) ??
+          { origin: flight.origin, destination: flight.destination, flights: 0, passengers: 0, priced: 0, revenue: 0, seats: 0 };
+        const sales = revenueByFlight.get(flight.id);
+
+        route.flights++;
+        route.passengers += cabins.reduce((sum, cabin) => sum + cabin.booked, 0);
+        route.seats += cabins.reduce((sum, cabin) => sum + cabin.capacity, 0);
+        route.revenue += sales?.revenue ?? 0;
+        route.priced += sales?.priced ?? 0;
+        routes.set(key, route);
+      }
+
+      const airports = await getAirports(db);
+      const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+      const stats = [...routes.values()].map(({ priced, ...route }) => {
+        const distanceKm = routeDistanceKm(route.origin, route.destination, airports);
+        return {
+          ...route,
+          revenue: round(route.revenue),
+          averageFare: priced > 0 ? round(route.revenue / priced) : 0,
+          distanceKm,
+          revenuePerKm: distanceKm ? round(route.revenue / (route.flights * distanceKm), 4) : null,
+          loadFactor: route.seats > 0 ? round(route.passengers / route.seats, 4) : 0,
+        };
+      }).sort((a, b) => b.revenue - a.revenue || a.origin.localeCompare(b.origin) || a.destination.localeCompare(b.destination));
+
+      const served = new Set(stats.flatMap((route) => [route.origin, route.destination]));
+      return {
+        reportingCurrency,
+        routes: stats,
+        airports: airports
+          .filter((airport) => served.has(airport.iataCode))
+          .map(({ id: _id, ...airport }) => airport),
+      };
+    },
+  });
+
+const TIME_SERIES_GRANULARITIES = ["day", "week", "month"] as const;
+type TimeSeriesGranularity = typeof TIME_SERIES_GRANULARITIES[number];
+
+/**
+ * SQL for the first day of the period `date` falls in. Weeks start on
+ * Monday.
+ */
+const periodStart = (date: SQL, granularity: TimeSeriesGranularity): SQL =>
+  granularity === "day"
+    ? sql`date(${date})`
+    : granularity === "week"
+    ? sql`date(${date}, 'weekday 0', '-6 days')`
+    : sql`date(${date}, 'start of month')`;
+
+/**
+ * Start of the period after the one starting at `start` (YYYY-MM-DD).
+ */
+const nextPeriod = (start: string, granularity: TimeSeriesGranularity): string => {
+  const date = new Date(`${start}T00:00:00Z`);
+  if (granularity === "month") {
+    date.setUTCMonth(date.getUTCMonth() + 1);
+  } else {
+    date.setUTCDate(date.getUTCDate() + (granularity === "week" ? 7 : 1));
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+export const createGetTimeSeriesTool = (env: Env) =>
+  createTool({
+    id: "GET_TIME_SERIES",
+    description: "Passengers and revenue per day, week or month, by booking date or departure date. Without a status filter, cancelled, no-show and refunded bookings are left out.",
+    inputSchema: z.object({
+      granularity: z.enum(TIME_SERIES_GRANULARITIES).optional().describe("Period length (default day); weeks start on Monday"),
+      dateField: z.enum(["booking", "departure"]).optional().describe("Bucket by when the passenger was booked (default) or when the flight departs"),
+      from: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("First date, inclusive"),
+      to: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("Last date, inclusive"),
+      departureCity: z.string().optional().describe("Filter by departure city or airport code"),
+      arrivalCity: z.string().optional().describe("Filter by arrival city or airport code"),
+      status: z.enum(BOOKING_STATUSES).optional().describe("Only count bookings with this status"),
+      reportingCurrency: reportingCurrencySchema,
+    }),
+    outputSchema: z.object({
+      granularity: z.enum(TIME_SERIES_GRANULARITIES),
+      reportingCurrency: z.string(),
+      dateField: z.enum(["booking", "departure"]),
+      points: z.array(z.object({
+        periodStart: z.string().describe("First day of the period (YYYY-MM-DD)"),
+        passengers: z.number(),
+        revenue: z.number(),
+      })).describe("One point per period from the first to the last with bookings, including empty ones"),
+      totalPassengers: z.number(),
+      totalRevenue: z.number(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const granularity = context.granularity ?? "day";
+      const dateField = context.dateField ?? "booking";
+      const reportingCurrency = context.reportingCurrency ?? DEFAULT_CURRENCY;
+      if (context.from && context.to && context.from > context.to) {
+        throw new Error("from must not be after to");
+      }
+
+      const date = dateField === "booking"
+        ? sql`substr(${passengersTable.createdAt}, 1, 10)`
+        : sql`substr(${flightsTable.scheduledDeparture}, 1, 10)`;
+      const period = periodStart(date, granularity);
+
+      const conditions = [
+        ...buildPassengerFilters(context, await getAirports(db)),
+        sql`${period} IS NOT NULL`,
+      ];
+      if (!context.status) {
+        conditions.push(not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)));
+      }
+      if (context.from) conditions.push(sql`${date} >= ${context.from}`);
+      if (context.to) conditions.push(sql`${date} <= ${context.to}`);
+
+      const [unconvertible] = await db
+        .select({ currency: passengersTable.currency, date: sql<string>`${fareDate}` })
+        .from(passengersTable)
+        .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(and(...conditions, missingRate(reportingCurrency)))
+        .limit(1);
+      if (unconvertible) throw missingRateError(unconvertible, reportingCurrency);
+
+      const rows: { periodStart: string; passengers: number; revenue: number }[] = await db
+        .select({
+          periodStart: sql<string>`${period}`,
+          passengers: sql<number>`count(*)`,
+          revenue: sql<number>`coalesce(sum(${fareIn(reportingCurrency)}), 0)`,
+        })
+        .from(passengersTable)
+        .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(and(...conditions))
+        .groupBy(period)
+        .orderBy(period);
+
+      // Periods without bookings are points too, so the series has no gaps
+      const byPeriod = new Map(rows.map((row) => [row.periodStart, row]));
+      const points = [];
+      if (rows.length > 0) {
+        const last = rows[rows.length - 1].periodStart;
+        for (let start = rows[0].periodStart; start <= last; start = nextPeriod(start, granularity)) {
+          const row = byPeriod.get(start);
+          points.push({
+            periodStart: start,
+            passengers: Number(row?.passengers ?? 0),
+            revenue: Math.round(Number(row?.revenue ?? 0) * 100) / 100,
+          });
+        }
+      }
+
+      return {
+        granularity,
+        dateField,
+        reportingCurrency,
+        points,
+        totalPassengers: points.reduce((sum, point) => sum + point.passengers, 0),
+        totalRevenue: Math.round(points.reduce((sum, point) => sum + point.revenue, 0) * 100) / 100,
+      };
+    },
+  });
+
+/**
+ * SQL for a payment's amount in `currency` (major units), converted
+ * through the base currency at the rates effective on the payment date.
+ * NULL when a rate is missing.
+ */
+const paymentIn = (currency: string): SQL => {
+  const paidOn = sql`substr(${paymentsTable.createdAt}, 1, 10)`;
+  return sql`(CASE WHEN ${paymentsTable.currency} = ${currency} THEN ${paymentsTable.amountCents} / 100.0 ELSE
+    ${paymentsTable.amountCents} / 100.0 * ${rateToBase(sql`${paymentsTable.currency}`, paidOn)} / ${rateToBase(sql`${currency}`, paidOn)}
+  END)`;
+};
+
+const reconciliationSchema = z.object({
+  gross: z.number().describe("Charges received"),
+  refunded: z.number(),
+  net: z.number().describe("Gross minus refunded"),
+  fees: z.number().describe("Cancellation fees kept, part of net"),
+  bookedFares: z.number().describe("Fares of the bookings that still hold a seat"),
+  unreconciled: z.number().describe("Net not explained by booked fares and fees kept: money owed (negative) or to refund (positive)"),
+});
+
+export const createGetRevenueReconciliationTool = (env: Env) =>
+  createTool({
+    id: "GET_REVENUE_RECONCILIATION",
+    description: "Gross, refunded and net revenue per flight from the payments ledger, checked against the fares of the bookings still flying, optionally for flights departing within a date range. Flights whose payments and fares disagree have a non-zero unreconciled amount.",
+    inputSchema: z.object({
+      from: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("First departure date, inclusive"),
+      to: z.string().regex(ISO_DATE, "Use YYYY-MM-DD").optional().describe("Last departure date, inclusive"),
+      reportingCurrency: reportingCurrencySchema
+        .describe(`Currency to report amounts in, converted at the rate effective on each payment or booking date (defaults to ${DEFAULT_CURRENCY})`),
+    }),
+    outputSchema: z.object({
+      reportingCurrency: z.string(),
+      flights: z.array(reconciliationSchema.extend({
+        flightId: z.number(),
+        flightNumber: z.string(),
+        origin: z.string(),
+        destination: z.string(),
+        departureDate: z.string(),
+      })).describe("Flights with payments or priced bookings, by departure"),
+      totals: reconciliationSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const reportingCurrency = context.reportingCurrency ?? DEFAULT_CURRENCY;
+      if (context.from && context.to && context.from > context.to) {
+        throw new Error("from must not be after to");
+      }
+
+      const departureDate = sql`substr(${flightsTable.scheduledDeparture}, 1, 10)`;
+      const inRange = and(
+        context.from ? sql`${departureDate} >= ${context.from}` : undefined,
+        context.to ? sql`${departureDate} <= ${context.to}` : undefined,
+      );
+
+      const [unconvertiblePayment] = await db
+        .select({ currency: paymentsTable.currency, date: sql<string>`substr(${paymentsTable.createdAt}, 1, 10)` })
+        .from(paymentsTable)
+        .innerJoin(passengersTable, eq(paymentsTable.passengerId, passengersTable.id))
+        .innerJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(and(inRange, sql`${paymentIn(reportingCurrency)} IS NULL`))
+        .limit(1);
+      if (unconvertiblePayment) throw missingRateError(unconvertiblePayment, reportingCurrency);
+
+      const active = not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES));
+      const [unconvertibleFare] = await db
+        .select({ currency: passengersTable.currency, date: sql<string>`${fareDate}` })
+        .from(passengersTable)
+        .innerJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(and(inRange, active, missingRate(reportingCurrency)))
+        .limit(1);
+      if (unconvertibleFare) throw missingRateError(unconvertibleFare, reportingCurrency);
+
+      const flightColumns = {
+        flightId: flightsTable.id,
+        flightNumber: flightsTable.flightNumber,
+        origin: flightsTable.origin,
+        destination: flightsTable.destination,
+        departureDate: sql<string>`${departureDate}`,
+      };
+      const amount = paymentIn(reportingCurrency);
+      const paymentRows = await db
+        .select({
+          ...flightColumns,
+          gross: sql<number>`coalesce(sum(CASE WHEN ${paymentsTable.kind} = 'charge' THEN ${amount} END), 0)`,
+          refunded: sql<number>`coalesce(sum(CASE WHEN ${paymentsTable.kind} = 'refund' THEN ${amount} END), 0)`,
+          fees: sql<number>`coalesce(sum(CASE WHEN ${paymentsTable.kind} = 'fee' THEN ${amount} END), 0)`,
+        })
+        .from(paymentsTable)
+        .innerJoin(passengersTable, eq(paymentsTable.passengerId, passengersTable.id))
+        .innerJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(inRange)
+        .groupBy(flightsTable.id);
+      const fareRows = await db
+        .select({
+          ...flightColumns,
+          bookedFares: sql<number>`coalesce(sum(${fareIn(reportingCurrency)}), 0)`,
+        })
+        .from(passengersTable)
+        .innerJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+        .where(and(inRange, active, sql`${passengersTable.priceCents} IS NOT NULL`))
+        .groupBy(flightsTable.id);
+
+      const round = (value: number) => Math.round(value * 100) / 100;
+      type FlightRow = { flightId: number; flightNumber: string; origin: string; destination: string; departureDate: string };
+      const byFlight = new Map<number, FlightRow & { gross: number; refunded: number; fees: number; bookedFares: number }>();
+      const flightOf = (row: FlightRow) => {
+        const flight = byFlight.get(row.flightId) ?? {
+          flightId: row.flightId,
+          flightNumber: row.flightNumber,
+          origin: row.origin,
+          destination: row.destination,
+          departureDate: row.departureDate,
+          gross: 0,
+          refunded: 0,
+          fees: 0,
+          bookedFares: 0,
+        };
+        byFlight.set(row.flightId, flight);
+        return flight;
+      };
+      for (const row of paymentRows) {
+        Object.assign(flightOf(row), {
+          gross: round(Number(row.gross)),
+          refunded: round(Number(row.refunded)),
+          fees: round(Number(row.fees)),
+        });
+      }
+      for (const row of fareRows) {
+        flightOf(row).bookedFares = round(Number(row.bookedFares));
+      }
+
+      const withNet = <T extends { gross: number; refunded: number; fees: number; bookedFares: number }>(amounts: T) => {
+        const net = round(amounts.gross - amounts.refunded);
+        return { ...amounts, net, unreconciled: round(net - amounts.fees - amounts.bookedFares) };
+      };
+      const flights = [...byFlight.values()]
+        .sort((a, b) => a.departureDate.localeCompare(b.departureDate) || a.flightId - b.flightId)
+        .map(withNet);
+      const sum = (key: "gross" | "refunded" | "fees" | "bookedFares") =>
+        round(flights.reduce((total, flight) => total + flight[key], 0));
+
+      return {
+        reportingCurrency,
+        flights,
+        totals: withNet({ gross: sum("gross"), refunded: sum("refunded"), fees: sum("fees"), bookedFares: sum("bookedFares") }),
+      };
+    },
+  });
+
+const seatSchema = z.object({
+  seat: z.string(),
+  row: z.number(),
+  letter: z.string(),
+  cabin: z.enum(TICKET_CLASSES),
+  blocked: z.boolean(),
+  passengerId: z.number().nullable(),
+  passengerName: z.string().nullable(),
+});
+
+/**
+ * Seats taken on a flight by bookings that still hold them, keyed by seat.
+ */
+const getOccupiedSeats = async (db: any, flightId: number) => {
+  const rows = await db.select({
+    id: passengersTable.id,
+    firstName: passengersTable.firstName,
+    lastName: passengersTable.lastName,
+    seat: passengersTable.seat,
+  })
+    .from(passengersTable)
+    .where(and(
+      eq(passengersTable.flightId, flightId),
+      sql`${passengersTable.seat} IS NOT NULL`,
+    ));
+
+  return new Map<string, { id: number; name: string }>(
+    rows.map((row: any) => [row.seat, { id: row.id, name: `${row.firstName ?? ''} ${row.lastName ?? ''}`.trim() }]),
+  );
+};
+
+export const createGetSeatMapTool = (env: Env) =>
+  createTool({
+    id: "GET_SEAT_MAP",
+    description: "Get the seat map of a flight's aircraft, with blocked seats and who sits where",
+    inputSchema: z.object({
+      flightId: z.number().int(),
+    }),
+    outputSchema: z.object({
+      flightId: z.number(),
+      flightNumber: z.string(),
+      aircraft: z.string(),
+      rows: z.array(z.object({
+        row: z.number(),
+        cabin: z.enum(TICKET_CLASSES),
+        seats: z.array(seatSchema.nullable()).describe("Seats from window to window; null marks an aisle"),
+      })),
+      totalSeats: z.number(),
+      occupiedSeats: z.number(),
+      blockedSeats: z.number(),
+      availableSeats: z.number(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const flight = await getFlightById(db, context.flightId);
+      const seatMap = seatMapFor(flight.aircraft);
+      const occupied = await getOccupiedSeats(db, flight.id);
+
+      const rows = buildSeatRows(seatMap).map(({ row, cabin, seats }) => ({
+        row,
+        cabin,
+        seats: seats.map((seat) => seat && {
+          seat: seat.seat,
+          row: seat.row,
+          letter: seat.letter,
+          cabin: seat.cabin,
+          blocked: seat.blocked,
+          passengerId: occupied.get(seat.seat)?.id ?? null,
+          passengerName: occupied.get(seat.seat)?.name ?? null,
+        }),
+      }));
+
+      const seats = listSeats(seatMap);
+      const blockedSeats = seats.filter((seat) => seat.blocked).length;
+      const occupiedSeats = seats.filter((seat) => occupied.has(seat.seat)).length;
+
+      return {
+        flightId: flight.id,
+        flightNumber: flight.flightNumber,
+        aircraft: seatMap.aircraft,
+        rows,
+        totalSeats: seats.length,
+        occupiedSeats,
+        blockedSeats,
+        availableSeats: seats.length - blockedSeats - occupiedSeats,
+      };
+    },
+  });
+
+export const createAssignSeatTool = (env: Env) =>
+  createTool({
+    id: "ASSIGN_SEAT",
+    description: "Assign a seat to a passenger, or clear it with seat: null. The seat must exist in the passenger's cabin, not be blocked and not be taken on the same flight.",
+    inputSchema: z.object({
+      passengerId: z.number().int(),
+      seat: z.string().trim().toUpperCase().nullable().describe("Seat such as 12C, or null to unassign"),
+    }),
+    outputSchema: z.object({
+      passenger: passengerSchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const { passenger, flight } = await getPassengerById(db, context.passengerId);
+
+      if (context.seat !== null) {
+        if (!flight) {
+          throw new Error(`Passenger ${passenger.id} is not booked on a flight`);
+        }
+        if (INACTIVE_BOOKING_STATUSES.includes(passenger.status)) {
+          throw new Error(`Cannot seat a ${passenger.status} booking`);
+        }
+
+        const seatMap = seatMapFor(flight.aircraft);
+        const seat = listSeats(seatMap).find((s) => s.seat === context.seat);
+        if (!seat) {
+          throw new Error(`Seat ${context.seat} does not exist on a ${seatMap.aircraft}`);
+        }
+        if (seat.blocked) {
+          throw new Error(`Seat ${seat.seat} is blocked`);
+        }
+        if (seat.cabin !== passenger.ticketClass) {
+          throw new Error(`Seat ${seat.seat} is in ${seat.cabin}, but the passenger is booked in ${passenger.ticketClass}`);
+        }
+
+        const occupant = (await getOccupiedSeats(db, flight.id)).get(seat.seat);
+        if (occupant && occupant.id !== passenger.id) {
+          throw new Error(`Seat ${seat.seat} is already taken by passenger ${occupant.id}`);
+        }
+      }
+
+      await db.update(passengersTable)
+        .set({ seat: context.seat })
+        .where(eq(passengersTable.id, passenger.id));
+
+      return {
+        passenger: toPassengerOutput(await getPassengerById(db, passenger.id)),
+      };
+    },
+  });
+
+/**
+ * Passengers who should sit together: the party of each booking. Older
+ * passengers without a booking are grouped by surname.
+ */
+const seatingGroups = (
+  passengers: { id: number; lastName: string | null; bookingId: number | null }[],
+): number[][] => {
+  const groups = new Map<string, number[]>();
+  for (const passenger of passengers) {
+    const key = passenger.bookingId !== null
+      ? `booking:${passenger.bookingId}`
+      : passenger.lastName?.trim().toLowerCase() || `#${passenger.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), passenger.id]);
+  }
+  return [...groups.values()];
+};
+
+export const createAutoAssignSeatsTool = (env: Env) =>
+  createTool({
+    id: "AUTO_ASSIGN_SEATS",
+    description: "Assign seats to every unseated passenger of a flight in their own cabin, keeping parties travelling together in adjacent seats",
+    inputSchema: z.object({
+      flightId: z.number().int(),
+    }),
+    outputSchema: z.object({
+      assigned: z.array(z.object({
+        passengerId: z.number(),
+        seat: z.string(),
+      })),
+      unassigned: z.array(z.object({
+        passengerId: z.number(),
+        reason: z.string(),
+      })),
+      message: z.string(),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const flight = await getFlightById(db, context.flightId);
+      const seatMap = seatMapFor(flight.aircraft);
+      const occupied = await getOccupiedSeats(db, flight.id);
+
+      const unseated = await db.select({
+        id: passengersTable.id,
+        lastName: passengersTable.lastName,
+        bookingId: passengersTable.bookingId,
+        ticketClass: passengersTable.ticketClass,
+      })
+        .from(passengersTable)
+        .where(and(
+          eq(passengersTable.flightId, flight.id),
+          sql`${passengersTable.seat} IS NULL`,
+          not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+        ))
+        .orderBy(asc(passengersTable.id));
+
+      const assigned: { passengerId: number; seat: string }[] = [];
+      const unassigned: { passengerId: number; reason: string }[] = [];
+
+      for (const cabin of TICKET_CLASSES) {
+        const passengers = unseated.filter((p: any) => p.ticketClass === cabin);
+        if (passengers.length === 0) continue;
+
+        const hasCabin = seatMap.rows.some((block) => block.cabin === cabin);
+        const freeSeats = listSeats(seatMap).filter((seat) =>
+          seat.cabin === cabin && !seat.blocked && !occupied.has(seat.seat)
+        );
+        const seats = allocateSeats(freeSeats, seatingGroups(passengers));
+
+        for (const passenger of passengers) {
+          const seat = seats.get(passenger.id);
+          if (seat) {
+            assigned.push({ passengerId: passenger.id, seat });
+          } else {
+            unassigned.push({
+              passengerId: passenger.id,
+              reason: hasCabin
+                ? `No free ${cabin} seats left`
+                : `${seatMap.aircraft} has no ${cabin} cabin`,
+            });
+          }
+        }
+      }
+
+      // Only unseated passengers are touched, so running this again after a
+      // failure seats the rest
+      for (const { passengerId, seat } of assigned) {
+        await db.update(passengersTable)
+          .set({ seat })
+          .where(and(eq(passengersTable.id, passengerId), sql`${passengersTable.seat} IS NULL`));
+      }
+
+      return {
+        assigned,
+        unassigned,
+        message: `Assigned ${assigned.length} seats on ${flight.flightNumber}` +
+          (unassigned.length > 0 ? `; ${unassigned.length} passengers could not be seated` : ''),
+      };
+    },
+  });
+
+const cabinLoadSchema = z.object({
+  cabin: z.enum(TICKET_CLASSES),
+  capacity: z.number(),
+  limit: z.number().describe("Bookings allowed including overbooking"),
+  booked: z.number(),
+  available: z.number().describe("Bookings left before the limit; negative when oversold"),
+  loadFactor: z.number().describe("Booked / capacity, e.g. 0.85"),
+});
+
+export const createGetFlightLoadTool = (env: Env) =>
+  createTool({
+    id: "GET_FLIGHT_LOAD",
+    description: "Get capacity, bookings and load factor per cabin for one flight or for every flight",
+    inputSchema: z.object({
+      flightId: z.number().int().optional().describe("Flight to report on (defaults to all flights)"),
+    }),
+    outputSchema: z.object({
+      flights: z.array(z.object({
+        flightId: z.number(),
+        flightNumber: z.string(),
+        departureDate: z.string(),
+        aircraft: z.string(),
+        overbookingPercent: z.number(),
+        capacity: z.number(),
+        booked: z.number(),
+        loadFactor: z.number(),
+        waitlisted: z.number().describe("Passengers waiting for a seat on the flight"),
+        cabins: z.array(cabinLoadSchema),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      if (context.flightId !== undefined) {
+        await getFlightById(db, context.flightId);
+      }
+
+      const loads = await getFlightLoads(db, context.flightId !== undefined ? [context.flightId] : undefined);
+      const waiting = await db
+        .select({ flightId: waitlistTable.flightId, count: sql<number>`count(*)` })
+        .from(waitlistTable)
+        .where(and(
+          eq(waitlistTable.status, 'waiting'),
+          context.flightId !== undefined ? eq(waitlistTable.flightId, context.flightId) : undefined,
+        ))
+        .groupBy(waitlistTable.flightId);
+      const waitlisted = new Map<number, number>(waiting.map((row: any) => [row.flightId, Number(row.count)]));
+
+      return {
+        flights: loads.map(({ flight, cabins }) => {
+          const capacity = cabins.reduce((sum, cabin) => sum + cabin.capacity, 0);
+          const booked = cabins.reduce((sum, cabin) => sum + cabin.booked, 0);
+          return {
+            flightId: flight.id,
+            flightNumber: flight.flightNumber,
+            departureDate: flight.scheduledDeparture,
+            aircraft: seatMapFor(flight.aircraft).aircraft,
+            overbookingPercent: flight.overbookingPercent,
+            capacity,
+            booked,
+            loadFactor: capacity > 0 ? Math.round(booked / capacity * 1000) / 1000 : 0,
+            waitlisted: waitlisted.get(flight.id) ?? 0,
+            cabins,
+          };
+        }),
+      };
+    },
+  });
+
+export const createSetFlightCapacityTool = (env: Env) =>
+  createTool({
+    id: "SET_FLIGHT_CAPACITY",
+    description: "Configure a flight's aircraft, overbooking percentage and per-cabin capacity overrides",
+    inputSchema: z.object({
+      flightId: z.number().int(),
+      aircraft: z.enum(Object.keys(SEAT_MAPS) as [string, ...string[]]).optional()
+        .describe("Aircraft type, which sets the seat map and default cabin capacities"),
+      overbookingPercent: z.number().int().min(0).max(50).optional()
+        .describe("How far above capacity each cabin may be sold (10 = 110%)"),
+      cabinCapacity: z.record(z.enum(TICKET_CLASSES), z.number().int().min(0).nullable()).optional()
+        .describe("Seats per cabin, overriding the seat map; null removes an override"),
+    }),
+    outputSchema: z.object({
+      cabins: z.array(cabinLoadSchema),
+      clearedSeats: z.array(z.object({
+        passengerId: z.number(),
+        seat: z.string(),
+      })).describe("Seat assignments removed because the new aircraft has no such seat in the passenger's cabin"),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const flight = await getFlightById(db, context.flightId);
+      const [current] = await getFlightLoads(db, [context.flightId]);
+
+      // Capacity may not drop below the bookings a cabin already holds
+      const aircraft = context.aircraft ?? flight.aircraft;
+      const overbookingPercent = context.overbookingPercent ?? flight.overbookingPercent;
+      const overrides = new Map<TicketClass, number>((await db.select()
+        .from(flightCabinCapacityTable)
+        .where(eq(flightCabinCapacityTable.flightId, context.flightId)))
+        .map((override: typeof flightCabinCapacityTable.$inferSelect) => [override.cabin, override.capacity]));
+      for (const [cabin, capacity] of Object.entries(context.cabinCapacity ?? {})) {
+        if (capacity === null || capacity === undefined) {
+          overrides.delete(cabin as TicketClass);
+        } else {
+          overrides.set(cabin as TicketClass, capacity);
+        }
+      }
+      const capacities = cabinCapacities(aircraft, overrides);
+      for (const load of current.cabins) {
+        const limit = bookingLimit(capacities.get(load.cabin) ?? 0, overbookingPercent);
+        if (load.booked > limit && limit < load.limit) {
+          throw new Error(
+            `Flight ${flight.flightNumber} ${load.cabin} cabin has ${load.booked} bookings, more than the new limit of ${limit}`,
+          );
+        }
+      }
+
+      // Seats follow the seat map, so a new aircraft keeps only the seats it has
+      const clearedSeats: { passengerId: number; seat: string }[] = [];
+      if (context.aircraft !== undefined && seatMapFor(context.aircraft).aircraft !== seatMapFor(flight.aircraft).aircraft) {
+        const seats = new Set(listSeats(seatMapFor(context.aircraft))
+          .filter((seat) => !seat.blocked)
+          .map((seat) => `${seat.cabin}|${seat.seat}`));
+        const seated = await db.select({ id: passengersTable.id, cabin: passengersTable.ticketClass, seat: passengersTable.seat })
+          .from(passengersTable)
+          .where(and(eq(passengersTable.flightId, context.flightId), isNotNull(passengersTable.seat)));
+        for (const passenger of seated) {
+          if (!seats.has(`${passenger.cabin}|${passenger.seat}`)) {
+            clearedSeats.push({ passengerId: passenger.id, seat: passenger.seat! });
+          }
+        }
+        if (clearedSeats.length > 0) {
+          await db.update(passengersTable)
+            .set({ seat: null })
+            .where(inJsonList(passengersTable.id, clearedSeats.map(({ passengerId }) => passengerId)));
+        }
+      }
+
+      if (context.aircraft !== undefined || context.overbookingPercent !== undefined) {
+        await db.update(flightsTable)
+          .set({
+            ...(context.aircraft !== undefined && { aircraft: context.aircraft }),
+            ...(context.overbookingPercent !== undefined && { overbookingPercent: context.overbookingPercent }),
+          })
+          .where(eq(flightsTable.id, context.flightId));
+      }
+
+      for (const [cabin, capacity] of Object.entries(context.cabinCapacity ?? {})) {
+        if (capacity === null || capacity === undefined) {
+          await db.delete(flightCabinCapacityTable)
+            .where(and(
+              eq(flightCabinCapacityTable.flightId, context.flightId),
+              eq(flightCabinCapacityTable.cabin, cabin as TicketClass),
+            ));
+        } else {
+          await db.insert(flightCabinCapacityTable)
+            .values({ flightId: context.flightId, cabin: cabin as TicketClass, capacity })
+            .onConflictDoUpdate({
+              target: [flightCabinCapacityTable.flightId, flightCabinCapacityTable.cabin],
+              set: { capacity },
+            });
+        }
+      }
+
+      const [load] = await getFlightLoads(db, [context.flightId]);
+      return { cabins: load.cabins, clearedSeats };
+    },
+  });
+
+/**
+ * Waiting entries of a flight (optionally one cabin) in promotion order.
+ */
+const getWaitingList = async (db: any, flightId: number, cabin?: TicketClass) =>
+  await db.select()
+    .from(waitlistTable)
+    .where(and(
+      eq(waitlistTable.flightId, flightId),
+      eq(waitlistTable.status, 'waiting'),
+      cabin ? eq(waitlistTable.cabin, cabin) : undefined,
+    ))
+    .orderBy(desc(waitlistTable.priority), asc(waitlistTable.createdAt), asc(waitlistTable.id));
+
+const positionedWaitlistEntrySchema = waitlistEntrySchema.extend({
+  position: z.number().nullable().describe("Place in line within the cabin, 1 is next; null once resolved"),
+});
+
+export const createJoinWaitlistTool = (env: Env) =>
+  createTool({
+    id: "JOIN_WAITLIST",
+    description: "Add a passenger to the waitlist of a full flight cabin. Waitlisted passengers are booked automatically, highest priority first, when a booking in that cabin is cancelled.",
+    inputSchema: passengerFieldsSchema.omit({ ticketClass: true, status: true }).extend({
+      flightId: z.number().int(),
+      cabin: z.enum(TICKET_CLASSES).optional().describe("Cabin to wait for (defaults to economy)"),
+      priority: z.number().int().min(0).max(100).optional()
+        .describe("Higher priority is promoted first (defaults to 0); ties go to whoever joined first"),
+      changedBy: z.string().optional().describe("Who added the passenger when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      entry: positionedWaitlistEntrySchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const { flightId, cabin = 'economy', priority, changedBy, ...fields } = context;
+
+      const flight = await getFlightById(db, flightId);
+      await assertNotBooked(db, fields.email, flightId);
+
+      const load = await getCabinLoad(db, flightId, cabin);
+      if (load.available > 0) {
+        throw new Error(
+          `Flight ${flight.flightNumber} ${cabin} cabin still has ${load.available} bookings available; use CREATE_PASSENGER instead`,
+        );
+      }
+
+      const entry = await addToWaitlist(db, {
+        flightId,
+        cabin,
+        firstName: fields.firstName,
+        lastName: fields.lastName,
+        email: fields.email,
+        phone: fields.phone ?? null,
+        nationality: fields.nationality ?? null,
+        dateOfBirth: fields.dateOfBirth ?? null,
+        priceCents: fields.price == null ? null : toCents(fields.price),
+        currency: fields.currency ?? DEFAULT_CURRENCY,
+        priority: priority ?? 0,
+      }, currentActor(env, changedBy));
+
+      const waiting = await getWaitingList(db, flightId, cabin);
+      return {
+        entry: { ...entry, position: waiting.findIndex((e: any) => e.id === entry.id) + 1 },
+      };
+    },
+  });
+
+export const createGetWaitlistTool = (env: Env) =>
+  createTool({
+    id: "GET_WAITLIST",
+    description: "List a flight's waitlist in promotion order",
+    inputSchema: z.object({
+      flightId: z.number().int(),
+      cabin: z.enum(TICKET_CLASSES).optional(),
+      includeResolved: z.boolean().optional().describe("Also list promoted and removed entries"),
+    }),
+    outputSchema: z.object({
+      entries: z.array(positionedWaitlistEntrySchema),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      await getFlightById(db, context.flightId);
+
+      const waiting: (typeof waitlistTable.$inferSelect)[] = await getWaitingList(db, context.flightId, context.cabin);
+      const positions = new Map<TicketClass, number>();
+      const entries = waiting.map((entry) => {
+        const position = (positions.get(entry.cabin) ?? 0) + 1;
+        positions.set(entry.cabin, position);
+        return { ...entry, position };
+      });
+
+      if (context.includeResolved) {
+        const resolved = await db.select()
+          .from(waitlistTable)
+          .where(and(
+            eq(waitlistTable.flightId, context.flightId),
+            not(eq(waitlistTable.status, 'waiting')),
+            context.cabin ? eq(waitlistTable.cabin, context.cabin) : undefined,
+          ))
+          .orderBy(desc(waitlistTable.resolvedAt), desc(waitlistTable.id));
+        entries.push(...resolved.map((entry: any) => ({ ...entry, position: null })));
+      }
+
+      return { entries };
+    },
+  });
+
+export const createRemoveFromWaitlistTool = (env: Env) =>
+  createTool({
+    id: "REMOVE_FROM_WAITLIST",
+    description: "Take a passenger off a waitlist without booking them",
+    inputSchema: z.object({
+      id: z.number().int().describe("Waitlist entry id"),
+      reason: z.string().optional().describe("Why the passenger left the waitlist, kept in the history"),
+      changedBy: z.string().optional().describe("Who removed the passenger when not called by a logged-in user"),
+    }),
+    outputSchema: z.object({
+      entry: waitlistEntrySchema,
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const [current] = await db.select()
+        .from(waitlistTable)
+        .where(eq(waitlistTable.id, context.id))
+        .limit(1);
+
+      if (!current) {
+        throw new Error(`Waitlist entry ${context.id} not found`);
+      }
+      if (current.status !== 'waiting') {
+        throw new Error(`Waitlist entry ${context.id} is already ${current.status}`);
+      }
+
+      const entry = await resolveWaitlistEntry(db, context.id, {
+        status: 'removed',
+        changedBy: currentActor(env, context.changedBy),
+        reason: context.reason,
+      });
+
+      return { entry };
+    },
+  });
+
+export const createGetWaitlistHistoryTool = (env: Env) =>
+  createTool({
+    id: "GET_WAITLIST_HISTORY",
+    description: "Audit trail of a flight's waitlist: who joined, was promoted or was removed, when and by whom, oldest first",
     inputSchema: z.object({
-      flightNumber: z.string().optional().describe("Filter by flight number"),
-      departureCity: z.string().optional().describe("Filter by departure city"),
-      arrivalCity: z.string().optional().describe("Filter by arrival city"),
-      status: z.string().optional().describe("Filter by status"),
-      limit: z.number().optional().describe("Limit number of results"),
+      flightId: z.number().int(),
     }),
     outputSchema: z.object({
-      passengers: z.array(
-        z.object({
-          id: z.number(),
-          firstName: z.string(),
-          lastName: z.string(),
-          phone: z.string().nullable(),
-          passportNumber: z.string().nullable(),
-          seatNumber: z.string().nullable(),
-          flightNumber: z.string().nullable(),
-          ticketClass: z.string().nullable(),
-          price: z.string().nullable(),
-          status: z.string().nullable(),
-          createdAt: z.string().nullable(),
-          email: z.string(),
-          nationality: z.string(),
-          dateOfBirth: z.string(),
-          departureCity: z.string(),
-          arrivalCity: z.string(),
-          departureDate: z.string(),
-          distance: z.string(),
-          flightCost: z.string(),
-        })
-      ),
-      totalCount: z.number(),
-      message: z.string(),
+      history: z.array(z.object({
+        id: z.number(),
+        waitlistId: z.number(),
+        action: z.enum(WAITLIST_ACTIONS),
+        changedBy: z.string(),
+        reason: z.string().nullable(),
+        changedAt: z.string(),
+        cabin: z.enum(TICKET_CLASSES),
+        firstName: z.string(),
+        lastName: z.string(),
+        email: z.string(),
+        passengerId: z.number().nullable(),
+      })),
     }),
     execute: async ({ context }) => {
-      try {
-        const db = await getDb(env);
-        
-        // Get all passengers first
-        let passengers = await db.select().from(passengersTable);
-        
-        // Apply filters in memory for simplicity
-        if (context.flightNumber) {
-          passengers = passengers.filter(p => p.flightNumber === context.flightNumber);
-        }
-        if (context.departureCity) {
-          passengers = passengers.filter(p => p.departureCity === context.departureCity);
-        }
-        if (context.arrivalCity) {
-          passengers = passengers.filter(p => p.arrivalCity === context.arrivalCity);
-        }        
-        if (context.status) {
-          passengers = passengers.filter(p => p.status === context.status);
-        }
-        
-        // Apply limit if provided
-        if (context.limit) {
-          passengers = passengers.slice(0, context.limit);
-        }
-        
-        // Clean and normalize passenger data to match CSV columns
-        const cleanedPassengers = passengers.map(passenger => ({
-          id: passenger.id,
-          firstName: passenger.firstName || '',
-          lastName: passenger.lastName || '',
-          email: passenger.email || '',
-          nationality: passenger.nationality || '',
-          dateOfBirth: passenger.dateOfBirth || '',
-          departureCity: passenger.departureCity || '',
-          arrivalCity: passenger.arrivalCity || '',
-          departureDate: passenger.departureDate || '',
-          distance: passenger.distance || '',
-          flightCost: passenger.price || '', // Map price to flightCost
-        }));
-        
-        return {
-          passengers: cleanedPassengers,
-          totalCount: cleanedPassengers.length,
-          message: `Retrieved ${cleanedPassengers.length} passengers from database`,
-        };
-      } catch (error) {
-        console.error('Error fetching passengers:', error);
-        throw new Error(`Error fetching passengers: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+      const db = await getDb(env);
+
+      await getFlightById(db, context.flightId);
+
+      const history = await db
+        .select({
+          id: waitlistHistoryTable.id,
+          waitlistId: waitlistHistoryTable.waitlistId,
+          action: waitlistHistoryTable.action,
+          changedBy: waitlistHistoryTable.changedBy,
+          reason: waitlistHistoryTable.reason,
+          changedAt: waitlistHistoryTable.changedAt,
+          cabin: waitlistTable.cabin,
+          firstName: waitlistTable.firstName,
+          lastName: waitlistTable.lastName,
+          email: waitlistTable.email,
+          passengerId: waitlistTable.passengerId,
+        })
+        .from(waitlistHistoryTable)
+        .innerJoin(waitlistTable, eq(waitlistHistoryTable.waitlistId, waitlistTable.id))
+        .where(eq(waitlistTable.flightId, context.flightId))
+        .orderBy(asc(waitlistHistoryTable.changedAt), asc(waitlistHistoryTable.id));
+
+      return { history };
     },
   });
 
 export const createClearDatabaseTool = (env: Env) =>
   createTool({
     id: "CLEAR_DATABASE",
-    description: "Clear all passenger data from the database",
-    inputSchema: z.object({}),
+    description: "Clear all passenger data from the database: passengers, bookings, flights, waitlists and status history. This also deletes the payments ledger (charges, refunds and fees), so when payments exist it refuses unless deletePayments is true.",
+    inputSchema: z.object({
+      deletePayments: z.boolean().optional().describe("Confirm that recorded payments may be deleted along with the passengers"),
+    }),
     outputSchema: z.object({
       success: z.boolean(),
       deletedCount: z.number(),
+      deletedPaymentsCount: z.number(),
       message: z.string(),
     }),
-    execute: async () => {
+    execute: async ({ context }) => {
       try {
         const db = await getDb(env);
         
@@ -327,23 +3610,45 @@ export const createClearDatabaseTool = (env: Env) =>
           return {
             success: true,
             deletedCount: 0,
+            deletedPaymentsCount: 0,
             message: "Database is already empty",
           };
         }
         
-        // Delete all passengers
+        // Payments reference passengers, so they cannot outlive them
+        const [{ count: paymentsCount }] = await db.select({ count: sql<number>`count(*)` }).from(paymentsTable);
+        if (paymentsCount > 0 && !context.deletePayments) {
+          return {
+            success: false,
+            deletedCount: 0,
+            deletedPaymentsCount: 0,
+            message: `The payments ledger has ${paymentsCount} entries that clearing would delete; call again with deletePayments: true to delete them too`,
+          };
+        }
+        
+        // Delete all passengers with their history, then the flights they were booked on
+        await db.delete(bookingStatusHistoryTable);
+        await db.delete(paymentsTable);
+        await db.delete(waitlistHistoryTable);
+        await db.delete(waitlistTable);
         await db.delete(passengersTable);
+        await db.delete(itinerarySegmentsTable);
+        await db.delete(bookingsTable);
+        await db.delete(flightCabinCapacityTable);
+        await db.delete(flightsTable);
         
         return {
           success: true,
           deletedCount,
-          message: `Successfully cleared database. Deleted ${deletedCount} passengers.`,
+          deletedPaymentsCount: paymentsCount,
+          message: `Successfully cleared database. Deleted ${deletedCount} passengers and ${paymentsCount} payments.`,
         };
       } catch (error) {
         console.error('Error clearing database:', error);
         return {
           success: false,
           deletedCount: 0,
+          deletedPaymentsCount: 0,
           message: `Error clearing database: ${error instanceof Error ? error.message : 'Unknown error'}`,
         };
       }
@@ -358,41 +3663,54 @@ export const createClearDatabaseTool = (env: Env) =>
       outputSchema: z.object({
         success: z.boolean(),
         importedCount: z.number(),
+        alreadyPresentCount: z.number().describe("Sample passengers already in the database, left as they are"),
+        duplicateCount: z.number().describe("Rows repeating an earlier row of the sample data"),
+        errors: z.array(z.object({
+          line: z.number(),
+          field: z.string(),
+          reason: z.string(),
+          value: z.string().nullable(),
+        })).describe("Sample rows that could not be imported"),
         message: z.string(),
       }),
       execute: async () => {
         try {
           const db = await getDb(env);
           
-          // Check if data already exists
-          if (await hasExistingData(db)) {
-            return {
-              success: true,
-              importedCount: 0,
-              message: "Database already contains passenger data. Use CLEAR_DATABASE to clear it first, then POPULATE_TEST_DATA to populate again.",
-            };
-          }
-          
           // Get CSV data and parse
           const csvContent = getCSVContent();
-          const passengers = parseCSVContent(csvContent);
+          const passengers = parseCSVContent(csvContent, await getAirports(db));
           
-          // Insert passengers into database
-          const importedCount = await insertPassengers(db, passengers);
+          // Passengers already in the database are left as they are, so
+          // running this twice does not duplicate the sample data
+          const plan = await planPassengerImport(db, passengers, { mode: "skipDuplicates" });
+          const written = await writePassengerImport(db, plan, { onError: "skip" });
+          const importedCount = written.createdCount;
+          const errors = [...plan.errors, ...written.errors].sort((a, b) => a.line - b.line);
           
           console.log(`\n--- Import Summary ---`);
-          console.log(`Total passengers imported: ${importedCount}`);
+          console.log(`Total passengers imported: ${importedCount}, already present: ${plan.skippedExistingCount}, duplicate rows: ${plan.skippedInFileCount}, errors: ${errors.length}`);
+          
+          const alreadyPresent = plan.skippedExistingCount > 0 ? ` ${plan.skippedExistingCount} were already present.` : '';
+          const duplicates = plan.skippedInFileCount > 0 ? ` ${plan.skippedInFileCount} duplicate rows skipped.` : '';
+          const failed = errors.length > 0 ? ` ${errors.length} rows could not be imported.` : '';
           
           return {
-            success: true,
+            success: errors.length === 0,
             importedCount,
-            message: `Successfully populated database with ${importedCount} test passengers from hardcoded CSV data`,
+            alreadyPresentCount: plan.skippedExistingCount,
+            duplicateCount: plan.skippedInFileCount,
+            errors,
+            message: `Populated database with ${importedCount} test passengers.${alreadyPresent}${duplicates}${failed}`,
           };
         } catch (error) {
           console.error('❌ Error populating test data:', error);
           return {
             success: false,
             importedCount: 0,
+            alreadyPresentCount: 0,
+            duplicateCount: 0,
+            errors: [],
             message: `Error populating test data: ${error instanceof Error ? error.message : 'Unknown error'}`,
           };
         }
@@ -400,339 +3718,1150 @@ export const createClearDatabaseTool = (env: Env) =>
     });
   
   // Helper functions
-  const hasExistingData = async (db: any): Promise<boolean> => {
-    const existingPassengers = await db.select().from(passengersTable).limit(1);
-    return existingPassengers.length > 0;
-  };
-  
   const getCSVContent = (): string => {
-    return `firstName,lastName,email,nationality,dateOfBirth,departureCity,arrivalCity,departureDate,distance,flightCost
-  João,Silva,joao.silva@email.com,Brazilian,1985-03-15,São Paulo,Rio de Janeiro,2024-01-15,430,1200.00
-Maria,Santos,maria.santos@email.com,Brazilian,1990-07-22,Brasília,Salvador,2024-01-16,1200,2800.00
-Carlos,Oliveira,carlos.oliveira@email.com,Brazilian,1988-11-08,Recife,Fortaleza,2024-01-17,800,1900.00
-Ana,Costa,ana.costa@email.com,Brazilian,1992-04-30,Porto Alegre,Curitiba,2024-01-18,350,950.00
-Pedro,Ferreira,pedro.ferreira@email.com,Brazilian,1983-09-12,Manaus,Belém,2024-01-19,1300,3100.00
-Lucia,Ribeiro,lucia.ribeiro@email.com,Brazilian,1987-12-05,Goiânia,Cuiabá,2024-01-20,950,2200.00
-Roberto,Almeida,roberto.almeida@email.com,Brazilian,1981-06-18,Campo Grande,Porto Velho,2024-01-21,1800,4200.00
-Fernanda,Lima,fernanda.lima@email.com,Brazilian,1995-01-25,Teresina,Aracaju,2024-01-22,1100,2600.00
-Marcos,Pereira,marcos.pereira@email.com,Brazilian,1986-08-14,João Pessoa,Natal,2024-01-23,180,650.00
-Juliana,Martins,juliana.martins@email.com,Brazilian,1993-05-20,Vitória,Palmas,2024-01-24,1400,3300.00
-Ana,Silva,ana.silva@email.com,Brazilian,1990-03-15,São Paulo,Rio de Janeiro,2025-09-01,357,350
-Pedro,Santos,pedro.santos@email.com,Brazilian,1985-07-22,Rio de Janeiro,Belo Horizonte,2025-09-05,339,320
-Maria,Oliveira,maria.oliveira@email.com,Brazilian,1992-11-01,Belo Horizonte,Brasília,2025-09-10,586,450
-João,Costa,joao.costa@email.com,Brazilian,1988-04-20,Brasília,Curitiba,2025-09-15,935,680
-Julia,Souza,julia.souza@email.com,Brazilian,1995-01-30,Curitiba,Porto Alegre,2025-09-20,609,520
-Lucas,Pereira,lucas.pereira@email.com,Brazilian,1980-09-12,Porto Alegre,São Paulo,2025-09-25,851,600
-Mariana,Almeida,mariana.almeida@email.com,Brazilian,1993-06-08,Salvador,Recife,2025-09-30,680,500
-Gabriel,Ferreira,gabriel.ferreira@email.com,Brazilian,1987-02-18,Fortaleza,Natal,2025-10-01,430,400
-Larissa,Martins,larissa.martins@email.com,Brazilian,1991-10-05,Recife,Manaus,2025-10-05,2666,1200
-Rafael,Rodrigues,rafael.rodrigues@email.com,Brazilian,1986-12-28,Manaus,Salvador,2025-10-10,2697,1250
-Fernanda,Lima,fernanda.lima@email.com,Brazilian,1994-08-10,Florianópolis,Porto Alegre,2025-10-15,380,380
-Bruno,Gomes,bruno.gomes@email.com,Brazilian,1989-05-03,Vitória,Rio de Janeiro,2025-10-20,426,410
-Carolina,Carvalho,carolina.carvalho@email.com,Brazilian,1990-03-15,Goiânia,Brasília,2025-10-25,163,250
-Daniel,Melo,daniel.melo@email.com,Brazilian,1985-07-22,Campo Grande,Cuiabá,2025-10-30,408,390
-Isabela,Ribeiro,isabela.ribeiro@email.com,Brazilian,1992-11-01,Belém,São Luís,2025-11-01,403,400
-Guilherme,Dias,guilherme.dias@email.com,Brazilian,1988-04-20,Natal,Recife,2025-11-05,280,300
-Laura,Castro,laura.castro@email.com,Brazilian,1995-01-30,João Pessoa,Maceió,2025-11-10,465,420
-Diego,Nunes,diego.nunes@email.com,Brazilian,1980-09-12,Maceió,Salvador,2025-11-15,260,280
-Vitoria,Rosa,vitoria.rosa@email.com,Brazilian,1993-06-08,São Paulo,Fortaleza,2025-11-20,2362,1100
-André,Campos,andre.campos@email.com,Brazilian,1987-02-18,Rio de Janeiro,Recife,2025-11-25,1860,900
-Sophie,Dubois,sophie.dubois@email.com,French,1978-01-01,Belo Horizonte,Manaus,2025-12-01,2838,1300
-Marc,Durand,marc.durand@email.com,French,1982-02-10,Brasília,Belém,2025-12-05,1593,850
-Emily,Brown,emily.brown@email.com,American,1990-03-15,Curitiba,Campo Grande,2025-12-10,950,700
-Daniel,White,daniel.white@email.com,American,1985-07-22,Porto Alegre,Vitória,2025-12-15,1600,900
-Hannah,Green,hannah.green@email.com,British,1992-11-01,Salvador,João Pessoa,2025-12-20,700,550
-Mohammed,Khan,mohammed.khan@email.com,Indian,1988-04-20,Fortaleza,Cuiabá,2025-12-25,2800,1200
-Isabelle,Lefevre,isabelle.lefevre@email.com,French,1995-01-30,Recife,Goiânia,2026-01-01,1900,950
-Ahmed,Ali,ahmed.ali@email.com,Egyptian,1980-09-12,Manaus,São Luís,2026-01-05,2000,1000
-Olivia,Taylor,olivia.taylor@email.com,British,1993-06-08,Florianópolis,Brasília,2026-01-10,1100,750
-Liam,Murphy,liam.murphy@email.com,Irish,1987-02-18,Vitória,Curitiba,2026-01-15,1200,800
-Sarah,Jones,sarah.jones@email.com,American,1991-10-05,Goiânia,Salvador,2026-01-20,1400,880
-Chloe,Martin,chloe.martin@email.com,French,1986-12-28,Campo Grande,Natal,2026-01-25,2600,1150
-Sophie,Smith,sophie.smith@email.com,American,1994-08-10,Belém,Recife,2026-01-30,1600,900
-Leo,Dubois,leo.dubois@email.com,French,1989-05-03,São Luís,Manaus,2026-02-01,2000,1000
-Mia,Williams,mia.williams@email.com,British,1990-03-15,Natal,Maceió,2026-02-05,600,480
-Noah,Miller,noah.miller@email.com,American,1985-07-22,João Pessoa,Fortaleza,2026-02-10,530,450
-Emma,García,emma.garcia@email.com,Spanish,1992-11-01,Maceió,Belo Horizonte,2026-02-15,1300,850
-Benjamin,Davis,benjamin.davis@email.com,American,1988-04-20,São Paulo,Campo Grande,2026-02-20,870,650
-Ava,Johnson,ava.johnson@email.com,American,1995-01-30,Rio de Janeiro,Goiânia,2026-02-25,900,680
-Lucas,Perez,lucas.perez@email.com,Spanish,1980-09-12,Belo Horizonte,Belém,2026-03-01,2000,1000
-Isabella,Conti,isabella.conti@email.com,Italian,1993-06-08,Brasília,São Luís,2026-03-05,1500,850
-William,Brown,william.brown@email.com,British,1987-02-18,Curitiba,Natal,2026-03-10,2700,1200
-Sophia,Rossi,sophia.rossi@email.com,Italian,1991-10-05,Porto Alegre,Maceió,2026-03-15,2700,1200
-James,Wilson,james.wilson@email.com,American,1986-12-28,Salvador,Florianópolis,2026-03-20,1600,900
-Amelia,Moore,amelia.moore@email.com,American,1994-08-10,Fortaleza,Vitória,2026-03-25,1900,980
-Evelyn,Hall,evelyn.hall@email.com,American,1989-05-03,Recife,Goiânia,2026-03-30,1900,950
-Michael,King,michael.king@email.com,American,1990-03-15,Manaus,Fortaleza,2026-04-01,2380,1100
-Ethan,Wright,ethan.wright@email.com,American,1985-07-22,Florianópolis,São Paulo,2026-04-05,480,420
-Abigail,Lopez,abigail.lopez@email.com,Spanish,1992-11-01,Vitória,Salvador,2026-04-10,700,580
-Alexander,Hill,alexander.hill@email.com,American,1988-04-20,Goiânia,Manaus,2026-04-15,2280,1050
-Charlotte,Scott,charlotte.scott@email.com,American,1995-01-30,Campo Grande,Goiânia,2026-04-20,734,550
-Henry,Adams,henry.adams@email.com,American,1980-09-12,Belém,Fortaleza,2026-04-25,1315,800
-Ella,Baker,ella.baker@email.com,American,1993-06-08,São Luís,Belém,2026-04-30,403,400
-Sebastian,Nelson,sebastian.nelson@email.com,American,1987-02-18,Natal,João Pessoa,2026-05-01,170,250
-Grace,Carter,grace.carter@email.com,American,1991-10-05,João Pessoa,Recife,2026-05-05,108,200
-Samuel,Roberts,samuel.roberts@email.com,American,1986-12-28,Maceió,Recife,2026-05-10,200,280
-Lily,Phillips,lily.phillips@email.com,American,1994-08-10,São Paulo,Recife,2026-05-15,2122,1000
-Joseph,Campbell,joseph.campbell@email.com,American,1989-05-03,Rio de Janeiro,Brasília,2026-05-20,936,700
-Chloe,Parker,chloe.parker@email.com,American,1990-03-15,Belo Horizonte,Rio de Janeiro,2026-05-25,339,330
-David,Evans,david.evans@email.com,American,1985-07-22,Brasília,Manaus,2026-05-30,2699,1200
-Zoe,Collins,zoe.collins@email.com,American,1992-11-01,Curitiba,Salvador,2026-06-01,1842,950
-Andrew,Stewart,andrew.stewart@email.com,American,1988-04-20,Porto Alegre,Recife,2026-06-05,2808,1250
-Ella,Ramirez,ella.ramirez@email.com,Spanish,1995-01-30,Salvador,São Paulo,2026-06-10,1450,850
-Mason,Sanchez,mason.sanchez@email.com,Spanish,1980-09-12,Fortaleza,Belém,2026-06-15,1315,800
-Grace,Morris,grace.morris@email.com,American,1993-06-08,Recife,João Pessoa,2026-06-20,108,220
-Leo,Fisher,leo.fisher@email.com,American,1987-02-18,Manaus,Florianópolis,2026-06-25,3107,1350
-Victoria,Gonzales,victoria.gonzales@email.com,Spanish,1991-10-05,Florianópolis,Porto Alegre,2026-06-30,380,390
-Avery,Cooper,avery.cooper@email.com,American,1986-12-28,Vitória,Rio de Janeiro,2026-07-01,426,410
-Sofia,Rivera,sofia.rivera@email.com,Spanish,1994-08-10,Goiânia,Brasília,2026-07-05,163,260
-Penelope,Kelly,penelope.kelly@email.com,American,1989-05-03,Campo Grande,Cuiabá,2026-07-10,408,400
-Carter,Howard,carter.howard@email.com,American,1990-03-15,Belém,São Luís,2026-07-15,403,400
-Layla,Ward,layla.ward@email.com,American,1985-07-22,Natal,Recife,2026-07-20,280,310
-Ezra,Cox,ezra.cox@email.com,American,1992-11-01,João Pessoa,Maceió,2026-07-25,465,430
-Riley,Brooks,riley.brooks@email.com,American,1988-04-20,Maceió,Salvador,2026-07-30,260,290
-Nora,Bennett,nora.bennett@email.com,American,1995-01-30,São Paulo,Rio de Janeiro,2026-08-01,357,360
-Ana,Silva,ana.silva@email.com,Brazilian,1990-03-15,São Paulo,Rio de Janeiro,2025-09-01,357,350
-Pedro,Santos,pedro.santos@email.com,Brazilian,1985-07-22,Rio de Janeiro,Belo Horizonte,2025-09-05,339,320
-Maria,Oliveira,maria.oliveira@email.com,Brazilian,1992-11-01,Belo Horizonte,Brasília,2025-09-10,586,450
-João,Costa,joao.costa@email.com,Brazilian,1988-04-20,Brasília,Curitiba,2025-09-15,935,680
-Julia,Souza,julia.souza@email.com,Brazilian,1995-01-30,Curitiba,Porto Alegre,2025-09-20,609,520
-Lucas,Pereira,lucas.pereira@email.com,Brazilian,1980-09-12,Porto Alegre,São Paulo,2025-09-25,851,600
-Mariana,Almeida,mariana.almeida@email.com,Brazilian,1993-06-08,Salvador,Recife,2025-09-30,680,500
-Gabriel,Ferreira,gabriel.ferreira@email.com,Brazilian,1987-02-18,Fortaleza,Natal,2025-10-01,430,400
-Larissa,Martins,larissa.martins@email.com,Brazilian,1991-10-05,Recife,Manaus,2025-10-05,2666,1200
-Rafael,Rodrigues,rafael.rodrigues@email.com,Brazilian,1986-12-28,Manaus,Salvador,2025-10-10,2697,1250
-Fernanda,Lima,fernanda.lima@email.com,Brazilian,1994-08-10,Florianópolis,Porto Alegre,2025-10-15,380,380
-Bruno,Gomes,bruno.gomes@email.com,Brazilian,1989-05-03,Vitória,Rio de Janeiro,2025-10-20,426,410
-Carolina,Carvalho,carolina.carvalho@email.com,Brazilian,1990-03-15,Goiânia,Brasília,2025-10-25,163,250
-Daniel,Melo,daniel.melo@email.com,Brazilian,1985-07-22,Campo Grande,Cuiabá,2025-10-30,408,390
-Isabela,Ribeiro,isabela.ribeiro@email.com,Brazilian,1992-11-01,Belém,São Luís,2025-11-01,403,400
-Guilherme,Dias,guilherme.dias@email.com,Brazilian,1988-04-20,Natal,Recife,2025-11-05,280,300
-Laura,Castro,laura.castro@email.com,Brazilian,1995-01-30,João Pessoa,Maceió,2025-11-10,465,420
-Diego,Nunes,diego.nunes@email.com,Brazilian,1980-09-12,Maceió,Salvador,2025-11-15,260,280
-Vitoria,Rosa,vitoria.rosa@email.com,Brazilian,1993-06-08,São Paulo,Fortaleza,2025-11-20,2362,1100
-André,Campos,andre.campos@email.com,Brazilian,1987-02-18,Rio de Janeiro,Recife,2025-11-25,1860,900
-Sophie,Dubois,sophie.dubois@email.com,French,1978-01-01,Belo Horizonte,Manaus,2025-12-01,2838,1300
-Marc,Durand,marc.durand@email.com,French,1982-02-10,Brasília,Belém,2025-12-05,1593,850
-Emily,Brown,emily.brown@email.com,American,1990-03-15,Curitiba,Campo Grande,2025-12-10,950,700
-Daniel,White,daniel.white@email.com,American,1985-07-22,Porto Alegre,Vitória,2025-12-15,1600,900
-Hannah,Green,hannah.green@email.com,British,1992-11-01,Salvador,João Pessoa,2025-12-20,700,550
-Mohammed,Khan,mohammed.khan@email.com,Indian,1988-04-20,Fortaleza,Cuiabá,2025-12-25,2800,1200
-Isabelle,Lefevre,isabelle.lefevre@email.com,French,1995-01-30,Recife,Goiânia,2026-01-01,1900,950
-Ahmed,Ali,ahmed.ali@email.com,Egyptian,1980-09-12,Manaus,São Luís,2026-01-05,2000,1000
-Olivia,Taylor,olivia.taylor@email.com,British,1993-06-08,Florianópolis,Brasília,2026-01-10,1100,750
-Liam,Murphy,liam.murphy@email.com,Irish,1987-02-18,Vitória,Curitiba,2026-01-15,1200,800
-Sarah,Jones,sarah.jones@email.com,American,1991-10-05,Goiânia,Salvador,2026-01-20,1400,880
-Chloe,Martin,chloe.martin@email.com,French,1986-12-28,Campo Grande,Natal,2026-01-25,2600,1150
-Sophie,Smith,sophie.smith@email.com,American,1994-08-10,Belém,Recife,2026-01-30,1600,900
-Leo,Dubois,leo.dubois@email.com,French,1989-05-03,São Luís,Manaus,2026-02-01,2000,1000
-Mia,Williams,mia.williams@email.com,British,1990-03-15,Natal,Maceió,2026-02-05,600,480
-Noah,Miller,noah.miller@email.com,American,1985-07-22,João Pessoa,Fortaleza,2026-02-10,530,450
-Emma,García,emma.garcia@email.com,Spanish,1992-11-01,Maceió,Belo Horizonte,2026-02-15,1300,850
-Benjamin,Davis,benjamin.davis@email.com,American,1988-04-20,São Paulo,Campo Grande,2026-02-20,870,650
-Ava,Johnson,ava.johnson@email.com,American,1995-01-30,Rio de Janeiro,Goiânia,2026-02-25,900,680
-Lucas,Perez,lucas.perez@email.com,Spanish,1980-09-12,Belo Horizonte,Belém,2026-03-01,2000,1000
-Isabella,Conti,isabella.conti@email.com,Italian,1993-06-08,Brasília,São Luís,2026-03-05,1500,850
-William,Brown,william.brown@email.com,British,1987-02-18,Curitiba,Natal,2026-03-10,2700,1200
-Sophia,Rossi,sophia.rossi@email.com,Italian,1991-10-05,Porto Alegre,Maceió,2026-03-15,2700,1200
-James,Wilson,james.wilson@email.com,American,1986-12-28,Salvador,Florianópolis,2026-03-20,1600,900
-Amelia,Moore,amelia.moore@email.com,American,1994-08-10,Fortaleza,Vitória,2026-03-25,1900,980
-Evelyn,Hall,evelyn.hall@email.com,American,1989-05-03,Recife,Goiânia,2026-03-30,1900,950
-Michael,King,michael.king@email.com,American,1990-03-15,Manaus,Fortaleza,2026-04-01,2380,1100
-Ethan,Wright,ethan.wright@email.com,American,1985-07-22,Florianópolis,São Paulo,2026-04-05,480,420
-Abigail,Lopez,abigail.lopez@email.com,Spanish,1992-11-01,Vitória,Salvador,2026-04-10,700,580
-Alexander,Hill,alexander.hill@email.com,American,1988-04-20,Goiânia,Manaus,2026-04-15,2280,1050
-Charlotte,Scott,charlotte.scott@email.com,American,1995-01-30,Campo Grande,Goiânia,2026-04-20,734,550
-Henry,Adams,henry.adams@email.com,American,1980-09-12,Belém,Fortaleza,2026-04-25,1315,800
-Ella,Baker,ella.baker@email.com,American,1993-06-08,São Luís,Belém,2026-04-30,403,400
-Sebastian,Nelson,sebastian.nelson@email.com,American,1987-02-18,Natal,João Pessoa,2026-05-01,170,250
-Grace,Carter,grace.carter@email.com,American,1991-10-05,João Pessoa,Recife,2026-05-05,108,200
-Samuel,Roberts,samuel.roberts@email.com,American,1986-12-28,Maceió,Recife,2026-05-10,200,280
-Lily,Phillips,lily.phillips@email.com,American,1994-08-10,São Paulo,Recife,2026-05-15,2122,1000
-Joseph,Campbell,joseph.campbell@email.com,American,1989-05-03,Rio de Janeiro,Brasília,2026-05-20,936,700
-Chloe,Parker,chloe.parker@email.com,American,1990-03-15,Belo Horizonte,Rio de Janeiro,2026-05-25,339,330
-David,Evans,david.evans@email.com,American,1985-07-22,Brasília,Manaus,2026-05-30,2699,1200
-Zoe,Collins,zoe.collins@email.com,American,1992-11-01,Curitiba,Salvador,2026-06-01,1842,950
-Andrew,Stewart,andrew.stewart@email.com,American,1988-04-20,Porto Alegre,Recife,2026-06-05,2808,1250
-Ella,Ramirez,ella.ramirez@email.com,Spanish,1995-01-30,Salvador,São Paulo,2026-06-10,1450,850
-Mason,Sanchez,mason.sanchez@email.com,Spanish,1980-09-12,Fortaleza,Belém,2026-06-15,1315,800
-Grace,Morris,grace.morris@email.com,American,1993-06-08,Recife,João Pessoa,2026-06-20,108,220
-Leo,Fisher,leo.fisher@email.com,American,1987-02-18,Manaus,Florianópolis,2026-06-25,3107,1350
-Victoria,Gonzales,victoria.gonzales@email.com,Spanish,1991-10-05,Florianópolis,Porto Alegre,2026-06-30,380,390
-Avery,Cooper,avery.cooper@email.com,American,1986-12-28,Vitória,Rio de Janeiro,2026-07-01,426,410
-Sofia,Rivera,sofia.rivera@email.com,Spanish,1994-08-10,Goiânia,Brasília,2026-07-05,163,260
-Penelope,Kelly,penelope.kelly@email.com,American,1989-05-03,Campo Grande,Cuiabá,2026-07-10,408,400
-Carter,Howard,carter.howard@email.com,American,1990-03-15,Belém,São Luís,2026-07-15,403,400
-Layla,Ward,layla.ward@email.com,American,1985-07-22,Natal,Recife,2026-07-20,280,310
-Ezra,Cox,ezra.cox@email.com,American,1992-11-01,João Pessoa,Maceió,2026-07-25,465,430
-Riley,Brooks,riley.brooks@email.com,American,1988-04-20,Maceió,Salvador,2026-07-30,260,290
-Nora,Bennett,nora.bennett@email.com,American,1995-01-30,São Paulo,Rio de Janeiro,2026-08-01,357,360
-Owen,Reed,owen.reed@email.com,American,1980-09-12,Rio de Janeiro,Belo Horizonte,2026-08-05,339,325
-Scarlett,Cook,scarlett.cook@email.com,American,1993-06-08,Belo Horizonte,Brasília,2026-08-10,586,455
-Caleb,Morgan,caleb.morgan@email.com,American,1987-02-18,Brasília,Curitiba,2026-08-15,935,685
-Madeline,Bell,madeline.bell@email.com,American,1991-10-05,Curitiba,Porto Alegre,2026-08-20,609,525
-Jonathan,Murphy,jonathan.murphy@email.com,Irish,1986-12-28,Porto Alegre,São Paulo,2026-08-25,851,605
-Lillian,Bailey,lillian.bailey@email.com,American,1994-08-10,Salvador,Recife,2026-08-30,680,505
-Jaxon,Garcia,jaxon.garcia@email.com,Spanish,1989-05-03,Fortaleza,Natal,2026-09-01,430,405
-Natalie,White,natalie.white@email.com,American,1990-03-15,Recife,Manaus,2026-09-05,2666,1205
-Isaiah,Kelly,isaiah.kelly@email.com,American,1985-07-22,Manaus,Salvador,2026-09-10,2697,1255
-Mia,Ramirez,mia.ramirez@email.com,Spanish,1992-11-01,Florianópolis,Porto Alegre,2026-09-15,380,385
-Luna,King,luna.king@email.com,American,1988-04-20,Vitória,Rio de Janeiro,2026-09-20,426,415
-Asher,Parker,asher.parker@email.com,American,1995-01-30,Goiânia,Brasília,2026-09-25,163,255
-Skylar,Stewart,skylar.stewart@email.com,American,1980-09-12,Campo Grande,Cuiabá,2026-09-30,408,395
-Violet,Cruz,violet.cruz@email.com,Spanish,1993-06-08,Belém,São Luís,2026-10-01,403,405
-Brooks,Edwards,brooks.edwards@email.com,American,1987-02-18,Natal,Recife,2026-10-05,280,305
-Aurora,Gonzales,aurora.gonzales@email.com,Spanish,1991-10-05,João Pessoa,Maceió,2026-10-10,465,425
-Silas,Turner,silas.turner@email.com,American,1986-12-28,Maceió,Salvador,2026-10-15,260,285
-Everly,Mitchell,everly.mitchell@email.com,American,1994-08-10,São Paulo,Fortaleza,2026-10-20,2362,1105
-Declan,Phillips,declan.phillips@email.com,American,1989-05-03,Rio de Janeiro,Recife,2026-10-25,1860,905
-Willow,Rivera,willow.rivera@email.com,Spanish,1990-03-15,Belo Horizonte,Manaus,2026-10-30,2838,1305
-Ezra,Wood,ezra.wood@email.com,American,1985-07-22,Brasília,Belém,2026-11-01,1593,855
-Adeline,Barnes,adeline.barnes@email.com,American,1992-11-01,Curitiba,Campo Grande,2026-11-05,950,705
-Grayson,Ross,grayson.ross@email.com,American,1988-04-20,Porto Alegre,Vitória,2026-11-10,1600,905
-Eliza,Henderson,eliza.henderson@email.com,American,1995-01-30,Salvador,João Pessoa,2026-11-15,700,555
-Harrison,Coleman,harrison.coleman@email.com,American,1980-09-12,Fortaleza,Cuiabá,2026-11-20,2800,1205
-Maya,Jenkins,maya.jenkins@email.com,American,1993-06-08,Recife,Goiânia,2026-11-25,1900,955
-Leo,Perez,leo.perez@email.com,Spanish,1987-02-18,Manaus,São Luís,2026-11-30,2000,1005
-Naomi,Washington,naomi.washington@email.com,American,1991-10-05,Florianópolis,Brasília,2026-12-01,1100,755
-Arthur,Gonzales,arthur.gonzales@email.com,Spanish,1986-12-28,Vitória,Curitiba,2026-12-05,1200,805
-Delilah,Diaz,delilah.diaz@email.com,Spanish,1994-08-10,Goiânia,Salvador,2026-12-10,1400,885
-Finn,Butler,finn.butler@email.com,American,1989-05-03,Campo Grande,Natal,2026-12-15,2600,1155
-Ruby,Alexander,ruby.alexander@email.com,American,1990-03-15,Belém,Recife,2026-12-20,1600,905
-Gus,Fisher,gus.fisher@email.com,American,1985-07-22,São Luís,Manaus,2026-12-25,2000,1005
-Hazel,Flores,hazel.flores@email.com,Spanish,1992-11-01,Natal,Maceió,2026-12-30,600,485
-Kai,Bennett,kai.bennett@email.com,American,1988-04-20,João Pessoa,Fortaleza,2027-01-01,530,455
-Alice,Long,alice.long@email.com,American,1995-01-30,Maceió,Belo Horizonte,2027-01-05,1300,855
-Jasper,Ward,jasper.ward@email.com,American,1980-09-12,São Paulo,Campo Grande,2027-01-10,870,655
-Piper,Brooks,piper.brooks@email.com,American,1993-06-08,Rio de Janeiro,Goiânia,2027-01-15,900,685
-Sam,Ramirez,sam.ramirez@email.com,Spanish,1987-02-18,Belo Horizonte,Belém,2027-01-20,2000,1005
-River,Roberts,river.roberts@email.com,American,1989-05-03,Maceió,Recife,2027-04-01,200,285`;
+    return `firstName,lastName,email,nationality,dateOfBirth,departureCity,arrivalCity,departureDate,distance,flightCost,ticketClass
+  João,Silva,joao.silva@email.com,Brazilian,1985-03-15,São Paulo,Rio de Janeiro,2024-01-15,430,1200.00,first
+Maria,Santos,maria.santos@email.com,Brazilian,1990-07-22,Brasília,Salvador,2024-01-16,1200,2800.00,business
+Carlos,Oliveira,carlos.oliveira@email.com,Brazilian,1988-11-08,Recife,Fortaleza,2024-01-17,800,1900.00,business
+Ana,Costa,ana.costa@email.com,Brazilian,1992-04-30,Porto Alegre,Curitiba,2024-01-18,350,950.00,first
+Pedro,Ferreira,pedro.ferreira@email.com,Brazilian,1983-09-12,Manaus,Belém,2024-01-19,1300,3100.00,business
+Lucia,Ribeiro,lucia.ribeiro@email.com,Brazilian,1987-12-05,Goiânia,Cuiabá,2024-01-20,950,2200.00,business
+Roberto,Almeida,roberto.almeida@email.com,Brazilian,1981-06-18,Campo Grande,Porto Velho,2024-01-21,1800,4200.00,business
+Fernanda,Lima,fernanda.lima@email.com,Brazilian,1995-01-25,Teresina,Aracaju,2024-01-22,1100,2600.00,business
+Marcos,Pereira,marcos.pereira@email.com,Brazilian,1986-08-14,João Pessoa,Natal,2024-01-23,180,650.00,first
+Juliana,Martins,juliana.martins@email.com,Brazilian,1993-05-20,Vitória,Palmas,2024-01-24,1400,3300.00,business
+Ana,Silva,ana.silva@email.com,Brazilian,1990-03-15,São Paulo,Rio de Janeiro,2025-09-01,357,350,economy
+Pedro,Santos,pedro.santos@email.com,Brazilian,1985-07-22,Rio de Janeiro,Belo Horizonte,2025-09-05,339,320,economy
+Maria,Oliveira,maria.oliveira@email.com,Brazilian,1992-11-01,Belo Horizonte,Brasília,2025-09-10,586,450,economy
+João,Costa,joao.costa@email.com,Brazilian,1988-04-20,Brasília,Curitiba,2025-09-15,935,680,economy
+Julia,Souza,julia.souza@email.com,Brazilian,1995-01-30,Curitiba,Porto Alegre,2025-09-20,609,520,economy
+Lucas,Pereira,lucas.pereira@email.com,Brazilian,1980-09-12,Porto Alegre,São Paulo,2025-09-25,851,600,economy
+Mariana,Almeida,mariana.almeida@email.com,Brazilian,1993-06-08,Salvador,Recife,2025-09-30,680,500,economy
+Gabriel,Ferreira,gabriel.ferreira@email.com,Brazilian,1987-02-18,Fortaleza,Natal,2025-10-01,430,400,economy
+Larissa,Martins,larissa.martins@email.com,Brazilian,1991-10-05,Recife,Manaus,2025-10-05,2666,1200,economy
+Rafael,Rodrigues,rafael.rodrigues@email.com,Brazilian,1986-12-28,Manaus,Salvador,2025-10-10,2697,1250,economy
+Fernanda,Lima,fernanda.lima@email.com,Brazilian,1994-08-10,Florianópolis,Porto Alegre,2025-10-15,380,380,economy
+Bruno,Gomes,bruno.gomes@email.com,Brazilian,1989-05-03,Vitória,Rio de Janeiro,2025-10-20,426,410,economy
+Carolina,Carvalho,carolina.carvalho@email.com,Brazilian,1990-03-15,Goiânia,Brasília,2025-10-25,163,250,premium
+Daniel,Melo,daniel.melo@email.com,Brazilian,1985-07-22,Campo Grande,Cuiabá,2025-10-30,408,390,economy
+Isabela,Ribeiro,isabela.ribeiro@email.com,Brazilian,1992-11-01,Belém,São Luís,2025-11-01,403,400,economy
+Guilherme,Dias,guilherme.dias@email.com,Brazilian,1988-04-20,Natal,Recife,2025-11-05,280,300,economy
+Laura,Castro,laura.castro@email.com,Brazilian,1995-01-30,João Pessoa,Maceió,2025-11-10,465,420,economy
+Diego,Nunes,diego.nunes@email.com,Brazilian,1980-09-12,Maceió,Salvador,2025-11-15,260,280,economy
+Vitoria,Rosa,vitoria.rosa@email.com,Brazilian,1993-06-08,São Paulo,Fortaleza,2025-11-20,2362,1100,economy
+André,Campos,andre.campos@email.com,Brazilian,1987-02-18,Rio de Janeiro,Recife,2025-11-25,1860,900,economy
+Sophie,Dubois,sophie.dubois@email.com,French,1978-01-01,Belo Horizonte,Manaus,2025-12-01,2838,1300,economy
+Marc,Durand,marc.durand@email.com,French,1982-02-10,Brasília,Belém,2025-12-05,1593,850,economy
+Emily,Brown,emily.brown@email.com,American,1990-03-15,Curitiba,Campo Grande,2025-12-10,950,700,economy
+Daniel,White,daniel.white@email.com,American,1985-07-22,Porto Alegre,Vitória,2025-12-15,1600,900,economy
+Hannah,Green,hannah.green@email.com,British,1992-11-01,Salvador,João Pessoa,2025-12-20,700,550,economy
+Mohammed,Khan,mohammed.khan@email.com,Indian,1988-04-20,Fortaleza,Cuiabá,2025-12-25,2800,1200,economy
+Isabelle,Lefevre,isabelle.lefevre@email.com,French,1995-01-30,Recife,Goiânia,2026-01-01,1900,950,economy
+Ahmed,Ali,ahmed.ali@email.com,Egyptian,1980-09-12,Manaus,São Luís,2026-01-05,2000,1000,economy
+Olivia,Taylor,olivia.taylor@email.com,British,1993-06-08,Florianópolis,Brasília,2026-01-10,1100,750,economy
+Liam,Murphy,liam.murphy@email.com,Irish,1987-02-18,Vitória,Curitiba,2026-01-15,1200,800,economy
+Sarah,Jones,sarah.jones@email.com,American,1991-10-05,Goiânia,Salvador,2026-01-20,1400,880,economy
+Chloe,Martin,chloe.martin@email.com,French,1986-12-28,Campo Grande,Natal,2026-01-25,2600,1150,economy
+Sophie,Smith,sophie.smith@email.com,American,1994-08-10,Belém,Recife,2026-01-30,1600,900,economy
+Leo,Dubois,leo.dubois@email.com,French,1989-05-03,São Luís,Manaus,2026-02-01,2000,1000,economy
+Mia,Williams,mia.williams@email.com,British,1990-03-15,Natal,Maceió,2026-02-05,600,480,economy
+Noah,Miller,noah.miller@email.com,American,1985-07-22,João Pessoa,Fortaleza,2026-02-10,530,450,economy
+Emma,García,emma.garcia@email.com,Spanish,1992-11-01,Maceió,Belo Horizonte,2026-02-15,1300,850,economy
+Benjamin,Davis,benjamin.davis@email.com,American,1988-04-20,São Paulo,Campo Grande,2026-02-20,870,650,economy
+Ava,Johnson,ava.johnson@email.com,American,1995-01-30,Rio de Janeiro,Goiânia,2026-02-25,900,680,economy
+Lucas,Perez,lucas.perez@email.com,Spanish,1980-09-12,Belo Horizonte,Belém,2026-03-01,2000,1000,economy
+Isabella,Conti,isabella.conti@email.com,Italian,1993-06-08,Brasília,São Luís,2026-03-05,1500,850,economy
+William,Brown,william.brown@email.com,British,1987-02-18,Curitiba,Natal,2026-03-10,2700,1200,economy
+Sophia,Rossi,sophia.rossi@email.com,Italian,1991-10-05,Porto Alegre,Maceió,2026-03-15,2700,1200,economy
+James,Wilson,james.wilson@email.com,American,1986-12-28,Salvador,Florianópolis,2026-03-20,1600,900,economy
+Amelia,Moore,amelia.moore@email.com,American,1994-08-10,Fortaleza,Vitória,2026-03-25,1900,980,economy
+Evelyn,Hall,evelyn.hall@email.com,American,1989-05-03,Recife,Goiânia,2026-03-30,1900,950,economy
+Michael,King,michael.king@email.com,American,1990-03-15,Manaus,Fortaleza,2026-04-01,2380,1100,economy
+Ethan,Wright,ethan.wright@email.com,American,1985-07-22,Florianópolis,São Paulo,2026-04-05,480,420,economy
+Abigail,Lopez,abigail.lopez@email.com,Spanish,1992-11-01,Vitória,Salvador,2026-04-10,700,580,economy
+Alexander,Hill,alexander.hill@email.com,American,1988-04-20,Goiânia,Manaus,2026-04-15,2280,1050,economy
+Charlotte,Scott,charlotte.scott@email.com,American,1995-01-30,Campo Grande,Goiânia,2026-04-20,734,550,economy
+Henry,Adams,henry.adams@email.com,American,1980-09-12,Belém,Fortaleza,2026-04-25,1315,800,economy
+Ella,Baker,ella.baker@email.com,American,1993-06-08,São Luís,Belém,2026-04-30,403,400,economy
+Sebastian,Nelson,sebastian.nelson@email.com,American,1987-02-18,Natal,João Pessoa,2026-05-01,170,250,premium
+Grace,Carter,grace.carter@email.com,American,1991-10-05,João Pessoa,Recife,2026-05-05,108,200,business
+Samuel,Roberts,samuel.roberts@email.com,American,1986-12-28,Maceió,Recife,2026-05-10,200,280,premium
+Lily,Phillips,lily.phillips@email.com,American,1994-08-10,São Paulo,Recife,2026-05-15,2122,1000,economy
+Joseph,Campbell,joseph.campbell@email.com,American,1989-05-03,Rio de Janeiro,Brasília,2026-05-20,936,700,economy
+Chloe,Parker,chloe.parker@email.com,American,1990-03-15,Belo Horizonte,Rio de Janeiro,2026-05-25,339,330,economy
+David,Evans,david.evans@email.com,American,1985-07-22,Brasília,Manaus,2026-05-30,2699,1200,economy
+Zoe,Collins,zoe.collins@email.com,American,1992-11-01,Curitiba,Salvador,2026-06-01,1842,950,economy
+Andrew,Stewart,andrew.stewart@email.com,American,1988-04-20,Porto Alegre,Recife,2026-06-05,2808,1250,economy
+Ella,Ramirez,ella.ramirez@email.com,Spanish,1995-01-30,Salvador,São Paulo,2026-06-10,1450,850,economy
+Mason,Sanchez,mason.sanchez@email.com,Spanish,1980-09-12,Fortaleza,Belém,2026-06-15,1315,800,economy
+Grace,Morris,grace.morris@email.com,American,1993-06-08,Recife,João Pessoa,2026-06-20,108,220,business
+Leo,Fisher,leo.fisher@email.com,American,1987-02-18,Manaus,Florianópolis,2026-06-25,3107,1350,economy
+Victoria,Gonzales,victoria.gonzales@email.com,Spanish,1991-10-05,Florianópolis,Porto Alegre,2026-06-30,380,390,economy
+Avery,Cooper,avery.cooper@email.com,American,1986-12-28,Vitória,Rio de Janeiro,2026-07-01,426,410,economy
+Sofia,Rivera,sofia.rivera@email.com,Spanish,1994-08-10,Goiânia,Brasília,2026-07-05,163,260,premium
+Penelope,Kelly,penelope.kelly@email.com,American,1989-05-03,Campo Grande,Cuiabá,2026-07-10,408,400,economy
+Carter,Howard,carter.howard@email.com,American,1990-03-15,Belém,São Luís,2026-07-15,403,400,economy
+Layla,Ward,layla.ward@email.com,American,1985-07-22,Natal,Recife,2026-07-20,280,310,economy
+Ezra,Cox,ezra.cox@email.com,American,1992-11-01,João Pessoa,Maceió,2026-07-25,465,430,economy
+Riley,Brooks,riley.brooks@email.com,American,1988-04-20,Maceió,Salvador,2026-07-30,260,290,economy
+Nora,Bennett,nora.bennett@email.com,American,1995-01-30,São Paulo,Rio de Janeiro,2026-08-01,357,360,economy
+Ana,Silva,ana.silva@email.com,Brazilian,1990-03-15,São Paulo,Rio de Janeiro,2025-09-01,357,350,economy
+Pedro,Santos,pedro.santos@email.com,Brazilian,1985-07-22,Rio de Janeiro,Belo Horizonte,2025-09-05,339,320,economy
+Maria,Oliveira,maria.oliveira@email.com,Brazilian,1992-11-01,Belo Horizonte,Brasília,2025-09-10,586,450,economy
+João,Costa,joao.costa@email.com,Brazilian,1988-04-20,Brasília,Curitiba,2025-09-15,935,680,economy
+Julia,Souza,julia.souza@email.com,Brazilian,1995-01-30,Curitiba,Porto Alegre,2025-09-20,609,520,economy
+Lucas,Pereira,lucas.pereira@email.com,Brazilian,1980-09-12,Porto Alegre,São Paulo,2025-09-25,851,600,economy
+Mariana,Almeida,mariana.almeida@email.com,Brazilian,1993-06-08,Salvador,Recife,2025-09-30,680,500,economy
+Gabriel,Ferreira,gabriel.ferreira@email.com,Brazilian,1987-02-18,Fortaleza,Natal,2025-10-01,430,400,economy
+Larissa,Martins,larissa.martins@email.com,Brazilian,1991-10-05,Recife,Manaus,2025-10-05,2666,1200,economy
+Rafael,Rodrigues,rafael.rodrigues@email.com,Brazilian,1986-12-28,Manaus,Salvador,2025-10-10,2697,1250,economy
+Fernanda,Lima,fernanda.lima@email.com,Brazilian,1994-08-10,Florianópolis,Porto Alegre,2025-10-15,380,380,economy
+Bruno,Gomes,bruno.gomes@email.com,Brazilian,1989-05-03,Vitória,Rio de Janeiro,2025-10-20,426,410,economy
+Carolina,Carvalho,carolina.carvalho@email.com,Brazilian,1990-03-15,Goiânia,Brasília,2025-10-25,163,250,premium
+Daniel,Melo,daniel.melo@email.com,Brazilian,1985-07-22,Campo Grande,Cuiabá,2025-10-30,408,390,economy
+Isabela,Ribeiro,isabela.ribeiro@email.com,Brazilian,1992-11-01,Belém,São Luís,2025-11-01,403,400,economy
+Guilherme,Dias,guilherme.dias@email.com,Brazilian,1988-04-20,Natal,Recife,2025-11-05,280,300,economy
+Laura,Castro,laura.castro@email.com,Brazilian,1995-01-30,João Pessoa,Maceió,2025-11-10,465,420,economy
+Diego,Nunes,diego.nunes@email.com,Brazilian,1980-09-12,Maceió,Salvador,2025-11-15,260,280,economy
+Vitoria,Rosa,vitoria.rosa@email.com,Brazilian,1993-06-08,São Paulo,Fortaleza,2025-11-20,2362,1100,economy
+André,Campos,andre.campos@email.com,Brazilian,1987-02-18,Rio de Janeiro,Recife,2025-11-25,1860,900,economy
+Sophie,Dubois,sophie.dubois@email.com,French,1978-01-01,Belo Horizonte,Manaus,2025-12-01,2838,1300,economy
+Marc,Durand,marc.durand@email.com,French,1982-02-10,Brasília,Belém,2025-12-05,1593,850,economy
+Emily,Brown,emily.brown@email.com,American,1990-03-15,Curitiba,Campo Grande,2025-12-10,950,700,economy
+Daniel,White,daniel.white@email.com,American,1985-07-22,Porto Alegre,Vitória,2025-12-15,1600,900,economy
+Hannah,Green,hannah.green@email.com,British,1992-11-01,Salvador,João Pessoa,2025-12-20,700,550,economy
+Mohammed,Khan,mohammed.khan@email.com,Indian,1988-04-20,Fortaleza,Cuiabá,2025-12-25,2800,1200,economy
+Isabelle,Lefevre,isabelle.lefevre@email.com,French,1995-01-30,Recife,Goiânia,2026-01-01,1900,950,economy
+Ahmed,Ali,ahmed.ali@email.com,Egyptian,1980-09-12,Manaus,São Luís,2026-01-05,2000,1000,economy
+Olivia,Taylor,olivia.taylor@email.com,British,1993-06-08,Florianópolis,Brasília,2026-01-10,1100,750,economy
+Liam,Murphy,liam.murphy@email.com,Irish,1987-02-18,Vitória,Curitiba,2026-01-15,1200,800,economy
+Sarah,Jones,sarah.jones@email.com,American,1991-10-05,Goiânia,Salvador,2026-01-20,1400,880,economy
+Chloe,Martin,chloe.martin@email.com,French,1986-12-28,Campo Grande,Natal,2026-01-25,2600,1150,economy
+Sophie,Smith,sophie.smith@email.com,American,1994-08-10,Belém,Recife,2026-01-30,1600,900,economy
+Leo,Dubois,leo.dubois@email.com,French,1989-05-03,São Luís,Manaus,2026-02-01,2000,1000,economy
+Mia,Williams,mia.williams@email.com,British,1990-03-15,Natal,Maceió,2026-02-05,600,480,economy
+Noah,Miller,noah.miller@email.com,American,1985-07-22,João Pessoa,Fortaleza,2026-02-10,530,450,economy
+Emma,García,emma.garcia@email.com,Spanish,1992-11-01,Maceió,Belo Horizonte,2026-02-15,1300,850,economy
+Benjamin,Davis,benjamin.davis@email.com,American,1988-04-20,São Paulo,Campo Grande,2026-02-20,870,650,economy
+Ava,Johnson,ava.johnson@email.com,American,1995-01-30,Rio de Janeiro,Goiânia,2026-02-25,900,680,economy
+Lucas,Perez,lucas.perez@email.com,Spanish,1980-09-12,Belo Horizonte,Belém,2026-03-01,2000,1000,economy
+Isabella,Conti,isabella.conti@email.com,Italian,1993-06-08,Brasília,São Luís,2026-03-05,1500,850,economy
+William,Brown,william.brown@email.com,British,1987-02-18,Curitiba,Natal,2026-03-10,2700,1200,economy
+Sophia,Rossi,sophia.rossi@email.com,Italian,1991-10-05,Porto Alegre,Maceió,2026-03-15,2700,1200,economy
+James,Wilson,james.wilson@email.com,American,1986-12-28,Salvador,Florianópolis,2026-03-20,1600,900,economy
+Amelia,Moore,amelia.moore@email.com,American,1994-08-10,Fortaleza,Vitória,2026-03-25,1900,980,economy
+Evelyn,Hall,evelyn.hall@email.com,American,1989-05-03,Recife,Goiânia,2026-03-30,1900,950,economy
+Michael,King,michael.king@email.com,American,1990-03-15,Manaus,Fortaleza,2026-04-01,2380,1100,economy
+Ethan,Wright,ethan.wright@email.com,American,1985-07-22,Florianópolis,São Paulo,2026-04-05,480,420,economy
+Abigail,Lopez,abigail.lopez@email.com,Spanish,1992-11-01,Vitória,Salvador,2026-04-10,700,580,economy
+Alexander,Hill,alexander.hill@email.com,American,1988-04-20,Goiânia,Manaus,2026-04-15,2280,1050,economy
+Charlotte,Scott,charlotte.scott@email.com,American,1995-01-30,Campo Grande,Goiânia,2026-04-20,734,550,economy
+Henry,Adams,henry.adams@email.com,American,1980-09-12,Belém,Fortaleza,2026-04-25,1315,800,economy
+Ella,Baker,ella.baker@email.com,American,1993-06-08,São Luís,Belém,2026-04-30,403,400,economy
+Sebastian,Nelson,sebastian.nelson@email.com,American,1987-02-18,Natal,João Pessoa,2026-05-01,170,250,premium
+Grace,Carter,grace.carter@email.com,American,1991-10-05,João Pessoa,Recife,2026-05-05,108,200,business
+Samuel,Roberts,samuel.roberts@email.com,American,1986-12-28,Maceió,Recife,2026-05-10,200,280,premium
+Lily,Phillips,lily.phillips@email.com,American,1994-08-10,São Paulo,Recife,2026-05-15,2122,1000,economy
+Joseph,Campbell,joseph.campbell@email.com,American,1989-05-03,Rio de Janeiro,Brasília,2026-05-20,936,700,economy
+Chloe,Parker,chloe.parker@email.com,American,1990-03-15,Belo Horizonte,Rio de Janeiro,2026-05-25,339,330,economy
+David,Evans,david.evans@email.com,American,1985-07-22,Brasília,Manaus,2026-05-30,2699,1200,economy
+Zoe,Collins,zoe.collins@email.com,American,1992-11-01,Curitiba,Salvador,2026-06-01,1842,950,economy
+Andrew,Stewart,andrew.stewart@email.com,American,1988-04-20,Porto Alegre,Recife,2026-06-05,2808,1250,economy
+Ella,Ramirez,ella.ramirez@email.com,Spanish,1995-01-30,Salvador,São Paulo,2026-06-10,1450,850,economy
+Mason,Sanchez,mason.sanchez@email.com,Spanish,1980-09-12,Fortaleza,Belém,2026-06-15,1315,800,economy
+Grace,Morris,grace.morris@email.com,American,1993-06-08,Recife,João Pessoa,2026-06-20,108,220,business
+Leo,Fisher,leo.fisher@email.com,American,1987-02-18,Manaus,Florianópolis,2026-06-25,3107,1350,economy
+Victoria,Gonzales,victoria.gonzales@email.com,Spanish,1991-10-05,Florianópolis,Porto Alegre,2026-06-30,380,390,economy
+Avery,Cooper,avery.cooper@email.com,American,1986-12-28,Vitória,Rio de Janeiro,2026-07-01,426,410,economy
+Sofia,Rivera,sofia.rivera@email.com,Spanish,1994-08-10,Goiânia,Brasília,2026-07-05,163,260,premium
+Penelope,Kelly,penelope.kelly@email.com,American,1989-05-03,Campo Grande,Cuiabá,2026-07-10,408,400,economy
+Carter,Howard,carter.howard@email.com,American,1990-03-15,Belém,São Luís,2026-07-15,403,400,economy
+Layla,Ward,layla.ward@email.com,American,1985-07-22,Natal,Recife,2026-07-20,280,310,economy
+Ezra,Cox,ezra.cox@email.com,American,1992-11-01,João Pessoa,Maceió,2026-07-25,465,430,economy
+Riley,Brooks,riley.brooks@email.com,American,1988-04-20,Maceió,Salvador,2026-07-30,260,290,economy
+Nora,Bennett,nora.bennett@email.com,American,1995-01-30,São Paulo,Rio de Janeiro,2026-08-01,357,360,economy
+Owen,Reed,owen.reed@email.com,American,1980-09-12,Rio de Janeiro,Belo Horizonte,2026-08-05,339,325,economy
+Scarlett,Cook,scarlett.cook@email.com,American,1993-06-08,Belo Horizonte,Brasília,2026-08-10,586,455,economy
+Caleb,Morgan,caleb.morgan@email.com,American,1987-02-18,Brasília,Curitiba,2026-08-15,935,685,economy
+Madeline,Bell,madeline.bell@email.com,American,1991-10-05,Curitiba,Porto Alegre,2026-08-20,609,525,economy
+Jonathan,Murphy,jonathan.murphy@email.com,Irish,1986-12-28,Porto Alegre,São Paulo,2026-08-25,851,605,economy
+Lillian,Bailey,lillian.bailey@email.com,American,1994-08-10,Salvador,Recife,2026-08-30,680,505,economy
+Jaxon,Garcia,jaxon.garcia@email.com,Spanish,1989-05-03,Fortaleza,Natal,2026-09-01,430,405,economy
+Natalie,White,natalie.white@email.com,American,1990-03-15,Recife,Manaus,2026-09-05,2666,1205,economy
+Isaiah,Kelly,isaiah.kelly@email.com,American,1985-07-22,Manaus,Salvador,2026-09-10,2697,1255,economy
+Mia,Ramirez,mia.ramirez@email.com,Spanish,1992-11-01,Florianópolis,Porto Alegre,2026-09-15,380,385,economy
+Luna,King,luna.king@email.com,American,1988-04-20,Vitória,Rio de Janeiro,2026-09-20,426,415,economy
+Asher,Parker,asher.parker@email.com,American,1995-01-30,Goiânia,Brasília,2026-09-25,163,255,premium
+Skylar,Stewart,skylar.stewart@email.com,American,1980-09-12,Campo Grande,Cuiabá,2026-09-30,408,395,economy
+Violet,Cruz,violet.cruz@email.com,Spanish,1993-06-08,Belém,São Luís,2026-10-01,403,405,economy
+Brooks,Edwards,brooks.edwards@email.com,American,1987-02-18,Natal,Recife,2026-10-05,280,305,economy
+Aurora,Gonzales,aurora.gonzales@email.com,Spanish,1991-10-05,João Pessoa,Maceió,2026-10-10,465,425,economy
+Silas,Turner,silas.turner@email.com,American,1986-12-28,Maceió,Salvador,2026-10-15,260,285,economy
+Everly,Mitchell,everly.mitchell@email.com,American,1994-08-10,São Paulo,Fortaleza,2026-10-20,2362,1105,economy
+Declan,Phillips,declan.phillips@email.com,American,1989-05-03,Rio de Janeiro,Recife,2026-10-25,1860,905,economy
+Willow,Rivera,willow.rivera@email.com,Spanish,1990-03-15,Belo Horizonte,Manaus,2026-10-30,2838,1305,economy
+Ezra,Wood,ezra.wood@email.com,American,1985-07-22,Brasília,Belém,2026-11-01,1593,855,economy
+Adeline,Barnes,adeline.barnes@email.com,American,1992-11-01,Curitiba,Campo Grande,2026-11-05,950,705,economy
+Grayson,Ross,grayson.ross@email.com,American,1988-04-20,Porto Alegre,Vitória,2026-11-10,1600,905,economy
+Eliza,Henderson,eliza.henderson@email.com,American,1995-01-30,Salvador,João Pessoa,2026-11-15,700,555,economy
+Harrison,Coleman,harrison.coleman@email.com,American,1980-09-12,Fortaleza,Cuiabá,2026-11-20,2800,1205,economy
+Maya,Jenkins,maya.jenkins@email.com,American,1993-06-08,Recife,Goiânia,2026-11-25,1900,955,economy
+Leo,Perez,leo.perez@email.com,Spanish,1987-02-18,Manaus,São Luís,2026-11-30,2000,1005,economy
+Naomi,Washington,naomi.washington@email.com,American,1991-10-05,Florianópolis,Brasília,2026-12-01,1100,755,economy
+Arthur,Gonzales,arthur.gonzales@email.com,Spanish,1986-12-28,Vitória,Curitiba,2026-12-05,1200,805,economy
+Delilah,Diaz,delilah.diaz@email.com,Spanish,1994-08-10,Goiânia,Salvador,2026-12-10,1400,885,economy
+Finn,Butler,finn.butler@email.com,American,1989-05-03,Campo Grande,Natal,2026-12-15,2600,1155,economy
+Ruby,Alexander,ruby.alexander@email.com,American,1990-03-15,Belém,Recife,2026-12-20,1600,905,economy
+Gus,Fisher,gus.fisher@email.com,American,1985-07-22,São Luís,Manaus,2026-12-25,2000,1005,economy
+Hazel,Flores,hazel.flores@email.com,Spanish,1992-11-01,Natal,Maceió,2026-12-30,600,485,economy
+Kai,Bennett,kai.bennett@email.com,American,1988-04-20,João Pessoa,Fortaleza,2027-01-01,530,455,economy
+Alice,Long,alice.long@email.com,American,1995-01-30,Maceió,Belo Horizonte,2027-01-05,1300,855,economy
+Jasper,Ward,jasper.ward@email.com,American,1980-09-12,São Paulo,Campo Grande,2027-01-10,870,655,economy
+Piper,Brooks,piper.brooks@email.com,American,1993-06-08,Rio de Janeiro,Goiânia,2027-01-15,900,685,economy
+Sam,Ramirez,sam.ramirez@email.com,Spanish,1987-02-18,Belo Horizonte,Belém,2027-01-20,2000,1005,economy
+River,Roberts,river.roberts@email.com,American,1989-05-03,Maceió,Recife,2027-04-01,200,285,premium`;
   };
   
-  const parseCSVContent = (csvContent: string): Array<{
-    firstName: string;
-    lastName: string;
-    email: string;
-    nationality: string;
-    dateOfBirth: string;
-    departureCity: string;
-    arrivalCity: string;
-    departureDate: string;
-    distance: string;
-    flightCost: string;
-  }> => {
-    const lines = csvContent.trim().split('\n');
-    const dataLines = lines.slice(1); // Skip header
+  const parseCSVContent = (csvContent: string, airports: AirportRow[]): { line: number; passenger: PassengerImport }[] => {
+    const records = [...parseCSV(csvContent)];
+    const dataRecords = records.slice(1); // Skip header
+    const { fieldsByIndex } = resolveColumnMapping(records[0]?.fields ?? []);
     
     console.log('--- CSV Processing ---');
-    console.log('Total lines in CSV:', lines.length);
-    console.log('Data lines (excluding header):', dataLines.length);
+    console.log('Total records in CSV:', records.length);
+    console.log('Data records (excluding header):', dataRecords.length);
     
-    return dataLines
-      .filter(line => line.trim())
-      .map(line => {
-        const values = line.split(',');
-        return {
-          firstName: values[0] || '',
-          lastName: values[1] || '',
-          email: values[2] || '',
-          nationality: values[3] || '',
-          dateOfBirth: values[4] || '',
-          departureCity: values[5] || '',
-          arrivalCity: values[6] || '',
-          departureDate: values[7] || '',
-          distance: values[8] || '',
-          flightCost: values[9] || '',
-        };
-      });
+    const { valid, errors } = validatePassengerRows(
+      dataRecords.map(({ fields, line }) => ({ line, row: mapRecord(fields, fieldsByIndex) })),
+      airports,
+    );
+    
+    if (errors.length > 0) {
+      const [first] = errors;
+      throw new Error(`Invalid test data on line ${first.line} (${first.field}): ${first.reason}`);
+    }
+    
+    return valid;
+  };
+  
+  type FlightLookup = {
+    flightNumber?: string;
+    origin: string;
+    destination: string;
+    scheduledDeparture: string;
+    /** Only used when the flight has to be created */
+    aircraft?: string;
   };
   
-  const insertPassengers = async (db: any, passengers: Array<any>): Promise<number> => {
-    let importedCount = 0;
+  const findFlight = async (db: any, flight: FlightLookup): Promise<number | null> => {
+    // A flight is identified by its number and scheduled departure. Without a
+    // number, passengers sharing a route and date are booked on the same flight.
+    // Only the date is compared, so flights given times by SET_FLIGHT_SCHEDULE
+    // still match imported rows.
+    const departureDate = sql`substr(${flightsTable.scheduledDeparture}, 1, 10) = ${flight.scheduledDeparture.slice(0, 10)}`;
+    const existingFlight = await db.select({ id: flightsTable.id })
+      .from(flightsTable)
+      .where(flight.flightNumber
+        ? and(
+          eq(flightsTable.flightNumber, flight.flightNumber),
+          departureDate,
+        )
+        : and(
+          eq(flightsTable.origin, flight.origin),
+          eq(flightsTable.destination, flight.destination),
+          departureDate,
+        ))
+      .limit(1);
+    
+    return existingFlight.length > 0 ? existingFlight[0].id : null;
+  };
+  
+  const findOrCreateFlight = async (db: any, flight: FlightLookup): Promise<number> =>
+    await findFlight(db, flight) ?? await createFlight(db, flight);
+  
+  const createFlight = async (db: any, flight: FlightLookup): Promise<number> => {
+    const flightNumber = flight.flightNumber || await generateFlightNumber(db);
+    const createdFlight = await db.insert(flightsTable)
+      .values({ ...flight, flightNumber, distanceKm: routeDistanceKm(flight.origin, flight.destination, await getAirports(db)) })
+      .returning({ id: flightsTable.id });
+    
+    return createdFlight[0].id;
+  };
+  
+  const generateFlightNumber = async (db: any): Promise<string> => {
+    const [{ maxId }] = await db
+      .select({ maxId: sql<number | null>`max(${flightsTable.id})` })
+      .from(flightsTable);
+    return `BR${String((maxId ?? 0) + 1).padStart(4, '0')}`;
+  };
+  
+  const toFlightLookup = (passenger: PassengerImport): FlightLookup => ({
+    flightNumber: passenger.flightNumber,
+    origin: passenger.departureCity,
+    destination: passenger.arrivalCity,
+    scheduledDeparture: passenger.departureDate,
+  });
+  
+  const flightKey = (passenger: PassengerImport): string =>
+    passenger.flightNumber
+      ? `${passenger.flightNumber}|${passenger.departureDate}`
+      : `${passenger.departureCity}|${passenger.arrivalCity}|${passenger.departureDate}`;
+  
+  /**
+   * Finds or creates every flight referenced by the passengers, once per
+   * flight, and returns the flight id for each flight key. Created flights
+   * get the aircraft given for their key, if any, and their ids are added
+   * to `created`.
+   */
+  const resolveFlightIds = async (
+    db: any,
+    passengers: PassengerImport[],
+    aircraft: Map<string, string> = new Map(),
+    created: number[] = [],
+  ): Promise<Map<string, number>> => {
+    const flightIds = new Map<string, number>();
     
     for (const passenger of passengers) {
-      const passengerData = {
-        firstName: passenger.firstName,
-        lastName: passenger.lastName,
-        email: passenger.email,
-        nationality: passenger.nationality,
-        dateOfBirth: passenger.dateOfBirth,
-        flightNumber: `BR${String(importedCount + 1).padStart(4, '0')}`,
-        departureCity: passenger.departureCity,
-        arrivalCity: passenger.arrivalCity,
-        departureDate: passenger.departureDate,
-        price: passenger.flightCost,
-        distance: passenger.distance,
-      };
+      const key = flightKey(passenger);
+      if (flightIds.has(key)) continue;
+      
+      const lookup = { ...toFlightLookup(passenger), aircraft: aircraft.get(key) };
+      let flightId = await findFlight(db, lookup);
+      if (flightId === null) {
+        flightId = await createFlight(db, lookup);
+        created.push(flightId);
+      }
+      flightIds.set(key, flightId);
+    }
+    
+    return flightIds;
+  };
+  
+  /**
+   * Booking for each `bookingRef` of an import. A ref matching an existing
+   * record locator joins that booking; other refs get a new booking, which
+   * keeps the ref as its locator when it is shaped like one. The ids of
+   * new bookings are added to `created`.
+   */
+  const resolveBookingRefs = async (
+    db: any,
+    passengers: PassengerImport[],
+    created: number[] = [],
+  ): Promise<Map<string, number>> => {
+    const refs = [...new Set(passengers.flatMap(({ bookingRef }) => bookingRef ? [bookingRef] : []))];
+    const bookingIds = new Map<string, number>();
+    
+    const existing = await db.select()
+      .from(bookingsTable)
+      .where(inJsonList(bookingsTable.recordLocator, refs));
+    for (const booking of existing) {
+      bookingIds.set(booking.recordLocator, booking.id);
+    }
+    
+    const missing = refs.filter((ref) => !bookingIds.has(ref));
+    const newIds = await createBookings(db, missing.map((ref) => RECORD_LOCATOR_PATTERN.test(ref) ? ref : null));
+    missing.forEach((ref, index) => bookingIds.set(ref, newIds[index]));
+    created.push(...newIds);
+    
+    return bookingIds;
+  };
+  
+  const toPassengerRow = (passenger: PassengerImport, flightId: number, bookingId: number) => ({
+    firstName: passenger.firstName,
+    lastName: passenger.lastName,
+    email: passenger.email,
+    phone: passenger.phone ?? null,
+    nationality: passenger.nationality ?? null,
+    dateOfBirth: passenger.dateOfBirth ?? null,
+    flightId,
+    bookingId,
+    ticketClass: passenger.ticketClass ?? 'economy',
+    priceCents: passenger.price === undefined ? null : toCents(passenger.price),
+    currency: passenger.currency ?? DEFAULT_CURRENCY,
+    status: passenger.status ?? 'confirmed',
+  });
+  
+  /**
+   * Fields an upsert overwrites: only the ones the CSV actually supplied,
+   * so a file without a status column does not reset existing statuses.
+   */
+  const toPassengerUpdate = (passenger: PassengerImport) => ({
+    firstName: passenger.firstName,
+    lastName: passenger.lastName,
+    ...(passenger.phone !== undefined && { phone: passenger.phone }),
+    ...(passenger.nationality !== undefined && { nationality: passenger.nationality }),
+    ...(passenger.dateOfBirth !== undefined && { dateOfBirth: passenger.dateOfBirth }),
+    ...(passenger.ticketClass !== undefined && { ticketClass: passenger.ticketClass }),
+    ...(passenger.price !== undefined && { priceCents: toCents(passenger.price) }),
+    ...(passenger.currency !== undefined && { currency: passenger.currency }),
+    ...(passenger.status !== undefined && { status: passenger.status }),
+  });
+  
+  const MAX_IMPORT_BATCH_SIZE = 2 * BULK_WRITE_BATCH_SIZE;
+  
+  const IMPORT_MODES = ["insert", "upsert", "skipDuplicates"] as const;
+  type ImportMode = typeof IMPORT_MODES[number];
+  
+  /**
+   * Parts a natural key can be built from. `flight` is the flight number
+   * plus scheduled departure; the database enforces `email` + `flight`.
+   */
+  const NATURAL_KEY_FIELDS = ["email", "firstName", "lastName", "dateOfBirth", "flight"] as const;
+  type NaturalKeyField = typeof NATURAL_KEY_FIELDS[number];
+  const EMAIL_FLIGHT_KEY: NaturalKeyField[] = ["email", "flight"];
+  const DEFAULT_NATURAL_KEY = EMAIL_FLIGHT_KEY;
+  
+  const naturalKeyOf = (
+    values: Partial<Record<Exclude<NaturalKeyField, "flight">, string | null>>,
+    flight: string,
+    naturalKey: NaturalKeyField[],
+  ): string =>
+    naturalKey
+      .map((field) => field === "flight" ? flight : (values[field] ?? '').trim().toLowerCase())
+      .join('|');
+  
+  type ImportRow = { line: number; passenger: PassengerImport };
+  
+  type ImportPlan = {
+    creates: ImportRow[];
+    updates: (ImportRow & { passengerId: number; flightId: number; fromStatus: BookingStatus; fromCabin: TicketClass })[];
+    /** New bookings that did not fit in their cabin and go to the waitlist */
+    waitlist: ImportRow[];
+    /** Rows skipped as repeats of an earlier row of the file */
+    skippedInFileCount: number;
+    /** Rows skipped because the passenger is already booked */
+    skippedExistingCount: number;
+    /** Aircraft of the flights the import creates, by flight key, when not the default */
+    newFlightAircraft: Map<string, string>;
+    errors: RowValidationError[];
+  };
+  
+  /**
+   * Decides what to do with each validated row by matching its natural key
+   * against passengers already booked on the same flight and against
+   * earlier rows of the same file. Read-only: nothing is written here.
+   */
+  const planPassengerImport = async (
+    db: any,
+    rows: ImportRow[],
+    options: { mode?: ImportMode; naturalKey?: NaturalKeyField[]; overCapacity?: OverCapacityAction } = {},
+  ): Promise<ImportPlan> => {
+    const mode = options.mode ?? "insert";
+    const naturalKey = options.naturalKey?.length ? options.naturalKey : DEFAULT_NATURAL_KEY;
+    const plan: ImportPlan = {
+      creates: [],
+      updates: [],
+      waitlist: [],
+      skippedInFileCount: 0,
+      skippedExistingCount: 0,
+      newFlightAircraft: new Map(),
+      errors: [],
+    };
+    
+    // Flights that already exist; new flights cannot have existing passengers
+    const existingFlightIds = new Map<string, number>();
+    const lookedUp = new Set<string>();
+    for (const { passenger } of rows) {
+      const key = flightKey(passenger);
+      if (lookedUp.has(key)) continue;
+      lookedUp.add(key);
+      const flightId = await findFlight(db, toFlightLookup(passenger));
+      if (flightId !== null) existingFlightIds.set(key, flightId);
+    }
+    
+    const flightIdentity = (passenger: PassengerImport): string => {
+      const flightId = existingFlightIds.get(flightKey(passenger));
+      return flightId !== undefined ? `#${flightId}` : `new:${flightKey(passenger)}`;
+    };
+    
+    // Cancelled, no-show and refunded bookings are not matched: the passenger can book again
+    const existingPassengers = new Map<string, typeof passengersTable.$inferSelect>();
+    // Who holds each email on each flight, which the database allows once
+    const bookedEmails = new Map<string, number>();
+    const passengers = await db.select().from(passengersTable)
+      .where(and(
+        inJsonList(passengersTable.flightId, [...new Set(existingFlightIds.values())]),
+        not(inArray(passengersTable.status, INACTIVE_BOOKING_STATUSES)),
+      ));
+    for (const passenger of passengers) {
+      existingPassengers.set(naturalKeyOf(passenger, `#${passenger.flightId}`, naturalKey), passenger);
+      if (passenger.email) {
+        bookedEmails.set(naturalKeyOf(passenger, `#${passenger.flightId}`, EMAIL_FLIGHT_KEY), passenger.id);
+      }
+    }
+    
+    // Natural key → the row of this file that currently claims it
+    const seenInFile = new Map<string, { line: number; index: number; kind: "create" | "update" }>();
+    // Natural keys of passengers already booked that a row of this file skipped
+    const skippedExisting = new Set<string>();
+    
+    for (const row of rows) {
+      const key = naturalKeyOf(row.passenger, flightIdentity(row.passenger), naturalKey);
+      const existing = existingPassengers.get(key);
+      const earlier = seenInFile.get(key);
+      
+      if (earlier) {
+        if (mode === "insert") {
+          plan.errors.push({
+            line: row.line,
+            field: 'row',
+            reason: `Duplicate of line ${earlier.line}`,
+            value: row.passenger.email,
+          });
+        } else if (mode === "upsert") {
+          // The last occurrence in the file wins
+          const target = earlier.kind === "create" ? plan.creates : plan.updates;
+          target[earlier.index] = { ...target[earlier.index], ...row };
+          earlier.line = row.line;
+          plan.skippedInFileCount++;
+        } else {
+          plan.skippedInFileCount++;
+        }
+        continue;
+      }
+      
+      if (skippedExisting.has(key)) {
+        plan.skippedInFileCount++;
+        continue;
+      }
+      
+      if (existing !== undefined) {
+        if (mode === "insert") {
+          plan.errors.push({
+            line: row.line,
+            field: 'row',
+            reason: `Duplicate of existing passenger #${existing.id}`,
+            value: row.passenger.email,
+          });
+        } else if (mode === "upsert") {
+          seenInFile.set(key, { line: row.line, index: plan.updates.length, kind: "update" });
+          plan.updates.push({
+            ...row,
+            passengerId: existing.id,
+            flightId: existing.flightId!,
+            fromStatus: existing.status,
+            fromCabin: existing.ticketClass,
+          });
+        } else {
+          skippedExisting.add(key);
+          plan.skippedExistingCount++;
+        }
+        continue;
+      }
+      
+      seenInFile.set(key, { line: row.line, index: plan.creates.length, kind: "create" });
+      plan.creates.push(row);
+    }
+    
+    // A natural key without email + flight can tell apart two bookings the
+    // database would reject as the same email on the same flight
+    const createdEmails = new Map<string, number>();
+    plan.creates = plan.creates.filter(({ line, passenger }) => {
+      if (passenger.status && INACTIVE_BOOKING_STATUSES.includes(passenger.status)) {
+        return true;
+      }
+      
+      const key = naturalKeyOf(passenger, flightIdentity(passenger), EMAIL_FLIGHT_KEY);
+      const existingId = bookedEmails.get(key);
+      const earlierLine = createdEmails.get(key);
+      if (existingId === undefined && earlierLine === undefined) {
+        createdEmails.set(key, line);
+        return true;
+      }
+      
+      plan.errors.push({
+        line,
+        field: 'email',
+        reason: existingId !== undefined
+          ? `${passenger.email} is already booked on this flight (passenger #${existingId})`
+          : `${passenger.email} is already booked on this flight by line ${earlierLine}`,
+        value: passenger.email,
+      });
+      return false;
+    });
+    
+    // Upserts go through the booking lifecycle like any other status change
+    plan.updates = plan.updates.filter(({ line, passenger, fromStatus }) => {
+      if (!passenger.status || passenger.status === fromStatus || canTransition(fromStatus, passenger.status)) {
+        return true;
+      }
+      plan.errors.push({
+        line,
+        field: 'status',
+        reason: `Cannot change booking status from ${fromStatus} to ${passenger.status}`,
+        value: passenger.status,
+      });
+      return false;
+    });
+    
+    // New bookings beyond a cabin's limit are rejected or waitlisted, and
+    // bookings in a cabin their aircraft does not have are rejected. Flights
+    // the import creates start empty, on the default aircraft unless the file
+    // books them in a cabin it lacks.
+    const available = new Map<string, number>();
+    const aircraftOf = new Map<string, string>();
+    const existingIds = [...new Set(existingFlightIds.values())];
+    for (const { flight, cabins } of existingIds.length > 0 ? await getFlightLoads(db, existingIds) : []) {
+      aircraftOf.set(`#${flight.id}`, seatMapFor(flight.aircraft).aircraft);
+      for (const cabin of cabins) {
+        available.set(`#${flight.id}|${cabin.cabin}`, cabin.available);
+      }
+    }
+    
+    const newFlightCabins = new Map<string, Set<TicketClass>>();
+    for (const { passenger } of plan.creates) {
+      const flight = flightIdentity(passenger);
+      if (!flight.startsWith('new:')) continue;
+      newFlightCabins.set(flight, (newFlightCabins.get(flight) ?? new Set()).add(passenger.ticketClass ?? 'economy'));
+    }
+    for (const [flight, cabins] of newFlightCabins) {
+      const aircraft = aircraftWithCabins(cabins);
+      aircraftOf.set(flight, aircraft);
+      if (aircraft !== DEFAULT_AIRCRAFT) {
+        plan.newFlightAircraft.set(flight.slice('new:'.length), aircraft);
+      }
+      for (const [cabin, capacity] of cabinCapacities(aircraft)) {
+        available.set(`${flight}|${cabin}`, capacity);
+      }
+    }
+    
+    const flightNameOf = (passenger: PassengerImport) =>
+      `${passenger.flightNumber ?? `${passenger.departureCity} → ${passenger.arrivalCity}`} on ${passenger.departureDate}`;
+    
+    // Takes a place in the cabin, or records why the row cannot have one
+    const takePlace = (line: number, passenger: PassengerImport, flight: string, cabin: TicketClass): boolean | "full" => {
+      const key = `${flight}|${cabin}`;
+      const left = available.get(key);
+      if (left === undefined) {
+        plan.errors.push({
+          line,
+          field: 'ticketClass',
+          reason: `Flight ${flightNameOf(passenger)} (${aircraftOf.get(flight)}) has no ${cabin} cabin`,
+          value: cabin,
+        });
+        return false;
+      }
+      if (left > 0) {
+        available.set(key, left - 1);
+        return true;
+      }
+      return "full";
+    };
+    
+    // Upserts that move a booking to another cabin, or cancel it, free its
+    // place first; a move then needs a place in the new cabin like a new booking
+    const isActive = (status: BookingStatus) => !INACTIVE_BOOKING_STATUSES.includes(status);
+    const movesCabin = ({ passenger, fromStatus, fromCabin }: ImportPlan["updates"][number]) =>
+      isActive(passenger.status ?? fromStatus) && (!isActive(fromStatus) || (passenger.ticketClass ?? fromCabin) !== fromCabin);
+    for (const update of plan.updates) {
+      const { passenger, flightId, fromStatus, fromCabin } = update;
+      if (isActive(fromStatus) && (!isActive(passenger.status ?? fromStatus) || movesCabin(update))) {
+        const key = `#${flightId}|${fromCabin}`;
+        available.set(key, (available.get(key) ?? 0) + 1);
+      }
+    }
+    plan.updates = plan.updates.filter((update) => {
+      if (!movesCabin(update)) return true;
+      const { line, passenger, flightId, fromCabin } = update;
+      const cabin = passenger.ticketClass ?? fromCabin;
+      const place = takePlace(line, passenger, `#${flightId}`, cabin);
+      if (place === "full") {
+        plan.errors.push({
+          line,
+          field: 'ticketClass',
+          reason: `The ${cabin} cabin of flight ${flightNameOf(passenger)} is full`,
+          value: cabin,
+        });
+      }
+      return place === true;
+    });
+    
+    plan.creates = plan.creates.filter((row) => {
+      const { passenger } = row;
+      if (passenger.status && INACTIVE_BOOKING_STATUSES.includes(passenger.status)) {
+        return true;
+      }
+      
+      const cabin = passenger.ticketClass ?? 'economy';
+      const place = takePlace(row.line, passenger, flightIdentity(passenger), cabin);
+      if (place !== "full") return place;
+      
+      if (options.overCapacity === "waitlist") {
+        plan.waitlist.push(row);
+      } else {
+        plan.errors.push({
+          line: row.line,
+          field: 'ticketClass',
+          reason: `The ${cabin} cabin of flight ${flightNameOf(passenger)} is full`,
+          value: cabin,
+        });
+      }
+      return false;
+    });
+    
+    return plan;
+  };
+  
+  /**
+   * Everything an import has written, so a failed all-or-nothing import
+   * can take it back. Each statement commits on its own and the runtime
+   * has no transaction or batch to group them.
+   */
+  type ImportWrites = {
+    flightIds: number[];
+    bookingIds: number[];
+    passengerIds: number[];
+    /** Upserted passengers as they were before the import */
+    previousPassengers: (typeof passengersTable.$inferSelect)[];
+    historyIds: number[];
+    waitlistIds: number[];
+  };
+  
+  const emptyImportWrites = (): ImportWrites => ({
+    flightIds: [],
+    bookingIds: [],
+    passengerIds: [],
+    previousPassengers: [],
+    historyIds: [],
+    waitlistIds: [],
+  });
+  
+  /**
+   * Removes what an import created and restores the passengers it
+   * updated, children before the rows they reference.
+   */
+  const undoImportWrites = async (db: any, writes: ImportWrites) => {
+    await db.delete(bookingStatusHistoryTable).where(or(
+      inJsonList(bookingStatusHistoryTable.id, writes.historyIds),
+      inJsonList(bookingStatusHistoryTable.passengerId, writes.passengerIds),
+    ));
+    await db.delete(paymentsTable).where(inJsonList(paymentsTable.passengerId, writes.passengerIds));
+    await updateMany(db, passengersTable, writes.previousPassengers);
+    await db.delete(waitlistHistoryTable).where(inJsonList(waitlistHistoryTable.waitlistId, writes.waitlistIds));
+    await db.delete(waitlistTable).where(inJsonList(waitlistTable.id, writes.waitlistIds));
+    await db.delete(passengersTable).where(inJsonList(passengersTable.id, writes.passengerIds));
+    await db.delete(bookingsTable).where(inJsonList(bookingsTable.id, writes.bookingIds));
+    await db.delete(flightsTable).where(inJsonList(flightsTable.id, writes.flightIds));
+  };
+  
+  /**
+   * Writes an import plan, one statement per batch of rows. A failing
+   * batch is retried row by row to find the rows that fail. With
+   * `onError: "abort"` (the default) the first of them undoes everything
+   * the import wrote; with `onError: "skip"` they are skipped and the
+   * other rows stay.
+   */
+  const writePassengerImport = async (
+    db: any,
+    plan: ImportPlan,
+    options: { batchSize?: number; onError?: "abort" | "skip"; changedBy?: string } = {},
+  ): Promise<{
+    createdCount: number;
+    updatedCount: number;
+    waitlistedCount: number;
+    promotedCount: number;
+    errors: RowValidationError[];
+  }> => {
+    const batchSize = Math.min(options.batchSize || BULK_WRITE_BATCH_SIZE, MAX_IMPORT_BATCH_SIZE);
+    const abort = (options.onError ?? "abort") === "abort";
+    const errors: RowValidationError[] = [];
+    const changedBy = options.changedBy ?? 'csv-import';
+    const writes = emptyImportWrites();
+    
+    const newPassengers = [...plan.creates, ...plan.waitlist].map(({ passenger }) => passenger);
+    const bookedPassengers = [...plan.creates, ...plan.updates].map(({ passenger }) => passenger);
+    
+    const toWaitlistRow = (passenger: PassengerImport, flightId: number) => ({
+      flightId,
+      cabin: passenger.ticketClass ?? 'economy',
+      firstName: passenger.firstName,
+      lastName: passenger.lastName,
+      email: passenger.email,
+      phone: passenger.phone ?? null,
+      nationality: passenger.nationality ?? null,
+      dateOfBirth: passenger.dateOfBirth ?? null,
+      priceCents: passenger.price === undefined ? null : toCents(passenger.price),
+      currency: passenger.currency ?? DEFAULT_CURRENCY,
+    });
+    
+    // Passengers sharing a bookingRef join its booking; everyone else gets their own
+    const insertPassengers = async (rows: ImportRow[], writes: ImportWrites) => {
+      const ownBookings = await createBookings(db, rows.flatMap(({ passenger }) => passenger.bookingRef ? [] : [null]));
+      writes.bookingIds.push(...ownBookings);
+      
+      const values = rows.map(({ passenger }) =>
+        toPassengerRow(
+          passenger,
+          flightIds.get(flightKey(passenger))!,
+          passenger.bookingRef ? bookingIds.get(passenger.bookingRef)! : ownBookings.shift()!,
+        )
+      );
+      const ids = await insertMany(db, passengersTable, values, batchSize);
+      writes.passengerIds.push(...ids);
+      
+      writes.historyIds.push(...await insertMany(db, bookingStatusHistoryTable, values.map((passenger, index) => ({
+        passengerId: ids[index],
+        fromStatus: null,
+        toStatus: passenger.status,
+        changedBy,
+        reason: 'Imported from CSV',
+      })), batchSize));
       
-      await db.insert(passengersTable).values(passengerData);
-      importedCount++;
+      await recordFareCharges(db, values.map((passenger, index) => ({ ...passenger, id: ids[index] })), changedBy);
+    };
+    
+    const updatePassengers = async (updates: ImportPlan["updates"], writes: ImportWrites) => {
+      const ids = updates.map(({ passengerId }) => passengerId);
+      writes.previousPassengers.push(...await db.select()
+        .from(passengersTable)
+        .where(inJsonList(passengersTable.id, ids)));
+      
+      await updateMany(db, passengersTable, updates.map(({ passenger, passengerId, fromCabin }) => ({
+        id: passengerId,
+        ...toPassengerUpdate(passenger),
+        // A seat belongs to its cabin, as when UPDATE_PASSENGER moves a booking,
+        // and an inactive booking gives it back
+        ...(((passenger.ticketClass ?? fromCabin) !== fromCabin ||
+          (passenger.status && INACTIVE_BOOKING_STATUSES.includes(passenger.status))) && { seat: null }),
+        ...(passenger.bookingRef && { bookingId: bookingIds.get(passenger.bookingRef) }),
+      })), batchSize);
+      
+      writes.historyIds.push(...await insertMany(db, bookingStatusHistoryTable, updates
+        .filter(({ passenger, fromStatus }) => passenger.status && passenger.status !== fromStatus)
+        .map(({ passenger, passengerId, fromStatus }) => ({
+          passengerId,
+          fromStatus,
+          toStatus: passenger.status!,
+          changedBy,
+          reason: 'Updated by CSV import',
+        }))));
+    };
+    
+    // Reports the database's error rather than the driver's, which quotes the whole statement
+    const rowError = (line: number, action: string, error: unknown): RowValidationError => {
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      return {
+        line,
+        field: 'row',
+        reason: `${action} failed: ${cause instanceof Error ? cause.message : 'Unknown error'}`,
+        value: null,
+      };
+    };
+    
+    // Writes rows `size` at a time and returns how many were written. A
+    // failed attempt takes back its own writes, so a failing batch can be
+    // retried row by row to find the rows that fail.
+    const writeBatches = async <T extends ImportRow>(
+      rows: T[],
+      size: number,
+      action: string,
+      write: (batch: T[], writes: ImportWrites) => Promise<void>,
+    ) => {
+      const attempt = async (batch: T[]) => {
+        const attemptWrites = emptyImportWrites();
+        try {
+          await write(batch, attemptWrites);
+        } catch (error) {
+          await undoImportWrites(db, attemptWrites);
+          throw error;
+        }
+        for (const key of Object.keys(writes) as (keyof ImportWrites)[]) {
+          (writes[key] as unknown[]).push(...attemptWrites[key]);
+        }
+      };
       
-      console.log(`✅ Successfully inserted passenger ${importedCount}: ${passengerData.firstName} ${passengerData.lastName}`);
+      let writtenCount = 0;
+      for (const batch of chunk(rows, size)) {
+        try {
+          await attempt(batch);
+          writtenCount += batch.length;
+          continue;
+        } catch (error) {
+          if (batch.length === 1) {
+            errors.push(rowError(batch[0].line, action, error));
+            if (abort) return writtenCount;
+            continue;
+          }
+        }
+        
+        for (const row of batch) {
+          try {
+            await attempt([row]);
+            writtenCount++;
+          } catch (error) {
+            errors.push(rowError(row.line, action, error));
+            if (abort) return writtenCount;
+          }
+        }
+      }
+      return writtenCount;
+    };
+    
+    const flightIds = await resolveFlightIds(db, newPassengers, plan.newFlightAircraft, writes.flightIds);
+    const bookingIds = await resolveBookingRefs(db, bookedPassengers, writes.bookingIds);
+    const failed = () => abort && errors.length > 0;
+    
+    const createdCount = await writeBatches(plan.creates, batchSize, 'Insert', insertPassengers);
+    const updatedCount = failed() ? 0 : await writeBatches(plan.updates, batchSize, 'Update', updatePassengers);
+    // Waitlist entries are added one at a time, each checked against the entries already waiting
+    const waitlistedCount = failed() ? 0 : await writeBatches(plan.waitlist, 1, 'Waitlist', async ([{ passenger }], writes) => {
+      const entry = await addToWaitlist(db, toWaitlistRow(passenger, flightIds.get(flightKey(passenger))!), changedBy);
+      writes.waitlistIds.push(entry.id);
+    });
+    
+    if (failed()) {
+      try {
+        await undoImportWrites(db, writes);
+      } catch (error) {
+        const [failure] = errors;
+        throw new Error(`Line ${failure.line}: ${failure.reason}, and undoing the rows written before it failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return { createdCount: 0, updatedCount: 0, waitlistedCount: 0, promotedCount: 0, errors };
+    }
+    
+    // Upserts that cancel a booking or move it to another cabin free a
+    // place, which goes to the cabin's waitlist as after a cancellation
+    const updates = new Map(plan.updates.map((update) => [update.passengerId, update]));
+    const freedCabins = new Map<string, { flightId: number; cabin: TicketClass }>();
+    for (const previous of writes.previousPassengers) {
+      const { passenger } = updates.get(previous.id)!;
+      const cabin = passenger.ticketClass ?? previous.ticketClass;
+      const status = passenger.status ?? previous.status;
+      if (previous.flightId !== null && !INACTIVE_BOOKING_STATUSES.includes(previous.status) &&
+        (INACTIVE_BOOKING_STATUSES.includes(status) || cabin !== previous.ticketClass)) {
+        freedCabins.set(`${previous.flightId}|${previous.ticketClass}`, { flightId: previous.flightId, cabin: previous.ticketClass });
+      }
+    }
+    let promotedCount = 0;
+    for (const { flightId, cabin } of freedCabins.values()) {
+      const promoted = await promoteFromWaitlist(db, { flightId, cabin, changedBy, reason: 'Place freed by CSV import' });
+      promotedCount += promoted.length;
     }
     
-    return importedCount;
+    return { createdCount, updatedCount, waitlistedCount, promotedCount, errors };
   };
 
+  const MAX_REPORTED_IMPORT_ERRORS = 500;
+  
   export const createImportPassengersFromCSVTool = (env: Env) =>
     createTool({
       id: "IMPORT_PASSENGERS_FROM_CSV",
-      description: "Import passenger data from CSV file into the database",
+      description: "Import passenger data from CSV file into the database. Columns are matched by header name (case-insensitive, with common aliases such as flightCost or data_nascimento). Rows matching an existing passenger by natural key (email + flight by default) are rejected, updated or skipped depending on mode.",
       inputSchema: z.object({
         csvContent: z.string().describe("CSV content as string"),
+        delimiter: z.string().length(1).optional().describe("Field delimiter (defaults to ',', use ';' for Brazilian exports)"),
+        columnMapping: z.record(z.enum(PASSENGER_IMPORT_FIELDS)).optional().describe(
+          "Explicit CSV header → passenger field mapping, overriding name matching (e.g. { \"Valor Pago\": \"price\" })",
+        ),
+        dryRun: z.boolean().optional().describe("Validate the file and return the report without inserting anything"),
+        batchSize: z.number().int().min(1).max(MAX_IMPORT_BATCH_SIZE).optional().describe(
+          `Rows written per statement (defaults to ${BULK_WRITE_BATCH_SIZE}, max ${MAX_IMPORT_BATCH_SIZE})`,
+        ),
+        onError: z.enum(["abort", "skip"]).optional().describe(
+          "\"abort\" (default) imports nothing if any row is invalid or fails to write, removing what was already written; \"skip\" imports the valid rows and skips the failing ones",
+        ),
+        mode: z.enum(IMPORT_MODES).optional().describe(
+          "How to handle rows matching an existing passenger or an earlier row: \"insert\" (default) reports them as errors, \"upsert\" updates the existing passenger (last row wins), \"skipDuplicates\" leaves it untouched",
+        ),
+        naturalKey: z.array(z.enum(NATURAL_KEY_FIELDS)).min(1).optional().describe(
+          "Fields identifying the same passenger (defaults to [\"email\", \"flight\"]; flight is flight number + departure date)",
+        ),
+        overCapacity: z.enum(OVER_CAPACITY_ACTIONS).optional().describe(
+          "What to do with new bookings that do not fit in their cabin: \"reject\" (default) reports them as errors, \"waitlist\" adds them to the flight's waitlist",
+        ),
+        distanceTolerancePercent: z.number().min(0).optional().describe(
+          `How far a row's distance may be from the great-circle distance before it is flagged (defaults to ${DISTANCE_TOLERANCE_PERCENT})`,
+        ),
       }),
       outputSchema: z.object({
         success: z.boolean(),
-        importedCount: z.number(),
+        dryRun: z.boolean(),
+        importedCount: z.number().describe("Passengers created plus passengers updated"),
+        createdCount: z.number(),
+        updatedCount: z.number(),
+        waitlistedCount: z.number().describe("Rows added to a waitlist because their cabin was full"),
+        promotedCount: z.number().describe("Waitlisted passengers booked into places that upserts freed"),
+        skippedCount: z.number(),
+        durationMs: z.number(),
+        totalRows: z.number(),
+        validRows: z.number(),
+        columnMapping: z.record(z.string()),
+        unknownColumns: z.array(z.string()),
+        missingColumns: z.array(z.string()),
+        errorCount: z.number(),
+        errors: z.array(z.object({
+          line: z.number(),
+          field: z.string(),
+          reason: z.string(),
+          value: z.string().nullable(),
+        })).describe(`Per-row validation errors (first ${MAX_REPORTED_IMPORT_ERRORS})`),
+        distanceWarnings: z.array(z.object({
+          line: z.number(),
+          route: z.string(),
+          supplied: z.number(),
+          computed: z.number(),
+          deviationPercent: z.number(),
+        })).describe("Rows whose distance is off from the computed great-circle distance; flights always store the computed one"),
         message: z.string(),
       }),
       execute: async ({ context }) => {
+        const dryRun = context.dryRun ?? false;
+        const report = {
+          dryRun,
+          importedCount: 0,
+          createdCount: 0,
+          updatedCount: 0,
+          waitlistedCount: 0,
+          promotedCount: 0,
+          skippedCount: 0,
+          durationMs: 0,
+          totalRows: 0,
+          validRows: 0,
+          columnMapping: {} as Record<string, string>,
+          unknownColumns: [] as string[],
+          missingColumns: [] as string[],
+          errorCount: 0,
+          errors: [] as RowValidationError[],
+          distanceWarnings: [] as DistanceWarning[],
+        };
+        
+        const startedAt = Date.now();
+        
         try {
           const db = await getDb(env);
           
           // Parse CSV content
-          const lines = context.csvContent.trim().split('\n');
-          const headers = lines[0].split(',');
-          const dataLines = lines.slice(1);
+          const records = parseCSV(context.csvContent, { delimiter: context.delimiter });
+          const headers = records.next().value?.fields ?? [];
           
-          let importedCount = 0;
+          // Check the header before inserting anything
+          const columns = resolveColumnMapping(headers, context.columnMapping);
+          report.columnMapping = columns.mapping;
+          report.unknownColumns = columns.unknownColumns;
+          report.missingColumns = columns.missingColumns;
           
-          for (const line of dataLines) {
-            if (line.trim()) {
-              const values = line.split(',');
-              const passengerData = {
-                firstName: values[0] || '',
-                lastName: values[1] || '',
-                email: values[2] || '',
-                phone: values[3] || null,
-                passportNumber: values[4] || null,
-                nationality: values[5] || null,
-                dateOfBirth: values[6] || null,
-                seatNumber: values[7] || null,
-                flightNumber: values[8] || '',
-                departureCity: values[9] || '',
-                arrivalCity: values[10] || '',
-                departureDate: values[11] || '',
-                ticketClass: values[12] || null,
-                price: values[13] || null,
-                status: values[14] || 'confirmed',
-              };
-              
-              await db.insert(passengersTable).values(passengerData);
-              importedCount++;
-            }
+          if (columns.errors.length > 0 || columns.missingColumns.length > 0) {
+            const problems = [
+              ...columns.errors,
+              ...(columns.missingColumns.length > 0
+                ? [`Missing required columns: ${columns.missingColumns.join(', ')}`]
+                : []),
+            ];
+            return {
+              ...report,
+              success: false,
+              message: `CSV header rejected. ${problems.join('. ')}`,
+            };
+          }
+          
+          // Validate every row before touching the database
+          const rows = Array.from(records, ({ fields, line }) => ({
+            line,
+            row: mapRecord(fields, columns.fieldsByIndex),
+          }));
+          const airports = await getAirports(db);
+          const { valid, errors: validationErrors } = validatePassengerRows(rows, airports);
+          const tolerance = context.distanceTolerancePercent ?? DISTANCE_TOLERANCE_PERCENT;
+          report.distanceWarnings = checkDistances(valid, tolerance, airports).slice(0, MAX_REPORTED_IMPORT_ERRORS);
+          
+          // Match rows against existing passengers and each other
+          const mode = context.mode ?? "insert";
+          const plan = await planPassengerImport(db, valid, {
+            mode,
+            naturalKey: context.naturalKey,
+            overCapacity: context.overCapacity,
+          });
+          const errors = [...validationErrors, ...plan.errors].sort((a, b) => a.line - b.line);
+          
+          report.totalRows = rows.length;
+          report.validRows = valid.length;
+          report.errorCount = errors.length;
+          report.errors = errors.slice(0, MAX_REPORTED_IMPORT_ERRORS);
+          
+          const ignored = columns.unknownColumns.length > 0
+            ? ` Ignored unknown columns: ${columns.unknownColumns.join(', ')}.`
+            : '';
+          const invalidLines = new Set(errors.map((error) => error.line)).size;
+          const skippedDuplicates = plan.skippedInFileCount + plan.skippedExistingCount;
+          const duplicates = skippedDuplicates > 0 ? ` ${skippedDuplicates} duplicate rows skipped.` : '';
+          const waitlisted = (count: number) => count > 0 ? ` ${count} waitlisted.` : '';
+          const promoted = (count: number) => count > 0 ? ` ${count} promoted from the waitlist.` : '';
+          const offDistance = report.distanceWarnings.length > 0
+            ? ` ${report.distanceWarnings.length} rows have a distance more than ${tolerance}% off the computed one.`
+            : '';
+          
+          if (dryRun) {
+            report.createdCount = plan.creates.length;
+            report.updatedCount = plan.updates.length;
+            report.waitlistedCount = plan.waitlist.length;
+            report.importedCount = plan.creates.length + plan.updates.length;
+            report.skippedCount = invalidLines + skippedDuplicates;
+            
+            return {
+              ...report,
+              success: errors.length === 0,
+              message: errors.length === 0
+                ? `Dry run: all ${rows.length} rows are valid; would create ${report.createdCount} and update ${report.updatedCount} passengers.${waitlisted(report.waitlistedCount)}${duplicates}${offDistance}${ignored}`
+                : `Dry run: ${invalidLines} of ${rows.length} rows have errors.${ignored}`,
+            };
+          }
+          
+          const onError = context.onError ?? "abort";
+          
+          if (errors.length > 0 && onError === "abort") {
+            return {
+              ...report,
+              success: false,
+              durationMs: Date.now() - startedAt,
+              message: `Import rejected: ${invalidLines} of ${rows.length} rows have errors. Nothing was inserted.${ignored}`,
+            };
+          }
+          
+          const written = await writePassengerImport(db, plan, {
+            batchSize: context.batchSize,
+            onError,
+            changedBy: currentActor(env, 'csv-import'),
+          });
+          
+          const allErrors = [...errors, ...written.errors].sort((a, b) => a.line - b.line);
+          report.createdCount = written.createdCount;
+          report.updatedCount = written.updatedCount;
+          report.waitlistedCount = written.waitlistedCount;
+          report.promotedCount = written.promotedCount;
+          report.importedCount = written.createdCount + written.updatedCount;
+          report.skippedCount = invalidLines + written.errors.length + skippedDuplicates;
+          report.errorCount = allErrors.length;
+          report.errors = allErrors.slice(0, MAX_REPORTED_IMPORT_ERRORS);
+          report.durationMs = Date.now() - startedAt;
+          
+          if (onError === "abort" && written.errors.length > 0) {
+            const [failure] = written.errors;
+            return {
+              ...report,
+              success: false,
+              message: `Import failed at line ${failure.line}: ${failure.reason}. Nothing was imported; the rows written before it were removed.`,
+            };
           }
           
+          const failed = invalidLines + written.errors.length;
+          const skipped = failed > 0 ? ` Skipped ${failed} rows with errors.` : '';
+          
           return {
+            ...report,
             success: true,
-            importedCount,
-            message: `Successfully imported ${importedCount} passengers from CSV`,
+            message: `Successfully imported passengers from CSV in ${report.durationMs}ms: ${report.createdCount} created, ${report.updatedCount} updated.${waitlisted(report.waitlistedCount)}${promoted(report.promotedCount)}${duplicates}${skipped}${offDistance}${ignored}`,
           };
         } catch (error) {
           console.error('Error importing CSV:', error);
           return {
-            success: false,
+            ...report,
             importedCount: 0,
+            createdCount: 0,
+            updatedCount: 0,
+            waitlistedCount: 0,
+            promotedCount: 0,
+            durationMs: Date.now() - startedAt,
+            success: false,
             message: `Error importing CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
           };
         }
@@ -742,69 +4871,105 @@ River,Roberts,river.roberts@email.com,American,1989-05-03,Maceió,Recife,2027-04
     export const createGetPassengerStatsTool = (env: Env) =>
       createTool({
         id: "GET_PASSENGER_STATS",
-        description: "Get statistics about passengers in the database",
-        inputSchema: z.object({}),
+        description: "Get statistics about the passengers matching the same filters as GET_PASSENGERS: counts by ticket class, status, flight and nationality, and fare statistics",
+        inputSchema: passengerFiltersSchema.extend({
+          reportingCurrency: reportingCurrencySchema,
+        }),
         outputSchema: z.object({
+          reportingCurrency: z.string(),
           totalPassengers: z.number(),
           byTicketClass: z.record(z.number()),
           byStatus: z.record(z.number()),
           byFlight: z.record(z.number()),
+          byNationality: z.record(z.number()),
           averagePrice: z.number(),
+          medianPrice: z.number(),
+          minPrice: z.number(),
+          maxPrice: z.number(),
+          totalRevenue: z.number().describe("Sum of the matching passengers' prices; filter by status to leave out cancellations"),
           message: z.string(),
         }),
-        execute: async () => {
+        execute: async ({ context }) => {
           try {
-            const db = await getDb(env);
+            const db: any = await getDb(env);
+            const reportingCurrency = context.reportingCurrency ?? DEFAULT_CURRENCY;
+            const where = and(...buildPassengerFilters(context, await getAirports(db)));
+            
+            // Every aggregate runs over the same filtered join as GET_PASSENGERS
+            const filtered = (fields: Record<string, SQL>) =>
+              db.select(fields)
+                .from(passengersTable)
+                .leftJoin(flightsTable, eq(passengersTable.flightId, flightsTable.id))
+                .leftJoin(bookingsTable, eq(passengersTable.bookingId, bookingsTable.id));
             
-            // Get all passengers for analysis
-            const allPassengers = await db.select().from(passengersTable);
+            const price = fareIn(reportingCurrency);
+            const hasPrice = sql`${passengersTable.priceCents} IS NOT NULL`;
             
-            if (allPassengers.length === 0) {
+            const [unconvertible] = await filtered({ currency: sql`${passengersTable.currency}`, date: fareDate })
+              .where(and(where, missingRate(reportingCurrency)))
+              .limit(1);
+            if (unconvertible) throw missingRateError(unconvertible, reportingCurrency);
+            
+            const [totals] = await filtered({
+              totalPassengers: sql<number>`count(*)`,
+              pricedCount: sql<number>`count(CASE WHEN ${hasPrice} THEN 1 END)`,
+              averagePrice: sql<number | null>`avg(CASE WHEN ${hasPrice} THEN ${price} END)`,
+              minPrice: sql<number | null>`min(CASE WHEN ${hasPrice} THEN ${price} END)`,
+              maxPrice: sql<number | null>`max(CASE WHEN ${hasPrice} THEN ${price} END)`,
+              totalRevenue: sql<number | null>`sum(CASE WHEN ${hasPrice} THEN ${price} END)`,
+            }).where(where);
+            
+            const totalPassengers = Number(totals.totalPassengers);
+            if (totalPassengers === 0) {
               return {
+                reportingCurrency,
                 totalPassengers: 0,
                 byTicketClass: {},
                 byStatus: {},
                 byFlight: {},
+                byNationality: {},
                 averagePrice: 0,
+                medianPrice: 0,
+                minPrice: 0,
+                maxPrice: 0,
+                totalRevenue: 0,
                 message: "No passengers found in database",
               };
             }
             
-            // Calculate statistics
-            const byTicketClass: Record<string, number> = {};
-            const byStatus: Record<string, number> = {};
-            const byFlight: Record<string, number> = {};
-            let totalPrice = 0;
-            let validPrices = 0;
+            const countBy = async (key: SQL) => {
+              const rows = await filtered({ key, count: sql<number>`count(*)` })
+                .where(where)
+                .groupBy(key);
+              return Object.fromEntries(rows.map((row: { key: string; count: number }) => [row.key, Number(row.count)]));
+            };
             
-            for (const passenger of allPassengers) {
-              // Count by status
-              const status = passenger.status || 'unknown';
-              byStatus[status] = (byStatus[status] || 0) + 1;
-              
-              // Count by flight
-              const flight = passenger.flightNumber || 'unknown';
-              byFlight[flight] = (byFlight[flight] || 0) + 1;
-              
-              // Calculate average price
-              if (passenger.price) {
-                const price = parseFloat(passenger.price);
-                if (!isNaN(price)) {
-                  totalPrice += price;
-                  validPrices++;
-                }
-              }
-            }
+            // The middle price (or the two middle ones) of the priced passengers
+            const pricedCount = Number(totals.pricedCount);
+            const middle = pricedCount === 0 ? [] : await filtered({ price })
+              .where(and(where, hasPrice))
+              .orderBy(price)
+              .limit(pricedCount % 2 === 1 ? 1 : 2)
+              .offset(Math.floor((pricedCount - 1) / 2));
+            const medianPrice = middle.length === 0
+              ? 0
+              : middle.reduce((sum: number, row: { price: number }) => sum + Number(row.price), 0) / middle.length;
             
-            const averagePrice = validPrices > 0 ? totalPrice / validPrices : 0;
+            const round = (value: number | null) => Math.round((value ?? 0) * 100) / 100;
             
             return {
-              totalPassengers: allPassengers.length,
-              byTicketClass,
-              byStatus,
-              byFlight,
-              averagePrice: Math.round(averagePrice * 100) / 100, // Round to 2 decimal places
-              message: `Statistics calculated for ${allPassengers.length} passengers`,
+              reportingCurrency,
+              totalPassengers,
+              byTicketClass: await countBy(sql`${passengersTable.ticketClass}`),
+              byStatus: await countBy(sql`coalesce(${passengersTable.status}, 'unknown')`),
+              byFlight: await countBy(sql`coalesce(${flightsTable.flightNumber}, 'unknown')`),
+              byNationality: await countBy(sql`coalesce(nullif(trim(${passengersTable.nationality}), ''), 'unknown')`),
+              averagePrice: round(totals.averagePrice),
+              medianPrice: round(medianPrice),
+              minPrice: round(totals.minPrice),
+              maxPrice: round(totals.maxPrice),
+              totalRevenue: round(totals.totalRevenue),
+              message: `Statistics calculated for ${totalPassengers} passengers`,
             };
           } catch (error) {
             console.error('Error calculating passenger stats:', error);
@@ -813,6 +4978,39 @@ River,Roberts,river.roberts@email.com,American,1989-05-03,Maceió,Recife,2027-04
         },
       });
 
+export const createGetDataMigrationIssuesTool = (env: Env) =>
+  createTool({
+    id: "GET_DATA_MIGRATION_ISSUES",
+    description: "List values a data migration could not convert (e.g. text prices that are not amounts) and rows it had to remove (e.g. duplicate bookings), with the row they came from, so they can be fixed by hand",
+    inputSchema: z.object({
+      tableName: z.string().optional().describe("Only issues from this table, e.g. passengers"),
+      columnName: z.string().optional().describe("Only issues from this column, e.g. price"),
+    }),
+    outputSchema: z.object({
+      issues: z.array(z.object({
+        id: z.number(),
+        tableName: z.string(),
+        rowId: z.number(),
+        columnName: z.string(),
+        value: z.string().describe("The original value, as it was before the migration"),
+        reason: z.string(),
+        createdAt: z.string(),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+      const issues = await db.select()
+        .from(dataMigrationIssuesTable)
+        .where(and(
+          context.tableName ? eq(dataMigrationIssuesTable.tableName, context.tableName) : undefined,
+          context.columnName ? eq(dataMigrationIssuesTable.columnName, context.columnName) : undefined,
+        ))
+        .orderBy(asc(dataMigrationIssuesTable.id));
+
+      return { issues };
+    },
+  });
+
 export const tools = [
   createGetUserTool,
   createListTodosTool,
@@ -820,8 +5018,44 @@ export const tools = [
   createToggleTodoTool,
   createDeleteTodoTool,
   createGetPassengersTool,
+  createCreatePassengerTool,
+  createGetPassengerTool,
+  createUpdatePassengerTool,
+  createDeletePassengerTool,
+  createChangeBookingStatusTool,
+  createGetBookingStatusHistoryTool,
+  createGetBookingByLocatorTool,
+  createCancelBookingTool,
+  createSetItineraryTool,
+  createSetFlightScheduleTool,
+  createSearchAirportsTool,
+  createGetRouteInfoTool,
+  createSetExchangeRateTool,
+  createGetExchangeRatesTool,
+  createDeleteExchangeRateTool,
+  createGetFareRulesTool,
+  createSetFareRuleTool,
+  createSetFareAdjustmentTool,
+  createDeleteFareAdjustmentTool,
+  createQuoteFareTool,
+  createRecordPaymentTool,
+  createGetPaymentsTool,
+  createCancelAndRefundTool,
+  createGetRouteStatsTool,
+  createGetTimeSeriesTool,
+  createGetRevenueReconciliationTool,
+  createGetSeatMapTool,
+  createAssignSeatTool,
+  createAutoAssignSeatsTool,
+  createGetFlightLoadTool,
+  createSetFlightCapacityTool,
+  createJoinWaitlistTool,
+  createGetWaitlistTool,
+  createRemoveFromWaitlistTool,
+  createGetWaitlistHistoryTool,
   createClearDatabaseTool,
   createPopulateTestDataTool,
   createImportPassengersFromCSVTool,
   createGetPassengerStatsTool,
+  createGetDataMigrationIssuesTool,
 ];
@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [{
+    // Migrations are imported as text, as wrangler's Text rule does
+    name: "sql-as-text",
+    transform(code, id) {
+      if (id.endsWith(".sql")) {
+        return { code: `export default ${JSON.stringify(code)};`, map: null };
+      }
+    },
+  }],
+});
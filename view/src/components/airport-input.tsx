@@ -0,0 +1,39 @@
+import { useId } from 'react';
+import { useSearchAirports } from '../lib/hooks';
+
+/**
+ * Text input suggesting airports as the user types. Any city, airport
+ * code or airport name is accepted; the server resolves it to an airport.
+ */
+export function AirportInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  const listId = useId();
+  const { data } = useSearchAirports(value);
+
+  return (
+    <>
+      <input
+        type="text"
+        list={listId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder={placeholder}
+      />
+      <datalist id={listId}>
+        {data?.airports.map((airport: any) => (
+          <option key={airport.iataCode} value={airport.iataCode}>
+            {airport.city} · {airport.name}
+          </option>
+        ))}
+      </datalist>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useGetTimeSeries } from '../lib/hooks';
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 56, bottom: 28, left: 40 };
+
+/**
+ * Passengers (bars) and revenue (line) per period, following the route
+ * and status filters of the passengers page.
+ */
+export function BookingTrends({
+  filters,
+  reportingCurrency,
+}: {
+  filters: { departureCity?: string; arrivalCity?: string; status?: string };
+  reportingCurrency: string;
+}) {
+  const [granularity, setGranularity] = useState<'day' | 'week' | 'month'>('week');
+  const [dateField, setDateField] = useState<'booking' | 'departure'>('departure');
+  const { data, isLoading, isError, error } = useGetTimeSeries({
+    granularity,
+    dateField,
+    departureCity: filters.departureCity || undefined,
+    arrivalCity: filters.arrivalCity || undefined,
+    status: filters.status || undefined,
+    reportingCurrency,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          By
+          <select
+            value={dateField}
+            onChange={(e) => setDateField(e.target.value as 'booking' | 'departure')}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="departure">Departure date</option>
+            <option value="booking">Booking date</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-700">
+          Per
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as 'day' | 'week' | 'month')}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+            <option value="month">Month</option>
+          </select>
+        </label>
+        {data && (
+          <span className="ml-auto text-gray-600">
+            {data.totalPassengers} passengers · {data.reportingCurrency} {data.totalRevenue.toFixed(2)}
+          </span>
+        )}
+      </div>
+      {isLoading ? (
+        <p className="text-gray-600">Loading trends...</p>
+      ) : isError ? (
+        <p className="text-red-600">Error: {error.message}</p>
+      ) : !data || data.points.length === 0 ? (
+        <p className="text-gray-600">No bookings to chart.</p>
+      ) : (
+        <TrendChart points={data.points} currency={data.reportingCurrency} />
+      )}
+    </div>
+  );
+}
+
+function TrendChart({ points, currency }: { points: any[]; currency: string }) {
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxPassengers = Math.max(...points.map((point) => point.passengers), 1);
+  const maxRevenue = Math.max(...points.map((point) => point.revenue), 1);
+  const slot = plotWidth / points.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  // Label roughly every 8th period so the axis stays readable
+  const labelEvery = Math.ceil(points.length / 8);
+
+  const x = (index: number) => PADDING.left + slot * index + slot / 2;
+  const revenueY = (revenue: number) => PADDING.top + plotHeight * (1 - revenue / maxRevenue);
+  const revenueLine = points.map((point, index) => `${x(index)},${revenueY(point.revenue)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <line
+        x1={PADDING.left}
+        y1={PADDING.top + plotHeight}
+        x2={PADDING.left + plotWidth}
+        y2={PADDING.top + plotHeight}
+        stroke="#d1d5db"
+      />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} fontSize={10} textAnchor="end" fill="#2563eb">
+        {maxPassengers}
+      </text>
+      <text x={PADDING.left + plotWidth + 6} y={PADDING.top + 4} fontSize={10} fill="#16a34a">
+        {currency} {Math.round(maxRevenue)}
+      </text>
+      {points.map((point, index) => {
+        const height = plotHeight * point.passengers / maxPassengers;
+        return (
+          <g key={point.periodStart}>
+            <rect
+              x={x(index) - barWidth / 2}
+              y={PADDING.top + plotHeight - height}
+              width={barWidth}
+              height={height}
+              fill="#93c5fd"
+            >
+              <title>
+                {point.periodStart}: {point.passengers} passengers, {currency} {point.revenue.toFixed(2)}
+              </title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={x(index)} y={CHART_HEIGHT - 8} fontSize={10} textAnchor="middle" fill="#6b7280">
+                {point.periodStart}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <polyline points={revenueLine} fill="none" stroke="#16a34a" strokeWidth={2} />
+    </svg>
+  );
+}
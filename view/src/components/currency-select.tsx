@@ -0,0 +1,34 @@
+import { useGetExchangeRates } from '../lib/hooks';
+
+/**
+ * Reporting currency picker offering the base currency and every currency
+ * with an exchange rate, since those are the ones amounts can be
+ * converted to.
+ */
+export function CurrencySelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const { data } = useGetExchangeRates();
+  const currencies = [
+    ...new Set([data?.baseCurrency ?? 'BRL', ...(data?.rates ?? []).map((rate: any) => rate.currency), value]),
+  ];
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      Currency
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md"
+      >
+        {currencies.map((currency) => (
+          <option key={currency} value={currency}>{currency}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
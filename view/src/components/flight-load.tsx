@@ -0,0 +1,156 @@
+import { Fragment, useState } from 'react';
+import { useGetFlightLoad, useGetWaitlist, useRemoveFromWaitlist } from '../lib/hooks';
+
+const loadColor = (loadFactor: number) =>
+  loadFactor > 1 ? 'bg-red-500' : loadFactor >= 0.9 ? 'bg-orange-400' : 'bg-green-500';
+
+/**
+ * Load factor of every flight, with a bar per cabin. Bars past 100% are
+ * oversold cabins (allowed up to the flight's overbooking percentage).
+ * Flights with a waitlist can be expanded to show it.
+ */
+export function FlightLoad() {
+  const { data, isLoading, isError, error } = useGetFlightLoad();
+  const [expandedFlightId, setExpandedFlightId] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <p className="text-gray-600">Loading flight load...</p>;
+  }
+  if (isError) {
+    return <p className="text-red-600">Error: {error.message}</p>;
+  }
+  if (!data || data.flights.length === 0) {
+    return <p className="text-gray-600">No flights yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Flight
+            </th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Aircraft
+            </th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Load
+            </th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Cabins
+            </th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Waitlist
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {data.flights.map((flight: any) => (
+            <Fragment key={flight.flightId}>
+              <tr>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {flight.flightNumber}
+                  <span className="ml-2 text-gray-500">{flight.departureDate}</span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {flight.aircraft}
+                  {flight.overbookingPercent > 0 && ` · +${flight.overbookingPercent}%`}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-semibold text-gray-900">
+                  {Math.round(flight.loadFactor * 100)}%
+                  <span className="ml-1 font-normal text-gray-500">({flight.booked}/{flight.capacity})</span>
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="space-y-1 min-w-48">
+                    {flight.cabins.map((cabin: any) => (
+                      <div
+                        key={cabin.cabin}
+                        className="flex items-center gap-2"
+                        title={`${cabin.booked} booked, ${cabin.capacity} seats, limit ${cabin.limit}`}
+                      >
+                        <span className="w-16 text-xs text-gray-600 capitalize">{cabin.cabin}</span>
+                        <div className="flex-1 h-2 rounded bg-gray-100">
+                          <div
+                            className={`h-2 rounded ${loadColor(cabin.loadFactor)}`}
+                            style={{ width: `${Math.min(cabin.loadFactor, 1) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-10 text-right text-xs text-gray-600">
+                          {Math.round(cabin.loadFactor * 100)}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  {flight.waitlisted > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExpandedFlightId(expandedFlightId === flight.flightId ? null : flight.flightId)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {flight.waitlisted} waiting
+                    </button>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+              </tr>
+              {expandedFlightId === flight.flightId && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                    <Waitlist flightId={flight.flightId} />
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Passengers waiting for a seat on a flight, in the order they will be
+ * booked when seats free up.
+ */
+function Waitlist({ flightId }: { flightId: number }) {
+  const { data, isLoading, isError, error } = useGetWaitlist(flightId);
+  const removeFromWaitlist = useRemoveFromWaitlist();
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading waitlist...</p>;
+  }
+  if (isError) {
+    return <p className="text-sm text-red-600">Error: {error.message}</p>;
+  }
+  if (!data || data.entries.length === 0) {
+    return <p className="text-sm text-gray-600">Nobody is waiting.</p>;
+  }
+
+  return (
+    <ol className="space-y-1 text-sm">
+      {data.entries.map((entry: any) => (
+        <li key={entry.id} className="flex items-center gap-3">
+          <span className="w-20 text-gray-500 capitalize">{entry.cabin} #{entry.position}</span>
+          <span className="text-gray-900">{entry.firstName} {entry.lastName}</span>
+          <span className="text-gray-500">{entry.email}</span>
+          {entry.priority > 0 && (
+            <span className="text-xs text-purple-700">priority {entry.priority}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => removeFromWaitlist.mutate({ id: entry.id })}
+            disabled={removeFromWaitlist.isPending}
+            className="ml-auto text-red-600 hover:underline disabled:opacity-50"
+          >
+            Remove
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
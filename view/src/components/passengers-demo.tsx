@@ -5,23 +5,58 @@ import {
   useGetPassengerStats,
   useImportPassengersFromCSV 
 } from '../lib/hooks';
+import { PassengersTable } from './passengers-table';
+import { FlightLoad } from './flight-load';
+import { AirportInput } from './airport-input';
+import { BookingTrends } from './booking-trends';
+import { CurrencySelect } from './currency-select';
 
 export function PassengersDemo() {
   const [csvContent, setCsvContent] = useState('');
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const [importMode, setImportMode] = useState<'insert' | 'upsert' | 'skipDuplicates'>('insert');
+  const [waitlistOverCapacity, setWaitlistOverCapacity] = useState(false);
+  const [reportingCurrency, setReportingCurrency] = useState('BRL');
   const [filters, setFilters] = useState({
     flightNumber: '',
     departureCity: '',
     arrivalCity: '',
     ticketClass: '',
     status: '',
+    recordLocator: '',
+    finalDestination: '',
+    connectionAirport: '',
+    sortBy: 'id',
+    sortDirection: 'asc' as 'asc' | 'desc',
     limit: 0
   });
 
   const populateTestData = usePopulateTestData();
-  const { data: passengersData, isLoading: passengersLoading } = useGetPassengers(filters);
-  const { data: statsData, isLoading: statsLoading } = useGetPassengerStats();
+  const {
+    data: passengersData,
+    isLoading: passengersLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useGetPassengers({
+    ...filters,
+    // The server only accepts known values, so "All ..." options send no filter
+    ticketClass: filters.ticketClass || undefined,
+    status: filters.status || undefined,
+  });
+  const { sortBy: _sortBy, sortDirection: _sortDirection, limit: _limit, ...statsFilters } = filters;
+  // Statistics describe the same passengers as the filtered list
+  const { data: statsData, isLoading: statsLoading, isError: statsIsError, error: statsError } = useGetPassengerStats({
+    ...statsFilters,
+    ticketClass: filters.ticketClass || undefined,
+    status: filters.status || undefined,
+    reportingCurrency,
+  });
   const importCSV = useImportPassengersFromCSV();
 
+  const passengers = passengersData?.pages.flatMap((page: any) => page.passengers) ?? [];
+  const totalCount = passengersData?.pages[0]?.totalCount ?? 0;
+
   const handleFilterChange = (field: string, value: string | number) => {
     setFilters(prev => ({
       ...prev,
@@ -33,10 +68,22 @@ export function PassengersDemo() {
     populateTestData.mutate();
   };
 
-  const handleImportCSV = () => {
+  const handleImportCSV = (dryRun: boolean) => {
     if (csvContent.trim()) {
-      importCSV.mutate(csvContent);
-      setCsvContent('');
+      importCSV.mutate({
+        csvContent,
+        dryRun,
+        onError: skipInvalidRows ? 'skip' : 'abort',
+        mode: importMode,
+        overCapacity: waitlistOverCapacity ? 'waitlist' : 'reject',
+      }, {
+        onSuccess: (data: any) => {
+          // Keep the file around after a dry run or a rejected import so it can be fixed
+          if (!dryRun && data.success) {
+            setCsvContent('');
+          }
+        },
+      });
     }
   };
 
@@ -47,6 +94,11 @@ export function PassengersDemo() {
       arrivalCity: '',
       ticketClass: '',
       status: '',
+      recordLocator: '',
+      finalDestination: '',
+      connectionAirport: '',
+      sortBy: 'id',
+      sortDirection: 'asc',
       limit: 0
     });
   };
@@ -94,26 +146,54 @@ export function PassengersDemo() {
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Departure City
+              Record Locator
             </label>
             <input
               type="text"
+              value={filters.recordLocator}
+              onChange={(e) => handleFilterChange('recordLocator', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
+              placeholder="e.g., K7XQ2M"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Departure City
+            </label>
+            <AirportInput
               value={filters.departureCity}
-              onChange={(e) => handleFilterChange('departureCity', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="e.g., São Paulo"
+              onChange={(value) => handleFilterChange('departureCity', value)}
+              placeholder="e.g., São Paulo or GRU"
             />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Arrival City
             </label>
-            <input
-              type="text"
+            <AirportInput
               value={filters.arrivalCity}
-              onChange={(e) => handleFilterChange('arrivalCity', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="e.g., Los Angeles"
+              onChange={(value) => handleFilterChange('arrivalCity', value)}
+              placeholder="e.g., Rio de Janeiro or GIG"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Final Destination
+            </label>
+            <AirportInput
+              value={filters.finalDestination}
+              onChange={(value) => handleFilterChange('finalDestination', value)}
+              placeholder="Last stop of the itinerary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Connecting Through
+            </label>
+            <AirportInput
+              value={filters.connectionAirport}
+              onChange={(value) => handleFilterChange('connectionAirport', value)}
+              placeholder="e.g., Lima"
             />
           </div>
           <div>
@@ -127,6 +207,7 @@ export function PassengersDemo() {
             >
               <option value="">All Classes</option>
               <option value="economy">Economy</option>
+              <option value="premium">Premium</option>
               <option value="business">Business</option>
               <option value="first">First</option>
             </select>
@@ -141,21 +222,60 @@ export function PassengersDemo() {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               <option value="">All Statuses</option>
-              <option value="confirmed">Confirmed</option>
               <option value="pending">Pending</option>
+              <option value="confirmed">Confirmed</option>
+              <option value="checked-in">Checked In</option>
+              <option value="boarded">Boarded</option>
+              <option value="flown">Flown</option>
               <option value="cancelled">Cancelled</option>
+              <option value="no-show">No Show</option>
+              <option value="refunded">Refunded</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sort By
+            </label>
+            <select
+              value={filters.sortBy}
+              onChange={(e) => handleFilterChange('sortBy', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="id">ID</option>
+              <option value="lastName">Last Name</option>
+              <option value="firstName">First Name</option>
+              <option value="email">Email</option>
+              <option value="flightNumber">Flight Number</option>
+              <option value="departureDate">Departure Date</option>
+              <option value="price">Price</option>
+              <option value="status">Status</option>
+              <option value="ticketClass">Ticket Class</option>
+              <option value="createdAt">Created At</option>
             </select>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Limit Results
+              Sort Direction
+            </label>
+            <select
+              value={filters.sortDirection}
+              onChange={(e) => handleFilterChange('sortDirection', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Page Size
             </label>
             <input
               type="number"
               value={filters.limit || ''}
               onChange={(e) => handleFilterChange('limit', parseInt(e.target.value) || 0)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="0 = no limit"
+              placeholder="0 = default (100)"
               min="0"
             />
           </div>
@@ -178,68 +298,22 @@ export function PassengersDemo() {
         ) : passengersData ? (
           <div>
             <p className="text-gray-600 mb-4">
-              {passengersData.message} (Showing {passengersData.totalCount} passengers)
+              Showing {passengers.length} of {totalCount} passengers. Click a name, email, seat or status to edit it.
             </p>
             <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Name
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Email
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Flight
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Route
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Class
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Status
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {passengersData.passengers.map((passenger) => (
-                    <tr key={passenger.id}>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">
-                          {passenger.firstName} {passenger.lastName}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {passenger.email}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {passenger.flightNumber}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {passenger.departureCity} → {passenger.arrivalCity}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {passenger.ticketClass || 'N/A'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          passenger.status === 'confirmed' 
-                            ? 'bg-green-100 text-green-800'
-                            : passenger.status === 'pending'
-                            ? 'bg-yellow-100 text-yellow-800'
-                            : 'bg-red-100 text-red-800'
-                        }`}>
-                          {passenger.status || 'N/A'}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+              <PassengersTable passengers={passengers} />
             </div>
+            {hasNextPage && (
+              <div className="mt-4">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isFetchingNextPage ? 'Loading...' : 'Load More'}
+                </button>
+              </div>
+            )}
           </div>
         ) : (
           <p className="text-gray-600">No passengers data available. Try populating test data first.</p>
@@ -248,9 +322,14 @@ export function PassengersDemo() {
 
       {/* Statistics Section */}
       <div className="bg-white p-6 rounded-lg shadow-md">
-        <h2 className="text-xl font-semibold mb-4">4. Passenger Statistics</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">4. Passenger Statistics</h2>
+          <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} />
+        </div>
         {statsLoading ? (
           <p className="text-gray-600">Loading statistics...</p>
+        ) : statsIsError ? (
+          <p className="text-red-600">Error: {statsError.message}</p>
         ) : statsData ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="bg-blue-50 p-4 rounded-lg">
@@ -259,7 +338,28 @@ export function PassengersDemo() {
             </div>
             <div className="bg-green-50 p-4 rounded-lg">
               <h3 className="text-lg font-semibold text-green-900">Average Price</h3>
-              <p className="text-3xl font-bold text-green-600">R$ {statsData.averagePrice}</p>
+              <p className="text-3xl font-bold text-green-600">{statsData.reportingCurrency} {statsData.averagePrice}</p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg">
+              <h3 className="text-lg font-semibold text-green-900">Total Revenue</h3>
+              <p className="text-3xl font-bold text-green-600">{statsData.reportingCurrency} {statsData.totalRevenue.toFixed(2)}</p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg">
+              <h3 className="text-lg font-semibold text-green-900">Fares</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-sm text-green-700">Median:</span>
+                  <span className="font-semibold text-green-900">{statsData.reportingCurrency} {statsData.medianPrice}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-green-700">Min:</span>
+                  <span className="font-semibold text-green-900">{statsData.reportingCurrency} {statsData.minPrice}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-green-700">Max:</span>
+                  <span className="font-semibold text-green-900">{statsData.reportingCurrency} {statsData.maxPrice}</span>
+                </div>
+              </div>
             </div>
             <div className="bg-purple-50 p-4 rounded-lg">
               <h3 className="text-lg font-semibold text-purple-900">By Ticket Class</h3>
@@ -283,10 +383,25 @@ export function PassengersDemo() {
                 ))}
               </div>
             </div>
+            <div className="bg-teal-50 p-4 rounded-lg">
+              <h3 className="text-lg font-semibold text-teal-900">By Nationality</h3>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {Object.entries(statsData.byNationality).map(([nationality, count]) => (
+                  <div key={nationality} className="flex justify-between">
+                    <span className="text-sm text-teal-700 capitalize">{nationality}:</span>
+                    <span className="font-semibold text-teal-900">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         ) : (
           <p className="text-gray-600">No statistics available. Try populating test data first.</p>
         )}
+        <h3 className="text-lg font-semibold mt-6 mb-2">Flight Load</h3>
+        <FlightLoad />
+        <h3 className="text-lg font-semibold mt-6 mb-2">Bookings Over Time</h3>
+        <BookingTrends filters={filters} reportingCurrency={reportingCurrency} />
       </div>
 
       {/* CSV Import Section */}
@@ -301,17 +416,52 @@ export function PassengersDemo() {
           className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
           placeholder="firstName,lastName,email,flightNumber,departureCity,arrivalCity,departureDate,ticketClass,price,status&#10;João,Silva,joao@email.com,BR123,São Paulo,Rio de Janeiro,2024-02-01,economy,1500.00,confirmed"
         />
-        <div className="mt-4">
+        <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={skipInvalidRows}
+            onChange={(e) => setSkipInvalidRows(e.target.checked)}
+          />
+          Skip rows with errors instead of rejecting the whole file
+        </label>
+        <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          Passengers already booked on the same flight (same email):
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as typeof importMode)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="insert">Report as errors</option>
+            <option value="upsert">Update existing</option>
+            <option value="skipDuplicates">Skip</option>
+          </select>
+        </label>
+        <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={waitlistOverCapacity}
+            onChange={(e) => setWaitlistOverCapacity(e.target.checked)}
+          />
+          Waitlist bookings for full cabins instead of reporting them as errors
+        </label>
+        <div className="mt-4 flex gap-2">
           <button
-            onClick={handleImportCSV}
+            onClick={() => handleImportCSV(true)}
+            disabled={!csvContent.trim() || importCSV.isPending}
+            className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 disabled:opacity-50"
+          >
+            {importCSV.isPending && importCSV.variables?.dryRun ? 'Validating...' : 'Validate (Dry Run)'}
+          </button>
+          <button
+            onClick={() => handleImportCSV(false)}
             disabled={!csvContent.trim() || importCSV.isPending}
             className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50"
           >
-            {importCSV.isPending ? 'Importing...' : 'Import CSV'}
+            {importCSV.isPending && !importCSV.variables?.dryRun ? 'Importing...' : 'Import CSV'}
           </button>
         </div>
         {importCSV.isSuccess && (
-          <p className="text-green-600 mt-2">{importCSV.data?.message}</p>
+          <ImportReport report={importCSV.data} />
         )}
         {importCSV.isError && (
           <p className="text-red-600 mt-2">Error: {importCSV.error?.message}</p>
@@ -320,3 +470,78 @@ export function PassengersDemo() {
     </div>
   );
 }
+
+function ImportReport({ report }: { report: any }) {
+  return (
+    <div className="mt-4 space-y-2">
+      <p className={report.success ? 'text-green-600' : 'text-red-600'}>{report.message}</p>
+      {report.totalRows > 0 && (
+        <p className="text-sm text-gray-600">
+          {report.validRows} of {report.totalRows} rows valid
+          {` · ${report.createdCount} ${report.dryRun ? 'to create' : 'created'}, ${report.updatedCount} ${report.dryRun ? 'to update' : 'updated'}, ${report.skippedCount} skipped`}
+          {report.waitlistedCount > 0 && `, ${report.waitlistedCount} ${report.dryRun ? 'to waitlist' : 'waitlisted'}`}
+          {!report.dryRun && ` in ${report.durationMs}ms`}
+          {report.errorCount > report.errors.length &&
+            ` (showing the first ${report.errors.length} of ${report.errorCount} errors)`}
+        </p>
+      )}
+      {report.missingColumns.length > 0 && (
+        <p className="text-sm text-red-600">
+          Missing columns: {report.missingColumns.join(', ')}
+        </p>
+      )}
+      {report.unknownColumns.length > 0 && (
+        <p className="text-sm text-yellow-700">
+          Ignored columns: {report.unknownColumns.join(', ')}
+        </p>
+      )}
+      {report.distanceWarnings?.length > 0 && (
+        <details className="text-sm text-yellow-700">
+          <summary>{report.distanceWarnings.length} rows with a distance far from the computed one</summary>
+          <ul className="mt-1 ml-4 list-disc">
+            {report.distanceWarnings.map((warning: any) => (
+              <li key={warning.line}>
+                Line {warning.line} ({warning.route}): {warning.supplied} km given, {warning.computed} km computed
+                ({warning.deviationPercent}% off)
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {report.errors.length > 0 && (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto border border-gray-200 rounded">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Line
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Field
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.errors.map((error: any, index: number) => (
+                <tr key={`${error.line}-${error.field}-${index}`}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{error.line}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{error.field}</td>
+                  <td className="px-4 py-2 text-sm text-red-700">{error.reason}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 font-mono">
+                    {error.value ?? '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MoreVertical } from 'lucide-react';
+import {
+  useCancelAndRefund,
+  useCancelBooking,
+  useChangeBookingStatus,
+  useCreatePassenger,
+  useDeletePassenger,
+  useGetBookingStatusHistory,
+  useUpdatePassenger,
+} from '../lib/hooks';
+import { SeatMap } from './seat-map';
+
+const STATUS_COLORS: Record<string, string> = {
+  'pending': 'bg-yellow-100 text-yellow-800',
+  'confirmed': 'bg-green-100 text-green-800',
+  'checked-in': 'bg-blue-100 text-blue-800',
+  'boarded': 'bg-indigo-100 text-indigo-800',
+  'flown': 'bg-gray-100 text-gray-800',
+  'cancelled': 'bg-red-100 text-red-800',
+  'no-show': 'bg-orange-100 text-orange-800',
+  'refunded': 'bg-purple-100 text-purple-800',
+};
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function PassengersTable({ passengers }: { passengers: any[] }) {
+  const updatePassenger = useUpdatePassenger();
+  const deletePassenger = useDeletePassenger();
+  const createPassenger = useCreatePassenger();
+  const changeStatus = useChangeBookingStatus();
+  const cancelBooking = useCancelBooking();
+  const cancelAndRefund = useCancelAndRefund();
+  // Passenger whose detail panel (status history or seat map) is open
+  const [expanded, setExpanded] = useState<{ id: number; panel: 'history' | 'seat' } | null>(null);
+  // Copy of a passenger waiting for a new email before it can be created
+  const [draft, setDraft] = useState<any | null>(null);
+
+  const save = (passenger: any, field: string, value: string) => {
+    updatePassenger.mutate({ id: passenger.id, [field]: value === '' ? null : value });
+  };
+
+  const handleStatusChange = (passenger: any, status: string) => {
+    changeStatus.mutate({ passengerId: passenger.id, status });
+  };
+
+  const togglePanel = (passenger: any, panel: 'history' | 'seat') => {
+    const isOpen = expanded !== null && expanded.id === passenger.id && expanded.panel === panel;
+    setExpanded(isOpen ? null : { id: passenger.id, panel });
+  };
+
+  const handleCancelBooking = (passenger: any) => {
+    if (confirm(`Cancel every passenger on booking ${passenger.recordLocator}?`)) {
+      cancelBooking.mutate({ recordLocator: passenger.recordLocator });
+    }
+  };
+
+  const handleCancelAndRefund = (passenger: any) => {
+    if (confirm(`Cancel ${passenger.firstName} ${passenger.lastName} and refund what they paid, minus the cancellation fee?`)) {
+      cancelAndRefund.mutate({ passengerId: passenger.id });
+    }
+  };
+
+  const handleDelete = (passenger: any) => {
+    if (confirm(`Delete ${passenger.firstName} ${passenger.lastName}?`)) {
+      deletePassenger.mutate(passenger.id);
+    }
+  };
+
+  const handleDuplicate = (passenger: any) => {
+    // The same email cannot be booked twice on a flight, so it starts empty,
+    // and the copy joins the original's booking as a new confirmed passenger
+    setDraft({ ...passenger, email: '', status: 'confirmed' });
+  };
+
+  const handleCreateDraft = () => {
+    createPassenger.mutate({
+      firstName: draft.firstName,
+      lastName: draft.lastName,
+      email: draft.email,
+      phone: draft.phone || null,
+      nationality: draft.nationality || null,
+      dateOfBirth: draft.dateOfBirth || null,
+      flightId: draft.flightId ?? undefined,
+      ticketClass: draft.ticketClass,
+      price: draft.price,
+      currency: draft.currency,
+      status: draft.status,
+      recordLocator: draft.recordLocator ?? undefined,
+    }, {
+      onSuccess: () => setDraft(null),
+    });
+  };
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className={headerClass}>Name</th>
+          <th className={headerClass}>Email</th>
+          <th className={headerClass}>Flight</th>
+          <th className={headerClass}>Route</th>
+          <th className={headerClass}>Class</th>
+          <th className={headerClass}>Seat</th>
+          <th className={headerClass}>Status</th>
+          <th className={headerClass}><span className="sr-only">Actions</span></th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {draft && (
+          <tr className="bg-blue-50">
+            <td className="px-6 py-4 whitespace-nowrap">
+              <div className="flex gap-1">
+                <input
+                  value={draft.firstName}
+                  onChange={(e) => setDraft({ ...draft, firstName: e.target.value })}
+                  className={inputClass}
+                  placeholder="First name"
+                />
+                <input
+                  value={draft.lastName}
+                  onChange={(e) => setDraft({ ...draft, lastName: e.target.value })}
+                  className={inputClass}
+                  placeholder="Last name"
+                />
+              </div>
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap">
+              <input
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                className={inputClass}
+                placeholder="New email"
+                autoFocus
+              />
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+              {draft.flightNumber}
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+              {draft.departureCity} → {draft.arrivalCity}
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+              {draft.ticketClass}
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">—</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+              {draft.status}
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm">
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreateDraft}
+                  disabled={!draft.email.trim() || createPassenger.isPending}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {createPassenger.isPending ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Discard
+                </button>
+              </div>
+            </td>
+          </tr>
+        )}
+        {passengers.map((passenger: any) => (
+          <React.Fragment key={passenger.id}>
+            <tr>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <div className="flex gap-1 text-sm font-medium text-gray-900">
+                  <EditableCell
+                    value={passenger.firstName}
+                    onSave={(value) => save(passenger, 'firstName', value)}
+                  />
+                  <EditableCell
+                    value={passenger.lastName}
+                    onSave={(value) => save(passenger, 'lastName', value)}
+                  />
+                </div>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <EditableCell
+                  value={passenger.email}
+                  type="email"
+                  onSave={(value) => save(passenger, 'email', value)}
+                />
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {passenger.flightNumber}
+                {passenger.recordLocator && (
+                  <div className="font-mono text-xs text-gray-400" title="Record locator">
+                    {passenger.recordLocator}
+                  </div>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {passenger.departureCity} → {passenger.arrivalCity}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {passenger.ticketClass || 'N/A'}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <button
+                  type="button"
+                  onClick={() => togglePanel(passenger, 'seat')}
+                  disabled={!passenger.flightId}
+                  className="rounded px-1 -mx-1 hover:bg-gray-100 disabled:hover:bg-transparent"
+                  title="Choose seat"
+                >
+                  {passenger.seat || <span className="text-gray-400">Assign</span>}
+                </button>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                {passenger.nextStatuses?.length > 0 ? (
+                  <EditableCell
+                    value={passenger.status}
+                    // The current status comes first so the select opens on it
+                    options={[passenger.status, ...passenger.nextStatuses]}
+                    onSave={(value) => handleStatusChange(passenger, value)}
+                  >
+                    <StatusBadge status={passenger.status} />
+                  </EditableCell>
+                ) : (
+                  <StatusBadge status={passenger.status} />
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right">
+                <RowActions
+                  actions={[
+                    {
+                      label: 'Cancel booking',
+                      disabled: !passenger.nextStatuses?.includes('cancelled'),
+                      onSelect: () => handleStatusChange(passenger, 'cancelled'),
+                    },
+                    {
+                      label: 'Cancel and refund',
+                      disabled: !['cancelled', 'no-show'].includes(passenger.status) && !passenger.nextStatuses?.includes('cancelled'),
+                      onSelect: () => handleCancelAndRefund(passenger),
+                    },
+                    {
+                      label: 'Cancel whole booking',
+                      disabled: !passenger.recordLocator,
+                      onSelect: () => handleCancelBooking(passenger),
+                    },
+                    {
+                      label: 'Choose seat',
+                      disabled: !passenger.flightId,
+                      onSelect: () => togglePanel(passenger, 'seat'),
+                    },
+                    { label: 'Status history', onSelect: () => togglePanel(passenger, 'history') },
+                    { label: 'Duplicate', onSelect: () => handleDuplicate(passenger) },
+                    { label: 'Delete', destructive: true, onSelect: () => handleDelete(passenger) },
+                  ]}
+                />
+              </td>
+            </tr>
+            {expanded !== null && expanded.id === passenger.id && (
+              <tr className="bg-gray-50">
+                <td colSpan={8} className="px-6 py-3">
+                  {expanded.panel === 'history'
+                    ? <StatusHistory passengerId={passenger.id} />
+                    : <SeatMap passenger={passenger} />}
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+      STATUS_COLORS[status ?? ''] ?? 'bg-gray-100 text-gray-800'
+    }`}>
+      {status || 'N/A'}
+    </span>
+  );
+}
+
+function StatusHistory({ passengerId }: { passengerId: number }) {
+  const { data, isLoading, isError, error } = useGetBookingStatusHistory(passengerId);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading history...</p>;
+  }
+  if (isError) {
+    return <p className="text-sm text-red-600">Error: {error.message}</p>;
+  }
+  if (!data?.history.length) {
+    return <p className="text-sm text-gray-600">No status changes yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-1 text-sm text-gray-700">
+      {data.history.map((change: any) => (
+        <li key={change.id} className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-500">{change.changedAt}</span>
+          <StatusBadge status={change.fromStatus} />
+          <span>→</span>
+          <StatusBadge status={change.toStatus} />
+          <span className="text-gray-500">by {change.changedBy}</span>
+          {change.reason && <span className="italic text-gray-500">({change.reason})</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Shows a value that turns into an input (or a select, when `options` are
+ * given) on click. Enter or leaving the field saves, Escape cancels.
+ */
+function EditableCell({
+  value,
+  onSave,
+  type = 'text',
+  options,
+  placeholder,
+  children,
+}: {
+  value: string;
+  onSave: (value: string) => void;
+  type?: string;
+  options?: string[];
+  placeholder?: string;
+  children?: React.ReactNode;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  const startEditing = () => {
+    setDraft(value);
+    setEditing(true);
+  };
+
+  const commit = (next: string) => {
+    setEditing(false);
+    const trimmed = next.trim();
+    if (trimmed !== value && trimmed !== '') {
+      onSave(trimmed);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={startEditing}
+        className="text-left rounded px-1 -mx-1 hover:bg-gray-100 cursor-text"
+        title="Click to edit"
+      >
+        {children ?? (value || <span className="text-gray-400">{placeholder ?? '—'}</span>)}
+      </button>
+    );
+  }
+
+  if (options) {
+    return (
+      <select
+        value={draft}
+        onChange={(e) => commit(e.target.value)}
+        onBlur={() => setEditing(false)}
+        onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+        className={inputClass}
+        autoFocus
+      >
+        {options.map((option) => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => commit(draft)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit(draft);
+        if (e.key === 'Escape') setEditing(false);
+      }}
+      className={inputClass}
+      placeholder={placeholder}
+      autoFocus
+    />
+  );
+}
+
+/**
+ * Kebab button opening a small menu of row actions; closes on selection
+ * or on any click outside it.
+ */
+function RowActions({
+  actions,
+}: {
+  actions: { label: string; onSelect: () => void; disabled?: boolean; destructive?: boolean }[];
+}) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative inline-block text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+        aria-label="Row actions"
+      >
+        <MoreVertical className="h-4 w-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-40 rounded-md bg-white shadow-lg ring-1 ring-black/5">
+          {actions.map((action) => (
+            <button
+              key={action.label}
+              type="button"
+              disabled={action.disabled}
+              onClick={() => {
+                setOpen(false);
+                action.onSelect();
+              }}
+              className={`block w-full px-4 py-2 text-left text-sm hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-white ${
+                action.destructive ? 'text-red-600' : 'text-gray-700'
+              }`}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
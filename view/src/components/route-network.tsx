@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { useGetRouteStats } from '../lib/hooks';
+import { CurrencySelect } from './currency-select';
+
+type SortKey =
+  | 'route'
+  | 'flights'
+  | 'passengers'
+  | 'revenue'
+  | 'averageFare'
+  | 'distanceKm'
+  | 'revenuePerKm'
+  | 'loadFactor';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'route', label: 'Route' },
+  { key: 'flights', label: 'Flights' },
+  { key: 'passengers', label: 'Passengers' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'averageFare', label: 'Avg Fare' },
+  { key: 'distanceKm', label: 'Distance' },
+  { key: 'revenuePerKm', label: 'Revenue / km' },
+  { key: 'loadFactor', label: 'Load' },
+];
+
+const sortValue = (route: any, key: SortKey) =>
+  key === 'route' ? `${route.origin}-${route.destination}` : route[key] ?? -1;
+
+/**
+ * Route analytics: a network map of the airports served and a sortable
+ * table of every origin–destination pair, for flights departing in the
+ * chosen date range.
+ */
+export function RouteNetwork() {
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [reportingCurrency, setReportingCurrency] = useState('BRL');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({
+    key: 'revenue',
+    direction: 'desc',
+  });
+  const { data, isLoading, isError, error } = useGetRouteStats({
+    from: range.from || undefined,
+    to: range.to || undefined,
+    reportingCurrency,
+  });
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => ({
+      key,
+      direction: current.key === key && current.direction === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  const routes = [...(data?.routes ?? [])].sort((a: any, b: any) => {
+    const left = sortValue(a, sort.key);
+    const right = sortValue(b, sort.key);
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return sort.direction === 'asc' ? order : -order;
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900">Route Network</h1>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Departing From
+            </label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Departing Until
+            </label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={() => setRange({ from: '', to: '' })}
+            className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600"
+          >
+            All Dates
+          </button>
+          <div className="ml-auto">
+            <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} />
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-600">Loading routes...</p>
+      ) : isError ? (
+        <p className="text-red-600">Error: {error.message}</p>
+      ) : routes.length === 0 ? (
+        <p className="text-gray-600">No flights in this period.</p>
+      ) : (
+        <>
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">Network</h2>
+            <NetworkMap airports={data.airports} routes={routes} />
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">Routes ({routes.length})</h2>
+            <div className="overflow-x-auto border border-gray-200 rounded">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {COLUMNS.map((column) => (
+                      <th
+                        key={column.key}
+                        onClick={() => handleSort(column.key)}
+                        className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700"
+                      >
+                        {column.label}
+                        {sort.key === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {routes.map((route: any) => (
+                    <tr key={`${route.origin}-${route.destination}`}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {route.origin} → {route.destination}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{route.flights}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{route.passengers}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {data.reportingCurrency} {route.revenue.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {data.reportingCurrency} {route.averageFare.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {route.distanceKm !== null ? `${route.distanceKm} km` : '—'}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {route.revenuePerKm !== null ? `${data.reportingCurrency} ${route.revenuePerKm.toFixed(2)}` : '—'}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {Math.round(route.loadFactor * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 500;
+const MAP_PADDING = 40;
+
+/**
+ * Airports placed by longitude and latitude (an equirectangular
+ * projection fitted to the airports shown), with a line per route whose
+ * width grows with its passengers.
+ */
+function NetworkMap({ airports, routes }: { airports: any[]; routes: any[] }) {
+  if (airports.length === 0) {
+    return <p className="text-gray-600">No known airports to draw.</p>;
+  }
+
+  const longitudes = airports.map((airport) => airport.longitude);
+  const latitudes = airports.map((airport) => airport.latitude);
+  const [minLon, maxLon] = [Math.min(...longitudes), Math.max(...longitudes)];
+  const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+  // Same scale on both axes so the map is not stretched
+  const scale = Math.min(
+    (MAP_WIDTH - 2 * MAP_PADDING) / Math.max(maxLon - minLon, 1),
+    (MAP_HEIGHT - 2 * MAP_PADDING) / Math.max(maxLat - minLat, 1),
+  );
+  const position = (airport: any) => ({
+    x: MAP_PADDING + (airport.longitude - minLon) * scale,
+    y: MAP_PADDING + (maxLat - airport.latitude) * scale,
+  });
+  const byCode = new Map(airports.map((airport) => [airport.iataCode, position(airport)]));
+  const maxPassengers = Math.max(...routes.map((route) => route.passengers), 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+      className="w-full h-auto border border-gray-200 rounded bg-slate-50"
+    >
+      {routes.map((route) => {
+        const from = byCode.get(route.origin);
+        const to = byCode.get(route.destination);
+        if (!from || !to) return null;
+        return (
+          <line
+            key={`${route.origin}-${route.destination}`}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke="#2563eb"
+            strokeOpacity={0.5}
+            strokeWidth={1 + 5 * route.passengers / maxPassengers}
+          >
+            <title>
+              {route.origin} → {route.destination}: {route.passengers} passengers
+            </title>
+          </line>
+        );
+      })}
+      {airports.map((airport) => {
+        const { x, y } = byCode.get(airport.iataCode)!;
+        return (
+          <g key={airport.iataCode}>
+            <circle cx={x} cy={y} r={5} fill="#1e3a8a">
+              <title>{airport.name}, {airport.city}</title>
+            </circle>
+            <text x={x + 8} y={y + 4} fontSize={12} fill="#1f2937">
+              {airport.iataCode}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
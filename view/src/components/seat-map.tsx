@@ -0,0 +1,112 @@
+import { useAssignSeat, useAutoAssignSeats, useGetSeatMap } from '../lib/hooks';
+
+const CABIN_COLORS: Record<string, string> = {
+  first: 'border-amber-400',
+  business: 'border-purple-400',
+  premium: 'border-blue-400',
+  economy: 'border-gray-300',
+};
+
+/**
+ * Seat map of a flight. Clicking a free seat in the passenger's cabin
+ * assigns it; clicking the passenger's own seat releases it.
+ */
+export function SeatMap({ passenger }: { passenger: any }) {
+  const { data, isLoading, isError, error } = useGetSeatMap(passenger.flightId);
+  const assignSeat = useAssignSeat();
+  const autoAssignSeats = useAutoAssignSeats();
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading seat map...</p>;
+  }
+  if (isError) {
+    return <p className="text-sm text-red-600">Error: {error.message}</p>;
+  }
+  if (!data) return null;
+
+  const handleClick = (seat: any) => {
+    if (seat.passengerId === passenger.id) {
+      assignSeat.mutate({ passengerId: passenger.id, seat: null });
+    } else {
+      assignSeat.mutate({ passengerId: passenger.id, seat: seat.seat });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <span className="font-medium text-gray-900">
+          {data.flightNumber} · {data.aircraft}
+        </span>
+        <span>{data.availableSeats} of {data.totalSeats} seats free</span>
+        <button
+          onClick={() => autoAssignSeats.mutate(passenger.flightId)}
+          disabled={autoAssignSeats.isPending}
+          className="ml-auto bg-gray-500 text-white px-3 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          {autoAssignSeats.isPending ? 'Assigning...' : 'Auto-assign unseated passengers'}
+        </button>
+      </div>
+      <div className="inline-block max-h-96 overflow-y-auto rounded border border-gray-200 bg-white p-3">
+        {data.rows.map((row: any) => (
+          <div key={row.row} className="flex items-center gap-1 mb-1">
+            <span className="w-6 text-right text-xs text-gray-400 mr-1">{row.row}</span>
+            {row.seats.map((seat: any, index: number) =>
+              seat === null ? (
+                <span key={`aisle-${index}`} className="w-4" />
+              ) : (
+                <SeatButton
+                  key={seat.seat}
+                  seat={seat}
+                  isMine={seat.passengerId === passenger.id}
+                  // Only free seats in the passenger's own cabin can be picked
+                  selectable={!seat.blocked && seat.cabin === passenger.ticketClass &&
+                    (seat.passengerId === null || seat.passengerId === passenger.id)}
+                  onClick={() => handleClick(seat)}
+                />
+              )
+            )}
+            <span className="ml-2 text-xs text-gray-400 capitalize">{row.cabin}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Green is {passenger.firstName}'s seat; gray seats are taken and crossed seats are blocked.
+      </p>
+    </div>
+  );
+}
+
+function SeatButton({
+  seat,
+  isMine,
+  selectable,
+  onClick,
+}: {
+  seat: any;
+  isMine: boolean;
+  selectable: boolean;
+  onClick: () => void;
+}) {
+  const state = isMine
+    ? 'bg-green-500 text-white'
+    : seat.blocked
+    ? 'bg-gray-100 text-gray-300 line-through'
+    : seat.passengerId !== null
+    ? 'bg-gray-400 text-white'
+    : selectable
+    ? 'bg-white text-gray-700 hover:bg-blue-100'
+    : 'bg-white text-gray-300';
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!selectable}
+      title={seat.passengerName ? `${seat.seat} · ${seat.passengerName}` : seat.seat}
+      className={`w-8 h-8 rounded border-2 text-xs font-medium ${CABIN_COLORS[seat.cabin] ?? ''} ${state} disabled:cursor-not-allowed`}
+    >
+      {seat.letter}
+    </button>
+  );
+}
@@ -1,6 +1,8 @@
 import { client } from "./rpc";
 import {
+  useInfiniteQuery,
   useMutation,
+  useQuery,
   useQueryClient,
   useSuspenseQuery,
 } from "@tanstack/react-query";
@@ -144,29 +146,416 @@ export const usePopulateTestData = () => {
       // Invalidate passenger queries after populating data
       queryClient.invalidateQueries({ queryKey: ["passengers"] });
       queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
     },
   });
 };
 
-export const useGetPassengers = (filters?: {
+/**
+ * Filters shared by GET_PASSENGERS and GET_PASSENGER_STATS.
+ */
+export type PassengerFilters = {
   flightNumber?: string;
   departureCity?: string;
   arrivalCity?: string;
   ticketClass?: string;
   status?: string;
+  recordLocator?: string;
+  finalDestination?: string;
+  connectionAirport?: string;
+};
+
+export const useGetPassengers = (filters?: PassengerFilters & {
+  sortBy?: string;
+  sortDirection?: "asc" | "desc";
   limit?: number;
 }) => {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: ["passengers", filters],
-    queryFn: () => client.GET_PASSENGERS(filters || {}),
-    enabled: true, // Always enabled
+    queryFn: ({ pageParam }) =>
+      client.GET_PASSENGERS({ ...filters, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    // Keep paging while the server hands back a cursor
+    getNextPageParam: (lastPage: any) => lastPage.nextCursor ?? undefined,
   });
 };
 
-export const useGetPassengerStats = () => {
+export const useGetPassenger = (id: number) => {
   return useQuery({
-    queryKey: ["passengerStats"],
-    queryFn: () => client.GET_PASSENGER_STATS({}),
+    queryKey: ["passenger", id],
+    queryFn: () => client.GET_PASSENGER({ id }),
+  });
+};
+
+type PassengerListSnapshot = [readonly unknown[], unknown][];
+
+/**
+ * Applies `update` to the passengers of every cached GET_PASSENGERS page,
+ * whatever filters they were fetched with.
+ */
+const updateCachedPassengerPages = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  update: (page: any) => any,
+) => {
+  queryClient.setQueriesData({ queryKey: ["passengers"] }, (old: any) => {
+    if (!old?.pages) return old;
+    return {
+      ...old,
+      pages: old.pages.map(update),
+    };
+  });
+};
+
+/**
+ * Stops in-flight passenger list fetches and snapshots the cached lists,
+ * so an optimistic change can be rolled back if the mutation fails.
+ */
+const snapshotPassengerLists = async (
+  queryClient: ReturnType<typeof useQueryClient>,
+): Promise<PassengerListSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: ["passengers"] });
+  return queryClient.getQueriesData({ queryKey: ["passengers"] });
+};
+
+const restorePassengerLists = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  snapshot: PassengerListSnapshot | undefined,
+) => {
+  snapshot?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+};
+
+export const useCreatePassenger = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: Record<string, unknown>) =>
+      client.CREATE_PASSENGER(input),
+    onSuccess: (data: any) => {
+      // A full cabin puts the booking on the waitlist instead
+      if (!data.passenger) {
+        const entry = data.waitlistEntry;
+        queryClient.invalidateQueries({ queryKey: ["waitlist", entry.flightId] });
+        toast.success(`Cabin is full: added ${entry.firstName} ${entry.lastName} to the waitlist`);
+        return;
+      }
+      queryClient.setQueryData(["passenger", data.passenger.id], data);
+      // Where the new passenger lands depends on each list's filters and sort
+      queryClient.invalidateQueries({ queryKey: ["passengers"] });
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      toast.success(`Created passenger ${data.passenger.firstName} ${data.passenger.lastName}`);
+    },
+    onError: (error) => {
+      toast.error(`Could not create passenger: ${error.message}`);
+    },
+  });
+};
+
+export const useUpdatePassenger = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { id: number } & Record<string, unknown>) =>
+      client.UPDATE_PASSENGER(input),
+    onMutate: async ({ id, ...changes }) => {
+      const previousLists = await snapshotPassengerLists(queryClient);
+      // Show the change right away; the server response replaces it
+      updateCachedPassengerPages(queryClient, (page) => ({
+        ...page,
+        passengers: page.passengers.map((passenger: any) =>
+          passenger.id === id ? { ...passenger, ...changes } : passenger
+        ),
+      }));
+      return { previousLists };
+    },
+    onError: (error, _input, context) => {
+      restorePassengerLists(queryClient, context?.previousLists);
+      toast.error(`Could not update passenger: ${error.message}`);
+    },
+    onSuccess: (data: any) => {
+      queryClient.setQueryData(["passenger", data.passenger.id], data);
+      // Replace the updated passenger wherever it is listed
+      updateCachedPassengerPages(queryClient, (page) => ({
+        ...page,
+        passengers: page.passengers.map((passenger: any) =>
+          passenger.id === data.passenger.id ? data.passenger : passenger
+        ),
+      }));
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      toast.success("Passenger updated");
+    },
+  });
+};
+
+export const useDeletePassenger = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => client.DELETE_PASSENGER({ id }),
+    onMutate: async (id) => {
+      const previousLists = await snapshotPassengerLists(queryClient);
+      // Remove the passenger from every list; totalCount is repeated on
+      // each page, so every page's count goes down
+      queryClient.setQueriesData({ queryKey: ["passengers"] }, (old: any) => {
+        if (!old?.pages) return old;
+        const wasListed = old.pages.some((page: any) =>
+          page.passengers.some((passenger: any) => passenger.id === id)
+        );
+        if (!wasListed) return old;
+        return {
+          ...old,
+          pages: old.pages.map((page: any) => ({
+            ...page,
+            passengers: page.passengers.filter((passenger: any) =>
+              passenger.id !== id
+            ),
+            totalCount: page.totalCount - 1,
+          })),
+        };
+      });
+      return { previousLists };
+    },
+    onError: (error, _id, context) => {
+      restorePassengerLists(queryClient, context?.previousLists);
+      toast.error(`Could not delete passenger: ${error.message}`);
+    },
+    onSuccess: (data: any) => {
+      queryClient.removeQueries({ queryKey: ["passenger", data.deletedId] });
+      queryClient.invalidateQueries({ queryKey: ["seatMap"] });
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      toast.success("Passenger deleted");
+    },
+  });
+};
+
+export const useChangeBookingStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { passengerId: number; status: string; reason?: string }) =>
+      client.CHANGE_BOOKING_STATUS(input),
+    onMutate: async ({ passengerId, status }) => {
+      const previousLists = await snapshotPassengerLists(queryClient);
+      updateCachedPassengerPages(queryClient, (page) => ({
+        ...page,
+        passengers: page.passengers.map((passenger: any) =>
+          passenger.id === passengerId ? { ...passenger, status } : passenger
+        ),
+      }));
+      return { previousLists };
+    },
+    onError: (error, _input, context) => {
+      restorePassengerLists(queryClient, context?.previousLists);
+      toast.error(`Could not change booking status: ${error.message}`);
+    },
+    onSuccess: (data: any) => {
+      queryClient.setQueryData(["passenger", data.passenger.id], { passenger: data.passenger });
+      updateCachedPassengerPages(queryClient, (page) => ({
+        ...page,
+        passengers: page.passengers.map((passenger: any) =>
+          passenger.id === data.passenger.id ? data.passenger : passenger
+        ),
+      }));
+      queryClient.invalidateQueries({ queryKey: ["bookingStatusHistory", data.passenger.id] });
+      queryClient.invalidateQueries({ queryKey: ["seatMap", data.passenger.flightId] });
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      toast.success(`Booking ${data.change.fromStatus} → ${data.change.toStatus}`);
+      // A cancellation may have booked passengers from the waitlist
+      if (data.promoted.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["passengers"] });
+        queryClient.invalidateQueries({ queryKey: ["waitlist", data.passenger.flightId] });
+        for (const entry of data.promoted) {
+          toast.success(`Booked ${entry.firstName} ${entry.lastName} from the waitlist`);
+        }
+      }
+    },
+  });
+};
+
+export const useCancelBooking = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { recordLocator: string; reason?: string }) =>
+      client.CANCEL_BOOKING(input),
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["passengers"] });
+      queryClient.invalidateQueries({ queryKey: ["bookingStatusHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["seatMap"] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      const skipped = data.skipped.length > 0 ? ` (${data.skipped.length} could not be cancelled)` : '';
+      toast.success(`Booking ${data.booking.recordLocator}: cancelled ${data.cancelled.length} passengers${skipped}`);
+      for (const entry of data.promoted) {
+        toast.success(`Booked ${entry.firstName} ${entry.lastName} from the waitlist`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Could not cancel booking: ${error.message}`);
+    },
+  });
+};
+
+export const useCancelAndRefund = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { passengerId?: number; recordLocator?: string; reason?: string }) =>
+      client.CANCEL_AND_REFUND(input),
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["passengers"] });
+      queryClient.invalidateQueries({ queryKey: ["bookingStatusHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["seatMap"] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      for (const refund of data.refunds) {
+        const fee = refund.penalty > 0 ? ` (${refund.penalty.toFixed(2)} ${refund.currency} fee kept)` : '';
+        toast.success(`Passenger ${refund.passengerId}: refunded ${refund.refund.toFixed(2)} ${refund.currency}${fee}`);
+      }
+      for (const entry of data.promoted) {
+        toast.success(`Booked ${entry.firstName} ${entry.lastName} from the waitlist`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Could not cancel and refund: ${error.message}`);
+    },
+  });
+};
+
+export const useGetBookingStatusHistory = (passengerId: number) => {
+  return useQuery({
+    queryKey: ["bookingStatusHistory", passengerId],
+    queryFn: () => client.GET_BOOKING_STATUS_HISTORY({ passengerId }),
+  });
+};
+
+export const useGetSeatMap = (flightId: number) => {
+  return useQuery({
+    queryKey: ["seatMap", flightId],
+    queryFn: () => client.GET_SEAT_MAP({ flightId }),
+  });
+};
+
+export const useAssignSeat = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { passengerId: number; seat: string | null }) =>
+      client.ASSIGN_SEAT(input),
+    onSuccess: (data: any) => {
+      queryClient.setQueryData(["passenger", data.passenger.id], data);
+      updateCachedPassengerPages(queryClient, (page) => ({
+        ...page,
+        passengers: page.passengers.map((passenger: any) =>
+          passenger.id === data.passenger.id ? data.passenger : passenger
+        ),
+      }));
+      queryClient.invalidateQueries({ queryKey: ["seatMap", data.passenger.flightId] });
+      toast.success(data.passenger.seat
+        ? `Seat ${data.passenger.seat} assigned`
+        : "Seat released");
+    },
+    onError: (error) => {
+      toast.error(`Could not assign seat: ${error.message}`);
+    },
+  });
+};
+
+export const useAutoAssignSeats = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (flightId: number) => client.AUTO_ASSIGN_SEATS({ flightId }),
+    onSuccess: (data: any, flightId) => {
+      queryClient.invalidateQueries({ queryKey: ["passengers"] });
+      queryClient.invalidateQueries({ queryKey: ["seatMap", flightId] });
+      toast.success(data.message);
+    },
+    onError: (error) => {
+      toast.error(`Could not assign seats: ${error.message}`);
+    },
+  });
+};
+
+export const useGetFlightLoad = (flightId?: number) => {
+  return useQuery({
+    queryKey: ["flightLoad", flightId],
+    queryFn: () => client.GET_FLIGHT_LOAD({ flightId }),
+  });
+};
+
+export const useGetWaitlist = (flightId: number) => {
+  return useQuery({
+    queryKey: ["waitlist", flightId],
+    queryFn: () => client.GET_WAITLIST({ flightId }),
+  });
+};
+
+export const useRemoveFromWaitlist = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { id: number; reason?: string }) =>
+      client.REMOVE_FROM_WAITLIST(input),
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["waitlist", data.entry.flightId] });
+      toast.success(`Removed ${data.entry.firstName} ${data.entry.lastName} from the waitlist`);
+    },
+    onError: (error) => {
+      toast.error(`Could not remove from the waitlist: ${error.message}`);
+    },
+  });
+};
+
+export const useSearchAirports = (query: string) => {
+  return useQuery({
+    queryKey: ["airports", query],
+    queryFn: () => client.SEARCH_AIRPORTS({ query }),
+    // Airports are reference data; keep the previous suggestions while typing
+    staleTime: Infinity,
+    placeholderData: (previous) => previous,
+  });
+};
+
+export const useGetExchangeRates = () => {
+  return useQuery({
+    queryKey: ["exchangeRates"],
+    queryFn: () => client.GET_EXCHANGE_RATES({}),
+  });
+};
+
+export const useGetRouteStats = (params: { from?: string; to?: string; reportingCurrency?: string }) => {
+  return useQuery({
+    queryKey: ["routeStats", params],
+    queryFn: () => client.GET_ROUTE_STATS(params),
+  });
+};
+
+export const useGetTimeSeries = (params: {
+  granularity?: "day" | "week" | "month";
+  dateField?: "booking" | "departure";
+  from?: string;
+  to?: string;
+  departureCity?: string;
+  arrivalCity?: string;
+  status?: string;
+  reportingCurrency?: string;
+}) => {
+  return useQuery({
+    queryKey: ["timeSeries", params],
+    queryFn: () => client.GET_TIME_SERIES(params),
+  });
+};
+
+export const useGetPassengerStats = (filters: PassengerFilters & { reportingCurrency?: string } = {}) => {
+  return useQuery({
+    queryKey: ["passengerStats", filters],
+    queryFn: () => client.GET_PASSENGER_STATS(filters),
   });
 };
 
@@ -174,12 +563,23 @@ export const useImportPassengersFromCSV = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (csvContent: string) => 
-      client.IMPORT_PASSENGERS_FROM_CSV({ csvContent }),
-    onSuccess: () => {
+    mutationFn: (input: {
+      csvContent: string;
+      dryRun?: boolean;
+      onError?: "abort" | "skip";
+      mode?: "insert" | "upsert" | "skipDuplicates";
+      overCapacity?: "reject" | "waitlist";
+    }) =>
+      client.IMPORT_PASSENGERS_FROM_CSV(input),
+    onSuccess: (data: any) => {
+      // A dry run only validates, so there is nothing to refetch
+      if (data.dryRun) return;
       // Invalidate passenger queries after importing data
       queryClient.invalidateQueries({ queryKey: ["passengers"] });
       queryClient.invalidateQueries({ queryKey: ["passengerStats"] });
+      queryClient.invalidateQueries({ queryKey: ["timeSeries"] });
+      queryClient.invalidateQueries({ queryKey: ["flightLoad"] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
     },
   });
 };
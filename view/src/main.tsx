@@ -9,6 +9,7 @@ import {
 import HomePage from "./routes/home.tsx";
 import ProfilePage from "./routes/profile.tsx";
 import PassengersDemoPage from "./routes/passengers-demo.tsx";
+import RoutesPage from "./routes/routes.tsx";
 import { Toaster } from "sonner";
 
 import "./styles.css";
@@ -22,6 +23,7 @@ const routeTree = rootRoute.addChildren([
   HomePage(rootRoute),
   ProfilePage(rootRoute),
   PassengersDemoPage(rootRoute),
+  RoutesPage(rootRoute),
 ]);
 
 const queryClient = new QueryClient();
@@ -259,15 +259,26 @@ function HomePage() {
             <p className="text-sm text-slate-400 mb-4">
               Test the new passenger database tools with sample data
             </p>
-            <Button
-              asChild
-              size="sm"
-              className="bg-blue-600 text-white hover:bg-blue-500 border-blue-500"
-            >
-              <Link to="/passengers-demo">
-                View Passengers Demo
-              </Link>
-            </Button>
+            <div className="flex justify-center gap-3">
+              <Button
+                asChild
+                size="sm"
+                className="bg-blue-600 text-white hover:bg-blue-500 border-blue-500"
+              >
+                <Link to="/passengers-demo">
+                  View Passengers Demo
+                </Link>
+              </Button>
+              <Button
+                asChild
+                size="sm"
+                className="bg-blue-600 text-white hover:bg-blue-500 border-blue-500"
+              >
+                <Link to="/routes">
+                  View Route Network
+                </Link>
+              </Button>
+            </div>
           </div>
         </div>
 
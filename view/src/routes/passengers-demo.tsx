@@ -24,12 +24,20 @@ function PassengersDemoPage() {
               </div>
             </div>
             
-            <Link
-              to="/"
-              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
-            >
-              ← Back to Home
-            </Link>
+            <div className="flex items-center gap-4">
+              <Link
+                to="/routes"
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              >
+                Route Network
+              </Link>
+              <Link
+                to="/"
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              >
+                ← Back to Home
+              </Link>
+            </div>
           </div>
         </div>
       </div>